@@ -13,13 +13,28 @@ const sidebars: SidebarsConfig = {
       items: [
         'core/overview',
         'core/controllers',
+        'core/versioning',
         'core/context',
         'core/validation',
+        'core/file-uploads',
+        'core/content-negotiation',
         'core/dependency-injection',
+        'core/modules',
+        'core/configuration',
         'core/middleware',
+        'core/guards',
+        'core/exception-filters',
+        'core/interceptors',
+        'core/openapi',
+        'core/websockets',
         'core/logging',
         'core/caching',
+        'core/rate-limiting',
+        'core/cookies-sessions',
         'core/lifecycle',
+        'core/health',
+        'core/metrics',
+        'core/tracing',
       ],
     },
     {
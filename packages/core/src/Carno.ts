@@ -1,42 +1,244 @@
 import 'reflect-metadata';
 
-import { CONTROLLER_META, ROUTES_META, PARAMS_META, MIDDLEWARE_META } from './metadata';
-import type { RouteInfo, MiddlewareInfo, ControllerMeta } from './metadata';
-import type { ParamMetadata } from './decorators/params';
+import {
+    CONTROLLER_META,
+    ROUTES_META,
+    PARAMS_META,
+    MIDDLEWARE_META,
+    GUARDS_META,
+    FILTERS_META,
+    CATCH_META,
+    INTERCEPTORS_META,
+    GATEWAY_META,
+    GATEWAY_HANDLERS_META,
+    SSE_META,
+    CACHE_RESPONSE_META,
+    CACHE_INVALIDATE_META,
+    RATE_LIMIT_META,
+    PRODUCES_META,
+    CONSUMES_META
+} from './metadata';
+import type {
+    RouteInfo,
+    MiddlewareInfo,
+    ControllerMeta,
+    GuardInfo,
+    FilterInfo,
+    InterceptorInfo,
+    GatewayMeta,
+    GatewayHandlerInfo
+} from './metadata';
+import type { ParamMetadata, ParamType } from './decorators/params';
 // RadixRouter removed - using Bun's native SIMD-accelerated router
-import { compileHandler } from './compiler/JITCompiler';
+import { compileHandler, type ParamInfo, type CompiledHandler } from './compiler/JITCompiler';
 import { Context } from './context/Context';
+import { ExecutionContext } from './context/ExecutionContext';
 import { Container, Scope } from './container/Container';
-import type { Token, ProviderConfig } from './container/Container';
+import { getTokenName, type Token, type Type, type ProviderConfig } from './container/Container';
 import { CorsHandler, type CorsConfig } from './cors/CorsHandler';
 import type { ValidatorAdapter } from './validation/ValidatorAdapter';
-import { HttpException } from './exceptions/HttpException';
+import { HttpException, ForbiddenException, MethodNotAllowedException } from './exceptions/HttpException';
 import { ValidationException } from './validation/ZodAdapter';
-import { EventType, hasEventHandlers, getEventHandlers } from './events/Lifecycle';
+import { EventType, hasEventHandlers, getEventHandlers, type EventHandler, type ShutdownConfig } from './events/Lifecycle';
 import { CacheService } from './cache/CacheService';
 import type { CacheConfig } from './cache/CacheDriver';
-import { DEFAULT_STATIC_ROUTES } from './DefaultRoutes';
+import { ResponseCache, type CacheResponseOptions, type CacheTags } from './cache/ResponseCache';
+import { RateLimiter, type RateLimitOptions } from './rate-limit/RateLimiter';
+import { CookieSigner } from './cookies/CookieSigner';
+import type { CookieConfig } from './cookies/Cookies';
+import { createSessionMiddleware, type SessionConfig } from './session/SessionMiddleware';
+import { CacheSessionStore } from './session/CacheSessionStore';
+import { ContentNegotiator, assertConsumes, type NegotiationConfig } from './negotiation/ContentNegotiator';
+import type { ResponseSerializer } from './negotiation/ResponseSerializer';
+import { HealthService, type HealthConfig } from './health/HealthService';
+import { ConfigService, loadConfig, type ConfigOptions } from './config/ConfigService';
+import type { HealthCheckType } from './health/HealthIndicator';
+import { MetricsRegistry, DEFAULT_METRICS_PATH, PROMETHEUS_CONTENT_TYPE, type MetricsConfig } from './metrics/MetricsRegistry';
+import { HttpMetrics } from './metrics/HttpMetrics';
+import { Tracer, type TracingConfig } from './tracing/Tracer';
+import { traceRoute } from './tracing/HttpTracing';
+import { CacheHealthIndicator, DiskHealthIndicator, MemoryHealthIndicator } from './health/indicators';
+import {
+    VERSION_NEUTRAL,
+    createVersionDispatcher,
+    createVersionExtractor,
+    resolveVersions,
+    type VersionedHandlers,
+    type VersioningConfig,
+    type VersionValue
+} from './versioning/Versioning';
+import type { RouteDefinition, RouteDescription } from './router/RouteDefinition';
+import { formatRouteTable } from './router/RouteTable';
+import { RouteMatcher } from './router/RouteMatcher';
+import { OpenApiGenerator, DEFAULT_OPENAPI_PATH, type OpenApiConfig } from './openapi/OpenApiGenerator';
+import { DEFAULT_STATIC_ROUTES, SHUTTING_DOWN_RESPONSE } from './DefaultRoutes';
+import { isStreamable, createNdjsonResponse, createSseResponse, type SseOptions } from './streaming/streams';
+import { WebSocketPublisher } from './websocket/WebSocketPublisher';
+import { createWebSocketHandler, groupGatewayHandlers, type WebSocketData } from './websocket/WebSocketHandler';
 import { ZodAdapter } from './validation/ZodAdapter';
-import type { CarnoMiddleware } from './middleware/CarnoMiddleware';
+import type { CarnoMiddleware, CarnoClosure } from './middleware/CarnoMiddleware';
+import { composeMiddlewares, type OnionMiddleware, type ResponseStage } from './middleware/compose';
+import type { CanActivate, GuardType } from './guards/CanActivate';
+import type { ExceptionFilter, FilterType } from './filters/ExceptionFilter';
+import type { CarnoInterceptor, InterceptorType } from './interceptors/CarnoInterceptor';
 
-export type MiddlewareHandler = (ctx: Context) => Response | void | Promise<Response | void>;
+/**
+ * Function middleware.
+ * Handlers declaring `next` follow the onion pattern; single-argument handlers
+ * run before the route and continue automatically unless they return a Response.
+ */
+export type MiddlewareHandler = (ctx: Context, next: CarnoClosure) => Response | void | Promise<Response | void>;
 
 /**
  * Carno plugin configuration.
  */
 export interface CarnoConfig {
+    /** Module name shown in dependency resolution errors. */
+    name?: string;
+    /** Modules whose exports this module can inject - same as calling use() for each. */
+    imports?: Carno[];
+    /** Providers other modules can inject. Everything else stays private to this module. */
     exports?: (Token | ProviderConfig)[];
+    /**
+     * Merge this module's providers into every module that uses it instead of keeping them private.
+     * Meant for infrastructure plugins (ORM, queues, scheduler).
+     */
+    global?: boolean;
     globalMiddlewares?: MiddlewareHandler[];
+    globalGuards?: GuardType[];
+    globalFilters?: FilterType[];
+    globalInterceptors?: InterceptorType[];
     disableStartupLog?: boolean;
     cors?: CorsConfig;
     validation?: ValidatorAdapter | boolean | (new (...args: any[]) => ValidatorAdapter);
     cache?: CacheConfig | boolean;
+    openapi?: OpenApiConfig | boolean;
+    /** Rate limit applied to every controller route, unless overridden with @RateLimit() / @SkipRateLimit(). */
+    rateLimit?: RateLimitOptions;
+    /** Secret(s) for signed cookies. The first one signs, all of them verify. */
+    cookies?: CookieConfig;
+    /** Enable `@Session()` - requires `cookies.secret`. */
+    session?: SessionConfig;
+    /**
+     * Parse bodies and serialize responses by media type (JSON, MessagePack, CSV, XML, custom).
+     * Without it, only `@Produces()` routes negotiate and unknown body types are read as ArrayBuffer.
+     */
+    negotiation?: NegotiationConfig | boolean;
+    /** Grace period, readiness drain and signals used by `shutdown()`. */
+    shutdown?: ShutdownConfig;
+    /** Checks reported by `/health` (liveness) and `/ready` (readiness). */
+    health?: HealthConfig;
+    /**
+     * Injectable `ConfigService` - a loaded one, or options to load and validate it at construction.
+     */
+    configuration?: ConfigService<any> | ConfigOptions<any>;
+    /** Serve several versions of a route, selected by URI prefix, header or Accept media type. */
+    versioning?: VersioningConfig;
+    /**
+     * What to do when two registrations claim the same method and path:
+     * `warn` (default - the last one wins) or `throw` at startup.
+     */
+    duplicateRoutes?: 'throw' | 'warn';
+    /** Print the registered routes at startup instead of the one-line message. */
+    routeTable?: boolean;
+    /** Record request, cache, query and queue metrics and serve them in Prometheus format. */
+    metrics?: MetricsConfig | boolean;
+    /** Trace requests, SQL statements, cache calls and queue jobs, exported over OTLP/HTTP. */
+    tracing?: TracingConfig;
 }
 
 // CompiledRoute removed - handlers are registered directly in Bun's routes
 
 const NOT_FOUND_RESPONSE = new Response('Not Found', { status: 404 });
 
+const DEFAULT_SHUTDOWN_TIMEOUT = 10_000;
+const DEFAULT_SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+/**
+ * Marker returned through the middleware chain once a WebSocket upgrade succeeded.
+ * Bun expects the route handler to return nothing in that case.
+ */
+const UPGRADED_RESPONSE = new Response(null, { status: 200 });
+
+/**
+ * Param sources that can be validated against a @Schema DTO.
+ */
+const VALIDATED_PARAM_TYPES = new Set<ParamType>(['body', 'query', 'param', 'header']);
+
+/**
+ * Compiled guard check - throws when the request is rejected.
+ */
+type GuardRunner = (ctx: Context) => Promise<void>;
+
+/**
+ * Compiled exception filter chain - rethrows when no filter matches.
+ */
+type ErrorHandler = (error: any, ctx: Context) => Promise<Response>;
+
+/**
+ * Compiled interceptor chain around the handler execution.
+ */
+type InterceptorRunner = (ctx: Context, execute: () => Promise<any>) => Promise<any>;
+
+/**
+ * Pipeline component resolved at compile time - returns the instance for a request.
+ */
+type ComponentResolver<T> = (ctx: Context) => T;
+
+/**
+ * Exception filter with the error types from its @Catch().
+ */
+interface FilterEntry {
+    types: Function[];
+    resolve: ComponentResolver<ExceptionFilter>;
+}
+
+/**
+ * Application-wide pipeline stages, resolved once in the root module.
+ */
+interface GlobalPipeline {
+    middlewares: OnionMiddleware[];
+    middlewareNames: string[];
+    guards: ComponentResolver<CanActivate>[];
+    filters: FilterEntry[];
+    interceptors: ComponentResolver<CarnoInterceptor>[];
+}
+
+/**
+ * A registered route and what registered it - `source` names it in conflict reports.
+ */
+interface RouteRecord {
+    source: string;
+    handler: Response | Function;
+    description: RouteDescription;
+}
+
+/**
+ * Per-route pipeline stages resolved at compile time.
+ */
+interface RoutePipeline {
+    middlewares: OnionMiddleware[];
+    guardRunner: GuardRunner | null;
+    errorHandler: ErrorHandler | null;
+    interceptorRunner: InterceptorRunner | null;
+    rateLimitStage: ResponseStage | null;
+    responseStage: ResponseStage | null;
+    serialize: ResponseSerializerFn | null;
+}
+
+/**
+ * Builds the response of a negotiated route from the handler result.
+ */
+type ResponseSerializerFn = (result: any, ctx: Context) => Response;
+
+/**
+ * Media types a route consumes (415) and the serializers it offers (406).
+ */
+interface RouteNegotiation {
+    consumes: string[] | null;
+    offered: ResponseSerializer[] | null;
+}
+
 /**
  * Pre-computed response - frozen and reused.
  */
@@ -67,14 +269,43 @@ const INTERNAL_ERROR_RESPONSE = new Response(
  */
 export class Carno {
     private _controllers: (new (...args: any[]) => any)[] = [];
-    private _services: (Token | ProviderConfig)[] = [];
+    private _gateways: (new (...args: any[]) => any)[] = [];
+    private _services: (Type | ProviderConfig)[] = [];
     private _middlewares: MiddlewareHandler[] = [];
+    private _overrides = new Map<Token, ProviderConfig>();
+    private _imports: Carno[] = [];
+    private modules: Carno[] = [];
     private routes: Record<string, Record<string, Response | Function> | Response | Function> = {};
+    private routeDefinitions: RouteDefinition[] = [];
+    /** Every registered route by "METHOD /path", for getRoutes() and duplicate detection */
+    private routeRecords = new Map<string, RouteRecord>();
+    private routeConflicts: string[] = [];
+    /** Header / media-type versioned handlers by path and method, dispatched once all routes are compiled */
+    private versionedRoutes = new Map<string, Map<string, VersionedHandlers>>();
     private container = new Container();
     private corsHandler: CorsHandler | null = null;
     private hasCors = false;
     private validator: ValidatorAdapter | null = null;
     private server: any;
+    private publisher = new WebSocketPublisher();
+    private responseCache: ResponseCache | null = null;
+    private rateLimiter: RateLimiter | null = null;
+    private cookieSigner: CookieSigner | null = null;
+    private negotiator: ContentNegotiator;
+    /** Passed to every Context when negotiation is enabled - strict body parsing */
+    private bodyNegotiator: ContentNegotiator | null = null;
+    private health: HealthService;
+    private metrics: MetricsRegistry;
+    private httpMetrics: HttpMetrics | null = null;
+    private tracer: Tracer;
+    private configService: ConfigService<any> | null = null;
+    private preparing: Promise<void> | null = null;
+    private ready = false;
+    /** Set once shutdown starts - `/ready` reports 503 from then on */
+    private draining = false;
+    private shuttingDown: Promise<boolean> | null = null;
+    private removeSignalHandlers: (() => void) | null = null;
+    private matcher: RouteMatcher | null = null;
 
     // Cached lifecycle event flags - checked once at startup
     private hasInitHooks = false;
@@ -84,6 +315,7 @@ export class Carno {
     constructor(public config: CarnoConfig = {}) {
         this.config.exports = this.config.exports || [];
         this.config.globalMiddlewares = this.config.globalMiddlewares || [];
+        this.container.name = this.config.name ?? 'AppModule';
 
         // Initialize CORS handler if configured
         if (this.config.cors) {
@@ -91,6 +323,24 @@ export class Carno {
             this.hasCors = true;
         }
 
+        if (this.config.cookies?.secret) {
+            this.cookieSigner = new CookieSigner(this.config.cookies.secret);
+        }
+
+        if (this.config.session && !this.cookieSigner) {
+            throw new Error('Sessions need a cookie secret: configure `cookies: { secret }` on Carno');
+        }
+
+        this.negotiator = new ContentNegotiator(typeof this.config.negotiation === 'object' ? this.config.negotiation : {});
+
+        if (this.config.negotiation) {
+            this.bodyNegotiator = this.negotiator;
+        }
+
+        this.health = this.createHealthService(this.config.health ?? {});
+        this.metrics = new MetricsRegistry(!!this.config.metrics);
+        this.tracer = new Tracer(this.config.tracing ?? null);
+
         // Initialize validator
         // Default: ZodAdapter if undefined or true
         if (this.config.validation === undefined || this.config.validation === true) {
@@ -105,31 +355,34 @@ export class Carno {
         else if (this.config.validation) {
             this.validator = this.config.validation as ValidatorAdapter;
         }
+
+        // Fail fast on invalid configuration - before anything is registered
+        if (this.config.configuration instanceof ConfigService) {
+            this.configService = this.config.configuration;
+        } else if (this.config.configuration) {
+            this.configService = loadConfig({ validator: this.validator ?? undefined, ...this.config.configuration });
+        }
+
+        for (const module of this.config.imports || []) {
+            this.use(module);
+        }
     }
 
     /**
-     * Use a Carno plugin.
-     * Imports controllers, services, middlewares, and routes from another Carno instance.
+     * Use a Carno plugin (module).
+     * Its controllers and gateways are mounted, and its exported providers become injectable here.
+     * Providers it does not export stay private to it, unless the plugin is `global`.
+     * Global middlewares and programmatic routes are always merged.
      */
     use(plugin: Carno): this {
-        // Import controllers from plugin
-        if (plugin._controllers.length > 0) {
-            this._controllers.push(...plugin._controllers);
-        }
-
-        // Import services from plugin exports
-        for (const exported of plugin.config.exports || []) {
-            const existingService = this.findServiceInPlugin(plugin, exported);
-            const serviceToAdd = this.shouldCloneService(existingService)
-                ? { ...existingService }
-                : exported;
-
-            this._services.push(serviceToAdd);
-        }
+        if (plugin.config.global) {
+            this.merge(plugin);
+        } else if (!this._imports.includes(plugin)) {
+            if (!plugin.config.name) {
+                plugin.container.name = this.describeModule(plugin);
+            }
 
-        // Import services registered via .services() on the plugin
-        if (plugin._services.length > 0) {
-            this._services.push(...plugin._services);
+            this._imports.push(plugin);
         }
 
         // Import global middlewares
@@ -157,9 +410,63 @@ export class Carno {
             }
         }
 
+        for (const [key, record] of plugin.routeRecords) {
+            this.recordRoute(key, record);
+        }
+
+        for (const conflict of plugin.routeConflicts) {
+            this.addRouteConflict(conflict);
+        }
+
         return this;
     }
 
+    /**
+     * Flatten a global plugin into this module: its providers become this module's own.
+     */
+    private merge(plugin: Carno): void {
+        // Import controllers from plugin
+        if (plugin._controllers.length > 0) {
+            this._controllers.push(...plugin._controllers);
+        }
+
+        // Import WebSocket gateways from plugin
+        if (plugin._gateways.length > 0) {
+            this._gateways.push(...plugin._gateways);
+        }
+
+        // Import services from plugin exports
+        for (const exported of plugin.config.exports || []) {
+            const existingService = this.findServiceInPlugin(plugin, exported);
+            const serviceToAdd = this.shouldCloneService(existingService)
+                ? { ...existingService }
+                : exported;
+
+            this._services.push(serviceToAdd);
+        }
+
+        // Import services registered via .services() on the plugin
+        if (plugin._services.length > 0) {
+            this._services.push(...plugin._services);
+        }
+
+        // Modules imported by the global plugin are visible through it
+        for (const imported of plugin._imports) {
+            if (!this._imports.includes(imported)) {
+                this._imports.push(imported);
+            }
+        }
+    }
+
+    /**
+     * Fallback name for unnamed modules, based on what they mount.
+     */
+    private describeModule(plugin: Carno): string {
+        const mounted = [...plugin._controllers, ...plugin._gateways].map(c => c.name);
+
+        return mounted.length > 0 ? `Module(${mounted.join(', ')})` : 'AnonymousModule';
+    }
+
     private findServiceInPlugin(plugin: Carno, exported: any): any | undefined {
         return plugin._services.find(
             s => this.getServiceToken(s) === this.getServiceToken(exported)
@@ -177,7 +484,7 @@ export class Carno {
     /**
      * Register one or more services/providers.
      */
-    services(serviceClass: Token | ProviderConfig | (Token | ProviderConfig)[]): this {
+    services(serviceClass: Type | ProviderConfig | (Type | ProviderConfig)[]): this {
         const items = Array.isArray(serviceClass) ? serviceClass : [serviceClass];
         this._services.push(...items);
         return this;
@@ -201,6 +508,28 @@ export class Carno {
         return this;
     }
 
+    /**
+     * Replace a provider before bootstrap (e.g. swap a service for a mock in tests).
+     * Overrides win over providers registered by services() or imported plugins.
+     */
+    overrideProvider<T>(token: Token<T>, provider: Omit<ProviderConfig<T>, 'token'>): this {
+        if (this.preparing) {
+            throw new Error(`Cannot override ${getTokenName(token)} after the application was bootstrapped`);
+        }
+
+        this._overrides.set(token, { ...provider, token });
+        return this;
+    }
+
+    /**
+     * Register one or more WebSocket gateways (@WebSocketGateway classes).
+     */
+    gateways(gatewayClass: (new (...args: any[]) => any) | (new (...args: any[]) => any)[]): this {
+        const items = Array.isArray(gatewayClass) ? gatewayClass : [gatewayClass];
+        this._gateways.push(...items);
+        return this;
+    }
+
     /**
      * Register a route programmatically.
      * Useful for plugins that need to register routes without controllers.
@@ -222,6 +551,7 @@ export class Carno {
         }
 
         this.routes[path][normalizedMethod] = handler;
+        this.recordRoute(`${normalizedMethod} ${path}`, this.programmaticRoute(normalizedMethod, path, handler, 'route()'));
         return this;
     }
 
@@ -248,12 +578,23 @@ export class Carno {
             }
 
             for (const [method, handler] of Object.entries(methods)) {
-                this.routes[path][method.toUpperCase()] = handler;
+                const normalizedMethod = method.toUpperCase();
+
+                this.routes[path][normalizedMethod] = handler;
+                this.recordRoute(`${normalizedMethod} ${path}`, this.programmaticRoute(normalizedMethod, path, handler, 'addRoutes()'));
             }
         }
         return this;
     }
 
+    /**
+     * Every registered route with its handler, middlewares and parameter bindings.
+     * Controller routes are listed once the application is prepared (listen(), inject() or prepare()).
+     */
+    getRoutes(): RouteDescription[] {
+        return [...this.routeRecords.values()].map(record => record.description);
+    }
+
     /**
      * Get a service instance from the container.
      */
@@ -261,281 +602,1480 @@ export class Carno {
         return this.container.get(token);
     }
 
-    listen(port: number = 3000): void {
-        this.bootstrap();
-        this.compileRoutes();
+    /**
+     * Bootstrap (awaiting async providers and init hooks when there are any) and start the server.
+     * Resolves once the boot hooks finished. Without async providers or hooks the server is
+     * started before listen() returns.
+     *
+     * Startup errors (a failing provider, a duplicate route, a port in use) always reject the
+     * returned promise - never throw. Not awaited, the rejection ends the process.
+     */
+    listen(port: number = 3000): Promise<void> {
+        const ready = this.prepare();
+
+        if (!this.ready) {
+            return ready.then(() => this.startServer(port));
+        }
 
+        try {
+            return Promise.resolve(this.startServer(port));
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
+
+    private startServer(port: number): Promise<void> | void {
         // All routes go through Bun's native SIMD-accelerated router
         const config: any = {
             port,
             fetch: this.handleNotFound.bind(this),
             error: this.handleError.bind(this),
-            routes: {
-                ...DEFAULT_STATIC_ROUTES,
-                ...this.routes
-            }
+            routes: this.getRouteTable()
         };
 
+        // Gateways of imported modules need the handler too
+        if (this.modules.some(module => module._gateways.length > 0)) {
+            config.websocket = createWebSocketHandler();
+        }
+
         this.server = Bun.serve(config);
+        this.publisher.attach(this.server);
 
-        // Execute BOOT hooks after server is ready
-        if (this.hasBootHooks) {
-            this.executeLifecycleHooks(EventType.BOOT);
-        }
+        this.registerShutdownHandlers();
 
-        // Register shutdown handlers
-        if (this.hasShutdownHooks) {
-            this.registerShutdownHandlers();
+        if (!this.config.disableStartupLog) {
+            console.log(this.config.routeTable
+                ? `Carno running on port ${port}\n\n${formatRouteTable(this.getRoutes())}\n`
+                : `Carno running on port ${port}`);
         }
 
-        if (!this.config.disableStartupLog) {
-            console.log(`Carno running on port ${port}`);
+        // Execute BOOT hooks after server is ready
+        if (this.hasBootHooks) {
+            return this.executeLifecycleHooks(EventType.BOOT);
         }
     }
 
-    private bootstrap(): void {
-        // Cache lifecycle event flags
-        this.hasInitHooks = hasEventHandlers(EventType.INIT);
-        this.hasBootHooks = hasEventHandlers(EventType.BOOT);
-        this.hasShutdownHooks = hasEventHandlers(EventType.SHUTDOWN);
-
-        // Register Container itself so it can be injected
-        this.container.register({
-            token: Container,
-            useValue: this.container
-        });
+    /**
+     * Dispatch a request in-process through the compiled route table,
+     * with the same not-found and error handling as Bun.serve - no socket involved.
+     * Bootstraps the application on first use.
+     */
+    async inject(input: Request | string, init?: RequestInit): Promise<Response> {
+        if (!this.ready) {
+            await this.prepare();
+        }
 
-        // Always register CacheService (Memory by default)
-        const cacheConfig = typeof this.config.cache === 'object' ? this.config.cache : {};
-        this.container.register({
-            token: CacheService,
-            useValue: new CacheService(cacheConfig)
-        });
+        const req = typeof input === 'string'
+            ? new Request(new URL(input, 'http://localhost'), init)
+            : input;
 
-        for (const service of this._services) {
-            this.container.register(service);
-        }
+        const match = this.getMatcher().match(req.method, new URL(req.url).pathname);
 
-        for (const ControllerClass of this._controllers) {
-            this.container.register(ControllerClass);
+        if (!match) {
+            return this.handleNotFound(req).clone();
         }
 
-        if (this.hasInitHooks) {
-            this.executeLifecycleHooks(EventType.INIT);
+        if (match.handler instanceof Response) {
+            return match.handler.clone();
         }
 
-        for (const service of this._services) {
-            const token = typeof service === 'function' ? service : service.token;
-            const serviceConfig = typeof service === 'function' ? null : service;
+        // Mirror Bun's native router which exposes params on the request
+        (req as any).params = match.params;
 
-            if (!serviceConfig || serviceConfig.scope !== Scope.REQUEST) {
-                this.container.get(token);
-            }
+        try {
+            return await match.handler(req);
+        } catch (error: any) {
+            return this.handleError(error).clone();
         }
     }
 
-    private compileRoutes(): void {
-        for (const ControllerClass of this._controllers) {
-            this.compileController(ControllerClass);
+    /**
+     * Bootstrap the container and compile routes without starting a server.
+     * Idempotent - listen() and inject() call it implicitly. Errors reject the
+     * returned promise, whether bootstrap was synchronous or not.
+     */
+    prepare(): Promise<this> {
+        if (!this.preparing) {
+            this.preparing = this.bootstrapAndCompile();
         }
-    }
-
-    private compileController(
-        ControllerClass: new (...args: any[]) => any,
-        parentPath: string = '',
-        inheritedMiddlewares: MiddlewareHandler[] = []
-    ): void {
-        const meta: ControllerMeta = Reflect.getMetadata(CONTROLLER_META, ControllerClass) || { path: '' };
-        const basePath = parentPath + (meta.path || '');
-        const routes: RouteInfo[] = Reflect.getMetadata(ROUTES_META, ControllerClass) || [];
-        const middlewares: MiddlewareInfo[] = Reflect.getMetadata(MIDDLEWARE_META, ControllerClass) || [];
-        const instance = this.container.get(ControllerClass);
 
-        // Extract controller-level middlewares (applied to all routes of this controller)
-        const controllerMiddlewares = middlewares
-            .filter(m => !m.target)
-            .map(m => m.handler as MiddlewareHandler);
+        return this.preparing.then(() => this);
+    }
 
-        // Combine inherited middlewares with this controller's middlewares
-        // This combined list is passed down to children and applied to current routes
-        const scopedMiddlewares = [...inheritedMiddlewares, ...controllerMiddlewares];
+    private bootstrapAndCompile(): Promise<void> {
+        const finish = () => {
+            this.compileRoutes();
+            this.ready = true;
+        };
 
-        for (const route of routes) {
-            const fullPath = this.normalizePath(basePath + route.path);
-            const params: ParamMetadata[] = Reflect.getMetadata(PARAMS_META, ControllerClass, route.handlerName) || [];
+        try {
+            const pending = this.bootstrap();
 
-            // Middlewares specific to this route handler
-            const routeMiddlewares = middlewares
-                .filter(m => m.target === route.handlerName)
-                .map(m => m.handler as MiddlewareHandler);
+            if (pending) {
+                return pending.then(finish);
+            }
 
-            // Get parameter types for validation
-            const paramTypes: any[] = Reflect.getMetadata('design:paramtypes', ControllerClass.prototype, route.handlerName) || [];
+            finish();
 
-            // Find Body param with DTO that has @Schema for validation
-            let bodyDtoType: any = null;
-            for (const param of params) {
-                if (param.type === 'body' && !param.key) {
-                    const dtoType = paramTypes[param.index];
-                    if (dtoType && this.validator?.hasValidation(dtoType)) {
-                        bodyDtoType = dtoType;
-                    }
-                }
-            }
+            return Promise.resolve();
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
 
-            const compiled = compileHandler(instance, route.handlerName, params);
+    private getRouteTable(): Record<string, Record<string, Response | Function> | Response | Function> {
+        return {
+            ...DEFAULT_STATIC_ROUTES,
+            '/health': () => this.healthResponse('liveness'),
+            '/ready': () => this.draining ? SHUTTING_DOWN_RESPONSE.clone() : this.healthResponse('readiness'),
+            ...this.withImplicitMethods(this.routes)
+        };
+    }
 
-            const allMiddlewares = [
-                ...(this.config.globalMiddlewares || []),
-                ...this._middlewares,
-                ...scopedMiddlewares,
-                ...routeMiddlewares
-            ];
+    private getMatcher(): RouteMatcher {
+        if (!this.matcher) {
+            this.matcher = new RouteMatcher(this.getRouteTable());
+        }
 
-            // Pre-resolve class-based middlewares at compile time for maximum performance
-            const resolvedMiddlewares = allMiddlewares.map(m => this.resolveMiddleware(m));
+        return this.matcher;
+    }
 
-            const hasMiddlewares = resolvedMiddlewares.length > 0;
+    /**
+     * Answer HEAD on GET routes and OPTIONS on every path, unless they define their own.
+     */
+    private withImplicitMethods(
+        routes: Record<string, Record<string, Response | Function> | Response | Function>
+    ): Record<string, Record<string, Response | Function> | Response | Function> {
+        const table: Record<string, Record<string, Response | Function> | Response | Function> = {};
+
+        for (const [path, entry] of Object.entries(routes)) {
+            // Single handlers already answer every method
+            if (entry instanceof Response || typeof entry === 'function') {
+                table[path] = entry;
+                continue;
+            }
 
-            const method = route.method.toUpperCase();
+            const methods = { ...entry };
 
-            // Static response - no function needed
-            if (compiled.isStatic && !hasMiddlewares) {
-                this.registerRoute(fullPath, method, this.createStaticResponse(compiled.staticValue));
-            } else {
-                // Dynamic handler - compile to Bun-compatible function
-                this.registerRoute(fullPath, method, this.createHandler(compiled, params, resolvedMiddlewares, bodyDtoType));
+            if (methods.GET && !methods.HEAD) {
+                methods.HEAD = this.createHeadHandler(methods.GET);
             }
-        }
 
-        // Compile child controllers with parent path and inherited middlewares
-        if (meta.children) {
-            for (const ChildController of meta.children) {
-                if (!this.container.has(ChildController)) {
-                    this.container.register(ChildController);
-                }
+            if (!methods.OPTIONS) {
+                const allowed = new Response(null, {
+                    status: 204,
+                    headers: { Allow: [...Object.keys(methods), 'OPTIONS'].join(', ') }
+                });
 
-                this.compileController(ChildController, basePath, scopedMiddlewares);
+                methods.OPTIONS = (req: Request) => this.handleOptions(req, allowed);
             }
+
+            table[path] = methods;
         }
+
+        return table;
     }
 
     /**
-     * Register a route with Bun's native router format.
-     * Path: "/users/:id", Method: "GET", Handler: Function or Response
+     * Run the GET handler and drop the body, keeping status and headers.
      */
-    private registerRoute(path: string, method: string, handler: Response | Function): void {
-        if (!this.routes[path]) {
-            this.routes[path] = {};
+    private createHeadHandler(get: Response | Function): Response | Function {
+        if (get instanceof Response) {
+            return new Response(null, { status: get.status, headers: get.headers });
         }
 
-        (this.routes[path] as Record<string, Response | Function>)[method] = handler;
-    }
+        return async (req: Request, server: any) => {
+            const response: Response | undefined = await get(req, server);
 
-    private createStaticResponse(value: any): Response {
-        const isString = typeof value === 'string';
-        const body = isString ? value : JSON.stringify(value);
-        const opts = isString ? TEXT_OPTS : JSON_OPTS;
+            if (!response) {
+                return response;
+            }
 
-        return new Response(body, opts);
+            // Release streamed bodies (SSE, files) nobody will read
+            response.body?.cancel().catch(() => {});
+
+            return new Response(null, { status: response.status, statusText: response.statusText, headers: response.headers });
+        };
     }
 
-    private createHandler(
-        compiled: { fn: Function; isAsync: boolean },
-        params: ParamMetadata[],
-        middlewares: MiddlewareHandler[],
-        bodyDtoType?: any
-    ): Function {
-        const handler = compiled.fn;
-        const hasMiddlewares = middlewares.length > 0;
-        const hasParams = params.length > 0;
-        const applyCors = this.hasCors ? this.applyCors.bind(this) : null;
-        const validator = bodyDtoType ? this.validator : null;
-        const needsValidation = !!validator;
+    private handleOptions(req: Request, allowed: Response): Response {
+        const origin = this.hasCors ? req.headers.get('origin') : null;
 
-        // Force middleware path when validation is needed
-        const hasMiddlewaresOrValidation = hasMiddlewares || needsValidation;
+        // CORS preflight keeps precedence over the plain Allow answer
+        return origin ? this.corsHandler!.preflight(origin) : allowed.clone();
+    }
 
-        // No middlewares, no params - fastest path
-        if (!hasMiddlewaresOrValidation && !hasParams) {
-            if (compiled.isAsync) {
-                return async (req: Request) => {
-                    const ctx = new Context(req);
-                    const result = await handler(ctx);
-                    const response = this.buildResponse(result);
+    private createHealthService(config: HealthConfig): HealthService {
+        const health = new HealthService(config.timeout);
 
-                    return applyCors ? applyCors(response, req) : response;
-                };
-            }
+        if (config.memory) {
+            health.register(new MemoryHealthIndicator(config.memory));
+        }
+
+        if (config.disk) {
+            health.register(new DiskHealthIndicator(config.disk));
+        }
+
+        for (const indicator of config.indicators ?? []) {
+            health.register(indicator);
+        }
+
+        return health;
+    }
+
+    /**
+     * 503 with the detailed report when any check is down.
+     */
+    private async healthResponse(type: HealthCheckType): Promise<Response> {
+        const report = await this.health.check(type);
+
+        return Response.json(report, { status: report.status === 'ok' ? 200 : 503 });
+    }
+
+    private bootstrap(): Promise<void> | void {
+        // Cache lifecycle event flags
+        this.hasInitHooks = hasEventHandlers(EventType.INIT);
+        this.hasBootHooks = hasEventHandlers(EventType.BOOT);
+        this.hasShutdownHooks = hasEventHandlers(EventType.SHUTDOWN);
+
+        // Always register CacheService (Memory by default) - shared by every module
+        const cacheConfig = typeof this.config.cache === 'object' ? this.config.cache : {};
+        const cache = new CacheService(cacheConfig);
+        this.responseCache = new ResponseCache(cache);
+        this.rateLimiter = new RateLimiter(cache, req => this.server?.requestIP(req)?.address);
+
+        if (cache.getDriver().ping) {
+            this.health.register(new CacheHealthIndicator(cache));
+        }
+
+        if (this.metrics.enabled) {
+            cache.instrument(this.metrics);
+        }
+
+        if (this.tracer.enabled) {
+            cache.trace(this.tracer);
+        }
+
+        // Imported modules come before the modules importing them
+        this.modules = this.collectModules(this, [], new Set());
+
+        for (const module of this.modules) {
+            this.registerModule(module, cache);
+        }
+
+        for (const module of this.modules) {
+            this.linkImports(module);
+        }
+
+        for (const override of this._overrides.values()) {
+            const owners = this.modules.filter(m => m.container.provides(override.token));
+
+            for (const owner of owners.length > 0 ? owners : [this]) {
+                owner.container.register(override);
+            }
+        }
+
+        // Factory providers (possibly async) are created before anything can depend on them
+        const withFactories = this.modules.filter(m => m.container.hasFactories());
+
+        if (withFactories.length > 0) {
+            return withFactories
+                .reduce((chain, m) => chain.then(() => m.container.resolveFactories()), Promise.resolve())
+                .then(() => this.initialize());
+        }
+
+        return this.initialize();
+    }
+
+    /**
+     * Flatten the module graph depth-first, imports before importers, each module once.
+     */
+    private collectModules(module: Carno, collected: Carno[], path: Set<Carno>): Carno[] {
+        if (collected.includes(module)) {
+            return collected;
+        }
+
+        if (path.has(module)) {
+            const cycle = [...path, module].map(m => m.container.name).join(' -> ');
+            throw new Error(`Circular module import: ${cycle}`);
+        }
+
+        path.add(module);
+
+        for (const imported of module._imports) {
+            this.collectModules(imported, collected, path);
+        }
+
+        path.delete(module);
+        collected.push(module);
+
+        return collected;
+    }
+
+    /**
+     * Register a module's built-in and own providers in its container.
+     */
+    private registerModule(module: Carno, cache: CacheService): void {
+        const container = module.container;
+
+        // Register Container itself so it can be injected
+        container.register({
+            token: Container,
+            useValue: container
+        });
+
+        // Current request Context - seeded per request via ctx.requestLocals
+        container.register({
+            token: Context,
+            scope: Scope.REQUEST
+        });
+
+        // Pub/sub access for WebSocket broadcasting
+        container.register({
+            token: WebSocketPublisher,
+            useValue: this.publisher
+        });
+
+        container.register({
+            token: CacheService,
+            useValue: cache
+        });
+
+        container.register({
+            token: ResponseCache,
+            useValue: this.responseCache
+        });
+
+        container.register({
+            token: RateLimiter,
+            useValue: this.rateLimiter
+        });
+
+        container.register({
+            token: HealthService,
+            useValue: this.health
+        });
+
+        container.register({
+            token: MetricsRegistry,
+            useValue: this.metrics
+        });
+
+        container.register({
+            token: Tracer,
+            useValue: this.tracer
+        });
+
+        if (this.configService) {
+            container.register({
+                token: ConfigService,
+                useValue: this.configService
+            });
+
+            // The schema class resolves to the validated values
+            if (this.configService.schema) {
+                container.register({
+                    token: this.configService.schema,
+                    useValue: this.configService.all()
+                });
+            }
+        }
+
+        for (const service of module._services) {
+            container.register(service);
+        }
+
+        for (const ControllerClass of module._controllers) {
+            container.register(ControllerClass);
+        }
+
+        for (const GatewayClass of module._gateways) {
+            container.register(GatewayClass);
+        }
+    }
+
+    /**
+     * Expose the exports of each imported module to the importing module.
+     * Runs imports-first, so re-exported tokens are already resolvable.
+     */
+    private linkImports(module: Carno): void {
+        for (const imported of module._imports) {
+            module.container.addImport(imported.container, imported.exportedTokens());
+        }
+    }
+
+    /**
+     * Tokens this module exports, checked against what it provides or imports.
+     */
+    private exportedTokens(): Token[] {
+        return (this.config.exports || []).map(exported => {
+            const token = this.getServiceToken(exported) as Token;
+
+            if (!this.container.has(token)) {
+                throw new Error(
+                    `Module "${this.container.name}" exports ${getTokenName(token)} but does not provide or import it`
+                );
+            }
+
+            return token;
+        });
+    }
+
+    /**
+     * Run INIT hooks (awaiting async ones) and eagerly create singleton services.
+     */
+    private initialize(): Promise<void> | void {
+        const pending = this.hasInitHooks ? this.executeLifecycleHooks(EventType.INIT) : undefined;
+
+        return pending ? pending.then(() => this.createSingletons()) : this.createSingletons();
+    }
+
+    private createSingletons(): void {
+        for (const module of this.modules) {
+            for (const service of module._services) {
+                const token = typeof service === 'function' ? service : service.token;
+
+                // Request-bound providers (directly or through bubbling) are resolved per request
+                if (!module.container.isRequestScoped(token)) {
+                    module.container.get(token);
+                }
+            }
+        }
+    }
+
+    private compileRoutes(): void {
+        const globals = this.compileGlobalPipeline();
+
+        if (this.config.metrics) {
+            const metricsConfig = typeof this.config.metrics === 'object' ? this.config.metrics : {};
+            this.httpMetrics = new HttpMetrics(this.metrics, metricsConfig.buckets);
+        }
+
+        // Each module compiles its controllers against its own container
+        for (const module of this.modules) {
+            for (const ControllerClass of module._controllers) {
+                this.compileController(ControllerClass, module.container, globals);
+            }
+
+            for (const GatewayClass of module._gateways) {
+                this.compileGateway(GatewayClass, module.container, globals);
+            }
+        }
+
+        this.registerVersionDispatchers();
+
+        if (this.config.openapi) {
+            this.registerOpenApiRoute();
+        }
+
+        if (this.config.metrics) {
+            this.registerMetricsRoute();
+        }
+
+        this.reportRouteConflicts();
+    }
+
+    /**
+     * Resolve the application-wide middlewares, guards, filters and interceptors once.
+     * Class middlewares merged from a plugin resolve in the module that provides them.
+     */
+    private compileGlobalPipeline(): GlobalPipeline {
+        const handlers = [...(this.config.globalMiddlewares || []), ...this._middlewares];
+        const middlewareNames = handlers.map(m => this.describeMiddleware(m));
+        const middlewares = handlers.map(m => {
+            const token = m as unknown as Type;
+            const owner = m.prototype?.handle && !this.container.has(token)
+                ? this.modules.find(module => module.container.provides(token))
+                : undefined;
+
+            return this.resolveMiddleware(m, owner?.container ?? this.container);
+        });
+
+        // Sessions wrap everything else so middlewares and guards can read them
+        if (this.config.session) {
+            const store = this.config.session.store ?? new CacheSessionStore(this.container.get(CacheService));
+            middlewares.unshift(createSessionMiddleware(this.config.session, store));
+            middlewareNames.unshift('session');
+        }
+
+        return {
+            middlewares,
+            middlewareNames,
+            guards: (this.config.globalGuards || []).map(g => this.resolveComponent<CanActivate>(g, this.container)),
+            filters: this.resolveFilters(this.config.globalFilters || [], this.container),
+            interceptors: (this.config.globalInterceptors || []).map(i => this.resolveComponent<CarnoInterceptor>(i, this.container))
+        };
+    }
+
+    /**
+     * Generate the OpenAPI document once at startup and serve it as a static response.
+     */
+    private registerOpenApiRoute(): void {
+        const openApiConfig = typeof this.config.openapi === 'object' ? this.config.openapi : {};
+        const document = new OpenApiGenerator(openApiConfig, this.validator).generate(this.routeDefinitions);
+        const path = openApiConfig.path ?? DEFAULT_OPENAPI_PATH;
+        const response = new Response(JSON.stringify(document), JSON_OPTS);
+
+        this.registerRoute(path, 'GET', response, {
+            source: 'OpenAPI document',
+            handler: response,
+            description: { method: 'GET', path, controller: null, handler: 'openapi', middlewares: [], params: [] }
+        });
+    }
+
+    /**
+     * Serve the registry in Prometheus text format, rendered on every scrape.
+     */
+    private registerMetricsRoute(): void {
+        const metricsConfig = typeof this.config.metrics === 'object' ? this.config.metrics : {};
+        const path = metricsConfig.path ?? DEFAULT_METRICS_PATH;
+        const handler = async () => new Response(await this.metrics.render(), {
+            headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE }
+        });
+
+        this.registerRoute(path, 'GET', handler, {
+            source: 'Prometheus metrics',
+            handler,
+            description: { method: 'GET', path, controller: null, handler: 'metrics', middlewares: [], params: [] }
+        });
+    }
+
+    private compileController(
+        ControllerClass: new (...args: any[]) => any,
+        container: Container,
+        globals: GlobalPipeline,
+        parentPath: string = '',
+        inheritedMiddlewares: MiddlewareHandler[] = [],
+        inheritedGuards: GuardType[] = [],
+        inheritedFilters: FilterType[] = [],
+        inheritedInterceptors: InterceptorType[] = [],
+        inheritedVersion?: VersionValue
+    ): void {
+        const meta: ControllerMeta = Reflect.getMetadata(CONTROLLER_META, ControllerClass) || { path: '' };
+        const basePath = parentPath + (meta.path || '');
+        const controllerVersion = meta.version ?? inheritedVersion;
+        const routes: RouteInfo[] = Reflect.getMetadata(ROUTES_META, ControllerClass) || [];
+        const middlewares: MiddlewareInfo[] = Reflect.getMetadata(MIDDLEWARE_META, ControllerClass) || [];
+        const guards: GuardInfo[] = Reflect.getMetadata(GUARDS_META, ControllerClass) || [];
+        const filters: FilterInfo[] = Reflect.getMetadata(FILTERS_META, ControllerClass) || [];
+        const interceptors: InterceptorInfo[] = Reflect.getMetadata(INTERCEPTORS_META, ControllerClass) || [];
+
+        // REQUEST-scoped controllers get a fresh instance per request, tied to the Context
+        const isRequestScoped = container.isRequestScoped(ControllerClass);
+        const instance = isRequestScoped ? ControllerClass.prototype : container.get(ControllerClass);
+        const resolveInstance = isRequestScoped
+            ? (ctx: Context) => container.get(ControllerClass, ctx.requestLocals)
+            : undefined;
+
+        // Extract controller-level middlewares (applied to all routes of this controller)
+        const controllerMiddlewares = middlewares
+            .filter(m => !m.target)
+            .map(m => m.handler as MiddlewareHandler);
+
+        // Combine inherited middlewares with this controller's middlewares
+        // This combined list is passed down to children and applied to current routes
+        const scopedMiddlewares = [...inheritedMiddlewares, ...controllerMiddlewares];
+
+        // Controller-level guards follow the same inheritance as middlewares
+        const scopedGuards = [
+            ...inheritedGuards,
+            ...guards.filter(g => !g.target).map(g => g.guard)
+        ];
+
+        // Filters go from most to least specific: this controller first, then parents
+        const scopedFilters = [
+            ...filters.filter(f => !f.target).map(f => f.filter),
+            ...inheritedFilters
+        ];
+
+        // Interceptors nest like middlewares: parents wrap children
+        const scopedInterceptors = [
+            ...inheritedInterceptors,
+            ...interceptors.filter(i => !i.target).map(i => i.interceptor)
+        ];
+
+        for (const route of routes) {
+            const fullPath = this.normalizePath(basePath + route.path);
+            const params: ParamMetadata[] = Reflect.getMetadata(PARAMS_META, ControllerClass, route.handlerName) || [];
+
+            if (!this.config.session && params.some(p => p.type === 'session')) {
+                throw new Error(`@Session() in ${ControllerClass.name}.${route.handlerName} needs the \`session\` option on Carno`);
+            }
+
+            // Middlewares specific to this route handler
+            const routeMiddlewares = middlewares
+                .filter(m => m.target === route.handlerName)
+                .map(m => m.handler as MiddlewareHandler);
+
+            // Attach validators to DTO params (@Body, @Query, @Param, @Header with @Schema)
+            const paramTypes: any[] = Reflect.getMetadata('design:paramtypes', ControllerClass.prototype, route.handlerName) || [];
+            const handlerParams = params.map(param => this.withValidation(param, paramTypes[param.index]));
+
+            const sseOptions: SseOptions | undefined = Reflect.getMetadata(SSE_META, ControllerClass, route.handlerName);
+            const handler = compileHandler(instance, route.handlerName, handlerParams, resolveInstance);
+            const streamed = sseOptions ? this.withSse(handler, sseOptions) : handler;
+            const negotiation = this.compileNegotiation(ControllerClass, route.handlerName);
+            const compiled = negotiation ? this.withNegotiation(streamed, negotiation) : streamed;
+            const method = route.method.toUpperCase();
+            const versions = this.routeVersions(route, controllerVersion, ControllerClass);
+            const targets = this.versionTargets(fullPath, versions);
+
+            for (const target of targets) {
+                this.routeDefinitions.push({
+                    method,
+                    path: target.path,
+                    controller: ControllerClass,
+                    handlerName: route.handlerName,
+                    params,
+                    paramTypes,
+                    version: target.version
+                });
+            }
+
+            // Pre-resolve class-based middlewares at compile time for maximum performance
+            const resolvedMiddlewares = [
+                ...globals.middlewares,
+                ...[...scopedMiddlewares, ...routeMiddlewares].map(m => this.resolveMiddleware(m, container))
+            ];
+
+            const hasMiddlewares = resolvedMiddlewares.length > 0;
+
+            const routeGuards = [
+                ...globals.guards,
+                ...[...scopedGuards, ...guards.filter(g => g.target === route.handlerName).map(g => g.guard)]
+                    .map(g => this.resolveComponent<CanActivate>(g, container))
+            ];
+
+            const guardRunner = this.compileGuards(routeGuards, ControllerClass, route.handlerName);
+
+            const routeFilters = [
+                ...this.resolveFilters([
+                    ...filters.filter(f => f.target === route.handlerName).map(f => f.filter),
+                    ...scopedFilters
+                ], container),
+                ...globals.filters
+            ];
+
+            const errorHandler = this.compileFilters(routeFilters);
+
+            const routeInterceptors = [
+                ...globals.interceptors,
+                ...[...scopedInterceptors, ...interceptors.filter(i => i.target === route.handlerName).map(i => i.interceptor)]
+                    .map(i => this.resolveComponent<CarnoInterceptor>(i, container))
+            ];
+
+            const interceptorRunner = this.compileInterceptors(routeInterceptors, ControllerClass, route.handlerName);
+
+            const rateLimitStage = this.compileRateLimit(ControllerClass, route.handlerName, `${method} ${fullPath}`);
+            const responseStage = this.compileResponseStage(ControllerClass, route.handlerName, method, !!negotiation?.offered);
+            const serialize = negotiation?.offered ? this.createSerializer(negotiation.offered) : null;
+
+            // Static response - no function needed
+            const routeHandler = compiled.isStatic && !hasMiddlewares && !guardRunner && !interceptorRunner && !rateLimitStage && !responseStage
+                ? this.createStaticResponse(compiled.staticValue)
+                // Dynamic handler - compile to Bun-compatible function
+                : this.createHandler(compiled, params, {
+                    middlewares: resolvedMiddlewares,
+                    guardRunner,
+                    errorHandler,
+                    interceptorRunner,
+                    rateLimitStage,
+                    responseStage,
+                    serialize
+                });
+
+            const middlewareNames = [
+                ...globals.middlewareNames,
+                ...[...scopedMiddlewares, ...routeMiddlewares].map(m => this.describeMiddleware(m))
+            ];
+
+            const bindings = params.map(({ index, type, key }) => ({ index, type, key }));
+
+            for (const target of targets) {
+                const traced = this.tracer.enabled
+                    ? traceRoute(this.tracer, routeHandler, method, target.path, this.errorStatus)
+                    : routeHandler;
+
+                const measured = this.httpMetrics
+                    ? this.httpMetrics.instrument(traced, method, target.path, this.errorStatus)
+                    : traced;
+
+                const record: RouteRecord = {
+                    source: `${ControllerClass.name}.${route.handlerName}`,
+                    handler: measured,
+                    description: {
+                        method,
+                        path: target.path,
+                        controller: ControllerClass.name,
+                        handler: route.handlerName,
+                        middlewares: middlewareNames,
+                        params: bindings,
+                        ...(target.version !== undefined && { version: target.version })
+                    }
+                };
+
+                if (target.dispatched) {
+                    this.addVersionedHandler(target.path, method, target.version!, measured);
+                    this.recordRoute(this.versionedRouteKey(method, target.path, target.version!), record);
+                } else {
+                    this.registerRoute(target.path, method, measured, record);
+                }
+            }
+        }
+
+        // Compile child controllers with parent path and inherited middlewares
+        if (meta.children) {
+            for (const ChildController of meta.children) {
+                if (!container.has(ChildController)) {
+                    container.register(ChildController);
+                }
+
+                this.compileController(
+                    ChildController,
+                    container,
+                    globals,
+                    basePath,
+                    scopedMiddlewares,
+                    scopedGuards,
+                    scopedFilters,
+                    scopedInterceptors,
+                    controllerVersion
+                );
+            }
+        }
+    }
+
+    /**
+     * Compile a WebSocket gateway into a GET upgrade route.
+     * Global and gateway-level middlewares and guards run on the upgrade request;
+     * the gateway instance and the upgrade Context are attached to the socket.
+     */
+    private compileGateway(
+        GatewayClass: new (...args: any[]) => any,
+        container: Container,
+        globals: GlobalPipeline
+    ): void {
+        const meta: GatewayMeta | undefined = Reflect.getMetadata(GATEWAY_META, GatewayClass);
+
+        if (!meta) {
+            throw new Error(`${GatewayClass.name} is not decorated with @WebSocketGateway`);
+        }
+
+        const handlerInfos: GatewayHandlerInfo[] = Reflect.getMetadata(GATEWAY_HANDLERS_META, GatewayClass) || [];
+        const middlewares: MiddlewareInfo[] = Reflect.getMetadata(MIDDLEWARE_META, GatewayClass) || [];
+        const guards: GuardInfo[] = Reflect.getMetadata(GUARDS_META, GatewayClass) || [];
+        const handlers = groupGatewayHandlers(handlerInfos);
+
+        const resolvedMiddlewares = [
+            ...globals.middlewares,
+            ...middlewares.filter(m => !m.target).map(m => this.resolveMiddleware(m.handler, container))
+        ];
+
+        const guardRunner = this.compileGuards(
+            [
+                ...globals.guards,
+                ...guards.filter(g => !g.target).map(g => this.resolveComponent<CanActivate>(g.guard, container))
+            ],
+            GatewayClass,
+            // Guards check the upgrade request, not a socket event handler
+            'upgrade'
+        );
+
+        const resolveGateway = container.isRequestScoped(GatewayClass)
+            ? (ctx: Context) => container.get(GatewayClass, ctx.requestLocals)
+            : (() => {
+                const instance = container.get(GatewayClass);
+                return () => instance;
+            })();
+
+        const upgrade = composeMiddlewares(resolvedMiddlewares, async (ctx: Context) => {
+            if (guardRunner) {
+                await guardRunner(ctx);
+            }
+
+            // Bun empties the request on upgrade - keep a detached copy for the socket lifetime
+            const socketCtx = new Context(
+                new Request(ctx.req.url, { method: ctx.req.method, headers: ctx.req.headers }),
+                ctx.params,
+                this.cookieSigner,
+                this.bodyNegotiator
+            );
+            socketCtx.locals = ctx.locals;
+
+            const data: WebSocketData = { ctx: socketCtx, gateway: resolveGateway(socketCtx), handlers };
+
+            // No server when dispatched in-process through inject()
+            if (this.server?.upgrade(ctx.req, { data })) {
+                return UPGRADED_RESPONSE;
+            }
+
+            return new Response('Upgrade Required', { status: 426 });
+        });
+
+        const path = this.normalizePath(meta.path);
+        const handler = async (req: Request) => {
+            const ctx = new Context(req, (req as any).params || {}, this.cookieSigner, this.bodyNegotiator);
+            const response = await upgrade(ctx);
+
+            if (response === UPGRADED_RESPONSE) {
+                return undefined;
+            }
+
+            return this.hasCors ? this.applyCors(response, req) : response;
+        };
+
+        this.registerRoute(path, 'GET', handler, {
+            source: `${GatewayClass.name} (WebSocket)`,
+            handler,
+            description: {
+                method: 'GET',
+                path,
+                controller: GatewayClass.name,
+                handler: 'upgrade',
+                middlewares: [
+                    ...globals.middlewareNames,
+                    ...middlewares.filter(m => !m.target).map(m => this.describeMiddleware(m.handler))
+                ],
+                params: []
+            }
+        });
+    }
+
+    /**
+     * Versions served by a route, or null when it is unversioned.
+     */
+    private routeVersions(
+        route: RouteInfo,
+        controllerVersion: VersionValue | undefined,
+        ControllerClass: Function
+    ): (string | typeof VERSION_NEUTRAL)[] | null {
+        const versioning = this.config.versioning;
+
+        if (!versioning) {
+            if (route.version !== undefined || controllerVersion !== undefined) {
+                throw new Error(`Version of ${ControllerClass.name}.${route.handlerName} needs the \`versioning\` option on Carno`);
+            }
+
+            return null;
+        }
+
+        return resolveVersions(route.version, controllerVersion, versioning.defaultVersion);
+    }
+
+    /**
+     * Where a route is registered for each of its versions. URI versions are plain
+     * routes under a prefix; header and media-type versions share a dispatched path.
+     * Unversioned and neutral routes keep the direct (fast) registration.
+     */
+    private versionTargets(
+        path: string,
+        versions: (string | typeof VERSION_NEUTRAL)[] | null
+    ): { path: string; version?: string | typeof VERSION_NEUTRAL; dispatched: boolean }[] {
+        if (!versions) {
+            return [{ path, dispatched: false }];
+        }
+
+        const { type, prefix = 'v' } = this.config.versioning!;
+
+        return versions.map(version => {
+            if (version === VERSION_NEUTRAL) {
+                return type === 'uri' ? { path, version, dispatched: false } : { path, version, dispatched: true };
+            }
+
+            return type === 'uri'
+                ? { path: this.normalizePath(`/${prefix}${version}${path}`), version, dispatched: false }
+                : { path, version, dispatched: true };
+        });
+    }
+
+    private addVersionedHandler(
+        path: string,
+        method: string,
+        version: string | typeof VERSION_NEUTRAL,
+        handler: Response | Function
+    ): void {
+        let methods = this.versionedRoutes.get(path);
+
+        if (!methods) {
+            methods = new Map();
+            this.versionedRoutes.set(path, methods);
+        }
+
+        let handlers = methods.get(method);
+
+        if (!handlers) {
+            handlers = { versions: new Map(), neutral: null };
+            methods.set(method, handlers);
+        }
+
+        if (version === VERSION_NEUTRAL) {
+            handlers.neutral = handler;
+        } else {
+            handlers.versions.set(version, handler);
+        }
+    }
+
+    /**
+     * One dispatcher per versioned path and method. A route registered there without
+     * a version (e.g. from a plugin) serves as the neutral fallback.
+     */
+    private registerVersionDispatchers(): void {
+        if (this.versionedRoutes.size === 0) {
+            return;
+        }
+
+        const versioning = this.config.versioning!;
+        const extract = createVersionExtractor(versioning);
+        const defaults = resolveVersions(versioning.defaultVersion) ?? [];
+        const defaultVersion = (defaults.find(v => typeof v === 'string') as string | undefined) ?? null;
+        const notFound = this.handleNotFound.bind(this);
+
+        for (const [path, methods] of this.versionedRoutes) {
+            for (const [method, handlers] of methods) {
+                const existing = (this.routes[path] as Record<string, Response | Function> | undefined)?.[method];
+
+                if (existing && !handlers.neutral) {
+                    handlers.neutral = existing;
+                }
+
+                this.registerRoute(path, method, createVersionDispatcher(handlers, extract, defaultVersion, notFound));
+            }
+        }
+    }
+
+    /**
+     * Register a route with Bun's native router format.
+     * Path: "/users/:id", Method: "GET", Handler: Function or Response
+     * Routes registered without a record (version dispatchers) replace on purpose and skip duplicate detection.
+     */
+    private registerRoute(path: string, method: string, handler: Response | Function, record?: RouteRecord): void {
+        if (!this.routes[path]) {
+            this.routes[path] = {};
+        }
+
+        (this.routes[path] as Record<string, Response | Function>)[method] = handler;
+
+        if (record) {
+            this.recordRoute(`${method} ${path}`, record);
+        }
+    }
+
+    /**
+     * Track a route registration, noting a conflict when another handler already claimed it.
+     * The same handler arriving twice (a plugin reached through several modules) is not a conflict.
+     */
+    private recordRoute(key: string, record: RouteRecord): void {
+        const existing = this.routeRecords.get(key);
+
+        if (existing && existing.handler !== record.handler) {
+            this.addRouteConflict(`Duplicate route ${key}: ${existing.source} and ${record.source}`);
+        }
+
+        this.routeRecords.set(key, record);
+    }
+
+    private addRouteConflict(conflict: string): void {
+        if (!this.routeConflicts.includes(conflict)) {
+            this.routeConflicts.push(conflict);
+        }
+    }
+
+    /**
+     * Header and media-type versions share a path, so their version is part of the key.
+     * Neutral handlers claim the plain path - they compete with unversioned routes.
+     */
+    private versionedRouteKey(method: string, path: string, version: string | typeof VERSION_NEUTRAL): string {
+        return version === VERSION_NEUTRAL ? `${method} ${path}` : `${method} ${path} (version ${version})`;
+    }
+
+    private programmaticRoute(method: string, path: string, handler: Response | Function, via: string): RouteRecord {
+        const name = handler instanceof Response ? 'Response' : handler.name || 'anonymous';
+
+        return {
+            source: `${name} (${via} in ${this.container.name})`,
+            handler,
+            description: { method, path, controller: null, handler: name, middlewares: [], params: [] }
+        };
+    }
+
+    /**
+     * Throw or warn about routes registered more than once - see `duplicateRoutes`.
+     */
+    private reportRouteConflicts(): void {
+        if (this.routeConflicts.length === 0) {
+            return;
+        }
+
+        if (this.config.duplicateRoutes === 'throw') {
+            throw new Error(this.routeConflicts.join('\n'));
+        }
+
+        for (const conflict of this.routeConflicts) {
+            console.warn(`${conflict} - the last one wins`);
+        }
+    }
+
+    private describeMiddleware(middleware: any): string {
+        return middleware.name || 'anonymous';
+    }
+
+    private createStaticResponse(value: any): Response {
+        const isString = typeof value === 'string';
+        const body = isString ? value : JSON.stringify(value);
+        const opts = isString ? TEXT_OPTS : JSON_OPTS;
+
+        return new Response(body, opts);
+    }
+
+    private createHandler(
+        compiled: { fn: Function; isAsync: boolean },
+        params: ParamMetadata[],
+        pipeline: RoutePipeline
+    ): Function {
+        const { middlewares, guardRunner, errorHandler, interceptorRunner, rateLimitStage, responseStage, serialize } = pipeline;
+        const handler = compiled.fn;
+        const hasMiddlewares = middlewares.length > 0;
+        const hasParams = params.length > 0;
+        const applyCors = this.hasCors ? this.applyCors.bind(this) : null;
+        const signer = this.cookieSigner;
+        const parsers = this.bodyNegotiator;
+
+        const finish = (ctx: Context, response: Response, req: Request): Response => {
+            if (ctx.cookiesChanged) {
+                response = ctx.cookies.applyTo(response);
+            }
+
+            return applyCors ? applyCors(response, req) : response;
+        };
+
+        // Force middleware path when guards, filters, interceptors, rate limiting or response caching are needed
+        const needsPipeline = hasMiddlewares
+            || !!guardRunner
+            || !!errorHandler
+            || !!interceptorRunner
+            || !!rateLimitStage
+            || !!responseStage;
+
+        // No middlewares, no params - fastest path
+        if (!needsPipeline && !hasParams) {
+            if (compiled.isAsync) {
+                return async (req: Request) => {
+                    const ctx = new Context(req, undefined, signer, parsers);
+                    const result = await handler(ctx);
+                    const response = serialize ? serialize(result, ctx) : this.buildResponse(result);
+
+                    return finish(ctx, response, req);
+                };
+            }
 
             return (req: Request) => {
-                const ctx = new Context(req);
+                const ctx = new Context(req, undefined, signer, parsers);
                 const result = handler(ctx);
-                const response = this.buildResponse(result);
+                const response = serialize ? serialize(result, ctx) : this.buildResponse(result);
 
-                return applyCors ? applyCors(response, req) : response;
+                return finish(ctx, response, req);
             };
         }
 
         // With params - use Bun's native req.params
-        if (!hasMiddlewaresOrValidation && hasParams) {
+        if (!needsPipeline && hasParams) {
             if (compiled.isAsync) {
                 return async (req: Request) => {
-                    const ctx = new Context(req, (req as any).params);
+                    const ctx = new Context(req, (req as any).params, signer, parsers);
                     const result = await handler(ctx);
-                    const response = this.buildResponse(result);
+                    const response = serialize ? serialize(result, ctx) : this.buildResponse(result);
 
-                    return applyCors ? applyCors(response, req) : response;
+                    return finish(ctx, response, req);
                 };
             }
 
             return (req: Request) => {
-                const ctx = new Context(req, (req as any).params);
+                const ctx = new Context(req, (req as any).params, signer, parsers);
                 const result = handler(ctx);
-                const response = this.buildResponse(result);
+                const response = serialize ? serialize(result, ctx) : this.buildResponse(result);
+
+                return finish(ctx, response, req);
+            };
+        }
+
+        // With middlewares - full onion pipeline
+        // Handler with inlined parameter validation
+        const execute = async (ctx: Context) => {
+            return compiled.isAsync
+                ? await handler(ctx)
+                : handler(ctx);
+        };
+
+        const respond = async (ctx: Context) => {
+            const result = interceptorRunner
+                ? await interceptorRunner(ctx, () => execute(ctx))
+                : await execute(ctx);
+
+            return serialize ? serialize(result, ctx) : this.buildResponse(result);
+        };
+
+        const guarded = async (ctx: Context) => {
+            // Guards run after middlewares, before interceptors and the handler
+            if (guardRunner) {
+                await guardRunner(ctx);
+            }
+
+            // Response caching sits behind the guards - a cache hit never skips authorization
+            return responseStage
+                ? responseStage(ctx, () => respond(ctx))
+                : respond(ctx);
+        };
+
+        // Rate limiting counts every request reaching the route, including ones guards reject
+        const run = composeMiddlewares(middlewares, rateLimitStage
+            ? (ctx: Context) => rateLimitStage(ctx, () => guarded(ctx))
+            : guarded);
+
+        if (errorHandler) {
+            return async (req: Request) => {
+                const ctx = new Context(req, (req as any).params || {}, signer, parsers);
+                let response: Response;
+
+                try {
+                    response = await run(ctx);
+                } catch (error) {
+                    response = await errorHandler(error, ctx);
+                }
 
-                return applyCors ? applyCors(response, req) : response;
+                return finish(ctx, response, req);
             };
         }
 
-        // With middlewares - full pipeline
         return async (req: Request) => {
-            const ctx = new Context(req, (req as any).params || {});
+            const ctx = new Context(req, (req as any).params || {}, signer, parsers);
+            const response = await run(ctx);
 
-            for (const middleware of middlewares) {
-                const result = await middleware(ctx);
+            return finish(ctx, response, req);
+        };
+    }
+
+    /**
+     * @Consumes() / @Produces() of a route (method level overrides the controller).
+     * Returns null for routes served as plain JSON.
+     */
+    private compileNegotiation(ControllerClass: new (...args: any[]) => any, handlerName: string): RouteNegotiation | null {
+        const consumes: string[] | undefined = Reflect.getMetadata(CONSUMES_META, ControllerClass, handlerName)
+            ?? Reflect.getMetadata(CONSUMES_META, ControllerClass);
+        const produces: string[] | undefined = Reflect.getMetadata(PRODUCES_META, ControllerClass, handlerName)
+            ?? Reflect.getMetadata(PRODUCES_META, ControllerClass);
+
+        const offered = produces || this.config.negotiation ? this.negotiator.serializersFor(produces) : null;
+
+        if (!consumes && !offered) {
+            return null;
+        }
 
-                if (result instanceof Response) {
-                    return applyCors ? applyCors(result, req) : result;
+        return { consumes: consumes ?? null, offered };
+    }
+
+    /**
+     * Reject unsupported Content-Types (415) and unacceptable Accept headers (406)
+     * before the handler runs.
+     */
+    private withNegotiation(compiled: CompiledHandler, negotiation: RouteNegotiation): CompiledHandler {
+        const handler = compiled.fn;
+        const { consumes, offered } = negotiation;
+        const negotiator = this.negotiator;
+
+        return {
+            fn: (ctx: Context) => {
+                if (consumes) {
+                    assertConsumes(ctx.req, consumes);
                 }
-            }
 
-            // Validate body if validator is configured
-            if (validator && bodyDtoType) {
-                await ctx.parseBody();
-                validator.validateOrThrow(bodyDtoType, ctx.body);
+                if (offered) {
+                    negotiator.assertAcceptable(ctx.req.headers.get('accept'), offered);
+                }
+
+                return handler(ctx);
+            },
+            isAsync: compiled.isAsync,
+            isStatic: false
+        };
+    }
+
+    /**
+     * Serialize handler results in the format the client accepts.
+     * Responses, strings, streams and empty results are built as usual.
+     */
+    private createSerializer(offered: ResponseSerializer[]): ResponseSerializerFn {
+        const negotiator = this.negotiator;
+
+        return (result: any, ctx: Context) => {
+            if (result === undefined || result instanceof Response || typeof result === 'string' || isStreamable(result)) {
+                return this.buildResponse(result);
             }
 
-            const result = compiled.isAsync
-                ? await handler(ctx)
-                : handler(ctx);
+            return negotiator.respond(result, ctx.req.headers.get('accept'), offered);
+        };
+    }
 
-            const response = this.buildResponse(result);
+    private varyOnAccept(options: CacheResponseOptions): CacheResponseOptions {
+        const headers = options.vary?.headers ?? [];
 
-            return applyCors ? applyCors(response, req) : response;
+        if (headers.some(name => name.toLowerCase() === 'accept')) {
+            return options;
+        }
+
+        return { ...options, vary: { ...options.vary, headers: [...headers, 'accept'] } };
+    }
+
+    /**
+     * Wrap an @Sse() handler so its result is streamed as text/event-stream.
+     * A Response returned by the handler is passed through untouched.
+     */
+    private withSse(compiled: CompiledHandler, options: SseOptions): CompiledHandler {
+        const handler = compiled.fn;
+
+        const toSse = (result: any) => {
+            if (result instanceof Response) {
+                return result;
+            }
+
+            return createSseResponse(isStreamable(result) ? result : [result], options);
+        };
+
+        return {
+            fn: compiled.isAsync
+                ? async (ctx: Context) => toSse(await handler(ctx))
+                : (ctx: Context) => toSse(handler(ctx)),
+            isAsync: compiled.isAsync,
+            isStatic: false
         };
     }
 
-    private resolveMiddleware(middleware: any): MiddlewareHandler {
+    /**
+     * Attach a validator to a whole-DTO param (no key) whose type has a schema.
+     * The validated and coerced value is what the handler receives.
+     */
+    private withValidation(param: ParamMetadata, dtoType: any): ParamInfo {
+        const validator = this.validator;
+
+        if (param.key || !VALIDATED_PARAM_TYPES.has(param.type) || !dtoType || !validator?.hasValidation(dtoType)) {
+            return param;
+        }
+
+        // Headers are exposed as a Headers instance - validate a plain object
+        const validate = param.type === 'header'
+            ? (headers: Headers) => validator.validateOrThrow(dtoType, Object.fromEntries(headers))
+            : (value: any) => validator.validateOrThrow(dtoType, value);
+
+        return { ...param, validate };
+    }
+
+    /**
+     * Normalize any middleware to the onion signature at compile time.
+     */
+    private resolveMiddleware(middleware: any, container: Container): OnionMiddleware {
         // Check if it's a class with a handle method
         if (typeof middleware === 'function' && middleware.prototype?.handle) {
+            // Request-scoped middleware - resolved per request
+            if (container.isRequestScoped(middleware)) {
+                return (ctx: Context, next: CarnoClosure) =>
+                    (container.get(middleware, ctx.requestLocals) as CarnoMiddleware).handle(ctx, next);
+            }
+
             // Instantiate via Container and bind the handle method
-            const instance = this.container.get(middleware) as CarnoMiddleware;
-            return (ctx: Context) => instance.handle(ctx, () => { });
+            const instance = container.get(middleware) as CarnoMiddleware;
+            return (ctx: Context, next: CarnoClosure) => instance.handle(ctx, next);
+        }
+
+        // Function declaring `next` as a plain parameter - already onion-style
+        if (middleware.length >= 2) {
+            return middleware;
+        }
+
+        // Other functions (single-argument, default or rest parameters) still receive `next`.
+        // Calling it opts into the onion pattern; otherwise the chain continues unless a Response is returned.
+        return async (ctx: Context, next: CarnoClosure) => {
+            let called = false;
+            const tracked: CarnoClosure = () => {
+                called = true;
+                return next();
+            };
+
+            const result = await middleware(ctx, tracked);
+
+            if (result instanceof Response || called) {
+                return result;
+            }
+
+            return next();
+        };
+    }
+
+    /**
+     * Compile route guards into a single check.
+     * Returns null when the route has no guards, keeping it on the fast path.
+     */
+    private compileGuards(
+        resolvers: ComponentResolver<CanActivate>[],
+        ControllerClass: new (...args: any[]) => any,
+        handlerName: string
+    ): GuardRunner | null {
+        if (resolvers.length === 0) {
+            return null;
+        }
+
+        return async (ctx: Context) => {
+            const execution = new ExecutionContext(ctx, ControllerClass, handlerName);
+
+            for (const resolve of resolvers) {
+                if (!(await resolve(ctx).canActivate(execution))) {
+                    throw new ForbiddenException();
+                }
+            }
+        };
+    }
+
+    /**
+     * Compile interceptors into a single wrapper around the handler execution.
+     * Returns null when the route has no interceptors, keeping it on the fast path.
+     */
+    private compileInterceptors(
+        resolvers: ComponentResolver<CarnoInterceptor>[],
+        ControllerClass: new (...args: any[]) => any,
+        handlerName: string
+    ): InterceptorRunner | null {
+        if (resolvers.length === 0) {
+            return null;
+        }
+
+        const length = resolvers.length;
+
+        return (ctx: Context, execute: () => Promise<any>) => {
+            const execution = new ExecutionContext(ctx, ControllerClass, handlerName);
+
+            const dispatch = async (index: number): Promise<any> => {
+                if (index === length) {
+                    return execute();
+                }
+
+                return resolvers[index](ctx).intercept(execution, () => dispatch(index + 1));
+            };
+
+            return dispatch(0);
+        };
+    }
+
+    /**
+     * Compile exception filters into a single handler.
+     * The first filter whose @Catch() matches the error wins; unmatched errors are rethrown
+     * to the default error handler. Returns null when the route has no filters.
+     */
+    private compileFilters(entries: FilterEntry[]): ErrorHandler | null {
+        if (entries.length === 0) {
+            return null;
+        }
+
+        return async (error: any, ctx: Context) => {
+            for (const entry of entries) {
+                if (entry.types.length === 0 || entry.types.some(type => error instanceof type)) {
+                    return entry.resolve(ctx).catch(error, ctx);
+                }
+            }
+
+            throw error;
+        };
+    }
+
+    /**
+     * Compile the rate limit of a route: @RateLimit() on the route, then on the controller,
+     * then the global config. Decorated limits count per route, the global one across all routes.
+     */
+    private compileRateLimit(
+        ControllerClass: new (...args: any[]) => any,
+        handlerName: string,
+        route: string
+    ): ResponseStage | null {
+        const options: RateLimitOptions | false | undefined =
+            Reflect.getMetadata(RATE_LIMIT_META, ControllerClass, handlerName)
+            ?? Reflect.getMetadata(RATE_LIMIT_META, ControllerClass);
+
+        if (!this.rateLimiter || options === false) {
+            return null;
+        }
+
+        if (options) {
+            return this.rateLimiter.createStage(options, route);
+        }
+
+        return this.config.rateLimit ? this.rateLimiter.createStage(this.config.rateLimit, 'global') : null;
+    }
+
+    /**
+     * Compile @CacheResponse() / @InvalidateCache() of a route into one response stage.
+     * Returns null when the route uses neither.
+     */
+    private compileResponseStage(
+        ControllerClass: new (...args: any[]) => any,
+        handlerName: string,
+        method: string,
+        negotiated: boolean
+    ): ResponseStage | null {
+        const cacheOptions: CacheResponseOptions | undefined = Reflect.getMetadata(CACHE_RESPONSE_META, ControllerClass, handlerName);
+        const invalidateTags: CacheTags | undefined = Reflect.getMetadata(CACHE_INVALIDATE_META, ControllerClass, handlerName);
+
+        if (!this.responseCache || (!cacheOptions && !invalidateTags)) {
+            return null;
+        }
+
+        if (cacheOptions && method !== 'GET') {
+            throw new Error(`@CacheResponse() only supports GET routes (${ControllerClass.name}.${handlerName} is ${method})`);
+        }
+
+        // Negotiated routes answer in several formats - one cache entry per Accept header
+        const cache = cacheOptions
+            ? this.responseCache.createStage(negotiated ? this.varyOnAccept(cacheOptions) : cacheOptions)
+            : null;
+        const invalidate = invalidateTags ? this.responseCache.createInvalidation(invalidateTags) : null;
+
+        if (cache && invalidate) {
+            return (ctx, next) => invalidate(ctx, () => cache(ctx, next));
+        }
+
+        return cache ?? invalidate;
+    }
+
+    /**
+     * Pair exception filters with the error types they @Catch().
+     */
+    private resolveFilters(filters: FilterType[], container: Container): FilterEntry[] {
+        return filters.map(filter => ({
+            types: (Reflect.getMetadata(CATCH_META, typeof filter === 'function' ? filter : filter.constructor) || []) as Function[],
+            resolve: this.resolveComponent<ExceptionFilter>(filter, container)
+        }));
+    }
+
+    /**
+     * Resolve a class-based pipeline component (guard, filter, interceptor) through the module's
+     * Container, registering it on demand. Instances are returned as-is.
+     */
+    private resolveComponent<T extends object>(
+        component: T | (new (...args: any[]) => T),
+        container: Container
+    ): ComponentResolver<T> {
+        if (typeof component !== 'function') {
+            return () => component;
+        }
+
+        const token = component as new (...args: any[]) => T;
+
+        if (!container.has(token)) {
+            container.register(token);
+        }
+
+        if (container.isRequestScoped(token)) {
+            return (ctx: Context) => container.get(token, ctx.requestLocals);
         }
 
-        // Already a function
-        return middleware;
+        const instance = container.get(token);
+        return () => instance;
     }
 
     /**
@@ -565,6 +2105,13 @@ export class Carno {
             }
         }
 
+        // The path exists under other methods
+        const allowed = this.getMatcher().allowedMethods(new URL(req.url).pathname);
+
+        if (allowed.length > 0 && !allowed.includes(req.method)) {
+            return new MethodNotAllowedException(undefined, allowed).toResponse();
+        }
+
         return NOT_FOUND_RESPONSE;
     }
 
@@ -582,6 +2129,11 @@ export class Carno {
             return new Response(null, { status: 204 });
         }
 
+        // Async iterables and generators - streamed as NDJSON
+        if (isStreamable(result)) {
+            return createNdjsonResponse(result);
+        }
+
         return Response.json(result);
     }
 
@@ -597,13 +2149,84 @@ export class Carno {
     }
 
     stop(): void {
+        this.removeSignalHandlers?.();
         this.server?.stop?.();
+        this.tracer.shutdown();
+    }
+
+    /**
+     * Gracefully shut down:
+     * 1. `/ready` starts reporting 503 (kept for `shutdown.drainDelay` so load balancers notice)
+     * 2. New connections are refused and in-flight requests are awaited
+     * 3. @OnApplicationShutdown hooks run in priority order, async ones awaited
+     *
+     * Bounded by `shutdown.timeout` - remaining connections are then closed.
+     * Resolves `false` when the grace period ran out. Calling it again returns the same sequence.
+     */
+    shutdown(): Promise<boolean> {
+        if (!this.shuttingDown) {
+            this.shuttingDown = this.drain();
+        }
+
+        return this.shuttingDown;
+    }
+
+    private async drain(): Promise<boolean> {
+        const { timeout = DEFAULT_SHUTDOWN_TIMEOUT, drainDelay = 0 } = this.config.shutdown ?? {};
+
+        this.draining = true;
+        this.removeSignalHandlers?.();
+
+        const sequence = async () => {
+            if (this.server && drainDelay > 0) {
+                await Bun.sleep(drainDelay);
+            }
+
+            await this.server?.stop(false);
+
+            if (this.hasShutdownHooks) {
+                await this.executeLifecycleHooks(EventType.SHUTDOWN);
+            }
+
+            // Spans of the drained requests and of the shutdown hooks
+            await this.tracer.shutdown();
+
+            return true;
+        };
+
+        let timer: Timer | undefined;
+        const expired = new Promise<boolean>(resolve => {
+            timer = setTimeout(() => resolve(false), timeout);
+        });
+
+        const completed = await Promise.race([sequence(), expired]);
+        clearTimeout(timer);
+
+        if (!completed) {
+            console.warn(`Graceful shutdown did not complete within ${timeout}ms, closing remaining connections`);
+        }
+
+        this.server?.stop(true);
+
+        return completed;
+    }
+
+    /**
+     * Status handleError() answers an error with.
+     */
+    private errorStatus(error: unknown): number {
+        if (error instanceof HttpException) {
+            return error.statusCode;
+        }
+
+        return error instanceof ValidationException ? 400 : 500;
     }
 
     /**
      * Error handler for Bun.serve.
      * Converts exceptions to proper HTTP responses.
      */
+
     private handleError(error: Error): Response {
         let response: Response;
 
@@ -630,44 +2253,62 @@ export class Carno {
     }
 
     /**
-     * Execute lifecycle hooks for a specific event type.
+     * Execute lifecycle hooks for a specific event type, one after another in priority order.
+     * An async hook is awaited before the next one starts; synchronous hooks stay synchronous.
      */
-    private executeLifecycleHooks(type: EventType): void {
-        const handlers = getEventHandlers(type);
+    private executeLifecycleHooks(
+        type: EventType,
+        handlers: EventHandler[] = getEventHandlers(type),
+        from: number = 0
+    ): Promise<void> | void {
+        for (let i = from; i < handlers.length; i++) {
+            const handler = handlers[i];
+            const report = (err: unknown) => console.error(`Error in ${type} hook ${handler.methodName}:`, err);
 
-        for (const handler of handlers) {
             try {
-                const instance = this.container.has(handler.target)
-                    ? this.container.get(handler.target)
-                    : null;
+                const owner = this.modules.find(m => m.container.provides(handler.target));
+                const instance = owner ? owner.container.get(handler.target) : null;
 
                 if (instance && typeof (instance as any)[handler.methodName] === 'function') {
                     const result = (instance as any)[handler.methodName]();
 
-                    // Handle async hooks
                     if (result instanceof Promise) {
-                        result.catch((err: Error) =>
-                            console.error(`Error in ${type} hook ${handler.methodName}:`, err)
-                        );
+                        return result
+                            .catch(report)
+                            .then(() => this.executeLifecycleHooks(type, handlers, i + 1));
                     }
                 }
             } catch (err) {
-                console.error(`Error in ${type} hook ${handler.methodName}:`, err);
+                report(err);
             }
         }
     }
 
     /**
-     * Register SIGTERM/SIGINT handlers for graceful shutdown.
+     * Run `shutdown()` on SIGTERM/SIGINT (or `shutdown.signals`), then exit.
+     * The handlers are removed once shutdown starts, so a second signal terminates immediately.
      */
     private registerShutdownHandlers(): void {
-        const shutdown = () => {
-            this.executeLifecycleHooks(EventType.SHUTDOWN);
-            this.stop();
-            process.exit(0);
+        const signals = this.config.shutdown?.signals ?? DEFAULT_SHUTDOWN_SIGNALS;
+
+        if (!signals || this.removeSignalHandlers) {
+            return;
+        }
+
+        const onSignal = () => {
+            this.shutdown().then(completed => process.exit(completed ? 0 : 1));
         };
 
-        process.on('SIGTERM', shutdown);
-        process.on('SIGINT', shutdown);
+        for (const signal of signals) {
+            process.on(signal, onSignal);
+        }
+
+        this.removeSignalHandlers = () => {
+            for (const signal of signals) {
+                process.off(signal, onSignal);
+            }
+
+            this.removeSignalHandlers = null;
+        };
     }
 }
@@ -22,13 +22,13 @@ export class DefaultRoutes {
  * Use these directly in Bun.serve static routes.
  */
 export const DEFAULT_STATIC_ROUTES = {
-    '/health': new Response('{"status":"ok"}', {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-    }),
-    '/ready': new Response('{"ready":true}', {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-    }),
     '/favicon.ico': new Response(null, { status: 204 })
 };
+
+/**
+ * `/ready` while the application drains - health checks are skipped.
+ */
+export const SHUTTING_DOWN_RESPONSE = new Response('{"status":"shutting_down","checks":{}}', {
+    status: 503,
+    headers: { 'Content-Type': 'application/json' }
+});
@@ -34,6 +34,19 @@ export interface CacheDriver {
      */
     clear(): Promise<void>;
 
+    /**
+     * Atomically increment a counter, creating it with the TTL (seconds) when missing.
+     * The TTL is not extended by later increments. Returns the new value.
+     * Optional - CacheService falls back to get + set.
+     */
+    increment?(key: string, ttl?: number): Promise<number>;
+
+    /**
+     * Check the backend is reachable - rejects when it is not.
+     * Optional - used by the cache health check.
+     */
+    ping?(): Promise<void>;
+
     /**
      * Close connection (for Redis, etc.)
      */
@@ -1,5 +1,9 @@
 import type { CacheDriver, CacheConfig } from './CacheDriver';
 import { MemoryDriver } from './MemoryDriver';
+import type { CounterSeries } from '../metrics/Metric';
+import type { MetricsRegistry } from '../metrics/MetricsRegistry';
+import type { Span } from '../tracing/Span';
+import type { Tracer } from '../tracing/Tracer';
 
 /**
  * CacheService - High-performance caching with driver pattern.
@@ -29,6 +33,9 @@ export class CacheService {
     private driver: CacheDriver;
     private prefix: string;
     private defaultTtl: number | undefined;
+    private hits: CounterSeries | null = null;
+    private misses: CounterSeries | null = null;
+    private tracer: Tracer | null = null;
 
     constructor(config: CacheConfig = {}) {
         this.driver = config.driver || new MemoryDriver();
@@ -47,7 +54,20 @@ export class CacheService {
      * Get a value from cache.
      */
     async get<T>(key: string): Promise<T | null> {
-        return this.driver.get<T>(this.key(key));
+        const value = this.tracer
+            ? await this.traced('get', key, async span => {
+                const value = await this.driver.get<T>(this.key(key));
+                span?.setAttribute('cache.hit', value !== null);
+
+                return value;
+            })
+            : await this.driver.get<T>(this.key(key));
+
+        if (this.hits) {
+            (value === null ? this.misses! : this.hits).inc();
+        }
+
+        return value;
     }
 
     /**
@@ -55,28 +75,44 @@ export class CacheService {
      * @param ttl Time to live in seconds
      */
     async set<T>(key: string, value: T, ttl?: number): Promise<boolean> {
-        return this.driver.set(this.key(key), value, ttl ?? this.defaultTtl);
+        return this.traced('set', key, () => this.driver.set(this.key(key), value, ttl ?? this.defaultTtl));
     }
 
     /**
      * Delete a value from cache.
      */
     async del(key: string): Promise<boolean> {
-        return this.driver.del(this.key(key));
+        return this.traced('del', key, () => this.driver.del(this.key(key)));
     }
 
     /**
      * Check if key exists.
      */
     async has(key: string): Promise<boolean> {
-        return this.driver.has(this.key(key));
+        return this.traced('has', key, () => this.driver.has(this.key(key)));
     }
 
     /**
      * Clear all cached values.
      */
     async clear(): Promise<void> {
-        return this.driver.clear();
+        return this.traced('clear', null, () => this.driver.clear());
+    }
+
+    /**
+     * Increment a counter, creating it with the TTL when missing. Returns the new value.
+     * Atomic when the driver supports it (Memory, Redis).
+     * @param ttl Time to live in seconds
+     */
+    async increment(key: string, ttl?: number): Promise<number> {
+        if (this.driver.increment) {
+            return this.traced('increment', key, () => this.driver.increment!(this.key(key), ttl ?? this.defaultTtl));
+        }
+
+        const value = (Number(await this.get<number>(key)) || 0) + 1;
+        await this.set(key, value, ttl);
+
+        return value;
     }
 
     /**
@@ -123,6 +159,13 @@ export class CacheService {
         return Promise.all(keys.map(key => this.del(key)));
     }
 
+    /**
+     * Check the driver's backend is reachable. No-op for drivers without `ping()`.
+     */
+    async ping(): Promise<void> {
+        await this.driver.ping?.();
+    }
+
     /**
      * Close the cache driver connection.
      */
@@ -130,6 +173,48 @@ export class CacheService {
         await this.driver.close?.();
     }
 
+    /**
+     * Count get() hits and misses, and expose the hit ratio.
+     */
+    instrument(metrics: MetricsRegistry): this {
+        const driver = this.driver.name;
+        const lookups = metrics.counter('cache_lookups_total', 'CacheService lookups by result', ['driver', 'result']);
+        const ratio = metrics.gauge('cache_hit_ratio', 'Share of CacheService lookups that were hits', ['driver']).labels(driver);
+
+        this.hits = lookups.labels(driver, 'hit');
+        this.misses = lookups.labels(driver, 'miss');
+
+        metrics.onCollect(() => {
+            const total = this.hits!.value + this.misses!.value;
+            ratio.set(total === 0 ? 0 : this.hits!.value / total);
+        });
+
+        return this;
+    }
+
+    /**
+     * Record a client span per cache call.
+     */
+    trace(tracer: Tracer): this {
+        this.tracer = tracer;
+        return this;
+    }
+
+    private traced<T>(operation: string, key: string | null, run: (span: Span | null) => Promise<T>): Promise<T> {
+        if (!this.tracer) {
+            return run(null);
+        }
+
+        return this.tracer.startActiveSpan(`cache ${operation}`, {
+            kind: 'client',
+            attributes: {
+                'cache.operation': operation,
+                'cache.driver': this.driver.name,
+                'cache.key': key === null ? undefined : this.key(key)
+            }
+        }, run);
+    }
+
     /**
      * Get the underlying driver (for advanced use).
      */
@@ -44,7 +44,7 @@ export class MemoryDriver implements CacheDriver {
     }
 
     async set<T>(key: string, value: T, ttl?: number): Promise<boolean> {
-        const expiresAt = ttl ? Date.now() + ttl : null;
+        const expiresAt = ttl ? Date.now() + ttl * 1000 : null;
 
         this.cache.set(key, { value, expiresAt });
 
@@ -70,6 +70,19 @@ export class MemoryDriver implements CacheDriver {
         return true;
     }
 
+    async increment(key: string, ttl?: number): Promise<number> {
+        const entry = this.cache.get(key);
+
+        if (!entry || (entry.expiresAt !== null && Date.now() > entry.expiresAt)) {
+            this.cache.set(key, { value: 1, expiresAt: ttl ? Date.now() + ttl * 1000 : null });
+            return 1;
+        }
+
+        entry.value = Number(entry.value) + 1;
+
+        return entry.value;
+    }
+
     async clear(): Promise<void> {
         this.cache.clear();
     }
@@ -11,6 +11,17 @@ export interface RedisConfig {
     url?: string;
 }
 
+/**
+ * INCR and start the expiry window of a counter without one (new, or created by INCR alone).
+ */
+const INCREMENT_SCRIPT = `
+local value = redis.call('INCR', KEYS[1])
+if tonumber(ARGV[1]) > 0 and redis.call('TTL', KEYS[1]) == -1 then
+    redis.call('EXPIRE', KEYS[1], ARGV[1])
+end
+return value
+`;
+
 /**
  * Redis Cache Driver.
  * For distributed caching in multi-instance deployments.
@@ -77,7 +88,8 @@ export class RedisDriver implements CacheDriver {
         const serialized = typeof value === 'string' ? value : JSON.stringify(value);
 
         if (ttl) {
-            await this.client.setex(key, ttl, serialized);
+            // SETEX only takes whole seconds
+            await this.client.setex(key, Math.max(1, Math.ceil(ttl)), serialized);
         } else {
             await this.client.set(key, serialized);
         }
@@ -101,12 +113,36 @@ export class RedisDriver implements CacheDriver {
         return result > 0;
     }
 
+    async increment(key: string, ttl?: number): Promise<number> {
+        await this.ensureConnected();
+
+        const seconds = ttl ? String(Math.max(1, Math.ceil(ttl))) : '0';
+
+        // One script - a counter can never be left without its expiry window
+        return Number(await this.command('EVAL', [INCREMENT_SCRIPT, '1', key, seconds]));
+    }
+
+    /**
+     * Raw command - `send()` on Bun's client, `call()` on ioredis.
+     */
+    private command(name: string, args: string[]): Promise<unknown> {
+        return typeof this.client.send === 'function'
+            ? this.client.send(name, args)
+            : this.client.call(name, ...args);
+    }
+
     async clear(): Promise<void> {
         await this.ensureConnected();
 
         await this.client.flushdb();
     }
 
+    async ping(): Promise<void> {
+        await this.ensureConnected();
+
+        await this.client.ping();
+    }
+
     async close(): Promise<void> {
         if (this.client && this.connected) {
             await this.client.quit?.();
@@ -0,0 +1,267 @@
+import type { Context } from '../context/Context';
+import type { CacheService } from './CacheService';
+import type { ResponseStage } from '../middleware/compose';
+
+/**
+ * Cache tags - fixed, or computed from the request (e.g. `ctx => [`product:${ctx.params.id}`]`).
+ */
+export type CacheTags = string[] | ((ctx: Context) => string[]);
+
+export interface CacheResponseOptions {
+    /** Seconds a response stays cached, also sent as `Cache-Control: max-age`. Defaults to the CacheService TTL. */
+    ttl?: number;
+    /** Replaces the path and query part of the cache key. */
+    key?: string | ((ctx: Context) => string);
+    /** Request values the response depends on. Without `query`, the whole query string is part of the key. */
+    vary?: {
+        headers?: string[];
+        query?: string[];
+    };
+    /** Tags to invalidate the entry with, see @InvalidateCache() and ResponseCache.invalidate(). */
+    tags?: CacheTags;
+    /** Cache-Control header value, or false to leave it unset. */
+    cacheControl?: string | false;
+}
+
+/**
+ * Serialized response as stored through the CacheDriver.
+ */
+interface CachedResponse {
+    status: number;
+    headers: [string, string][];
+    body: string;
+    etag: string;
+}
+
+const KEY_PREFIX = 'response';
+const TAG_PREFIX = 'response-tag';
+
+/**
+ * Only plain, shareable responses are cached.
+ */
+const UNCACHEABLE_TYPES = ['text/event-stream', 'application/x-ndjson'];
+
+/**
+ * HTTP response cache for @CacheResponse() routes, stored through CacheService.
+ *
+ * Tags are versioned: every entry key embeds the current version of its tags, so
+ * invalidating a tag is a single write and old entries simply expire.
+ *
+ * @example
+ * ```typescript
+ * @Service()
+ * class CatalogService {
+ *     constructor(private responses: ResponseCache) {}
+ *
+ *     async import(products: Product[]) {
+ *         await this.repository.save(products);
+ *         await this.responses.invalidate('products');
+ *     }
+ * }
+ * ```
+ */
+export class ResponseCache {
+    constructor(private cache: CacheService) {}
+
+    /**
+     * Invalidate every cached response tagged with one of the tags.
+     */
+    async invalidate(...tags: string[]): Promise<void> {
+        if (tags.length === 0) {
+            return;
+        }
+
+        const version = this.newVersion();
+
+        await this.cache.setMany(tags.map(tag => ({ key: this.tagKey(tag), value: version })));
+    }
+
+    /**
+     * Compile the caching stage of a @CacheResponse() route.
+     */
+    createStage(options: CacheResponseOptions): ResponseStage {
+        const cacheControl = this.getCacheControl(options);
+        const varyHeader = options.vary?.headers?.join(', ');
+
+        return async (ctx: Context, next: () => Promise<Response>) => {
+            const tags = this.resolveTags(options.tags, ctx);
+            const versions = await this.getVersions(tags);
+            const key = this.buildKey(options, ctx, versions);
+            const cached = key ? await this.cache.get<CachedResponse>(key) : null;
+
+            if (cached) {
+                return this.respond(ctx, cached, 'HIT');
+            }
+
+            const response = await next();
+
+            if (!this.isCacheable(response)) {
+                return response;
+            }
+
+            const bytes = new Uint8Array(await response.arrayBuffer());
+            const headers = new Headers(response.headers);
+
+            if (cacheControl && !headers.has('Cache-Control')) {
+                headers.set('Cache-Control', cacheControl);
+            }
+
+            if (varyHeader) {
+                headers.set('Vary', headers.has('Vary') ? `${headers.get('Vary')}, ${varyHeader}` : varyHeader);
+            }
+
+            const entry: CachedResponse = {
+                status: response.status,
+                headers: [...headers.entries()],
+                body: Buffer.from(bytes).toString('base64'),
+                etag: `"${Bun.hash(bytes).toString(36)}"`
+            };
+
+            // Untagged versions mean the tag was never set (or expired) - start a fresh one
+            const storeKey = key ?? this.buildKey(options, ctx, await this.createVersions(tags, versions))!;
+
+            await this.cache.set(storeKey, entry, options.ttl);
+
+            return this.respond(ctx, entry, 'MISS', bytes);
+        };
+    }
+
+    /**
+     * Compile the stage of an @InvalidateCache() route: tags are invalidated after a successful response.
+     */
+    createInvalidation(tags: CacheTags): ResponseStage {
+        return async (ctx: Context, next: () => Promise<Response>) => {
+            const response = await next();
+
+            if (response.ok) {
+                await this.invalidate(...this.resolveTags(tags, ctx));
+            }
+
+            return response;
+        };
+    }
+
+    private respond(ctx: Context, entry: CachedResponse, state: 'HIT' | 'MISS', bytes?: Uint8Array<ArrayBuffer>): Response {
+        const headers = new Headers(entry.headers);
+
+        headers.set('ETag', entry.etag);
+        headers.set('X-Cache', state);
+
+        if (this.matchesEtag(ctx.headers.get('If-None-Match'), entry.etag)) {
+            headers.delete('Content-Type');
+            headers.delete('Content-Length');
+
+            return new Response(null, { status: 304, headers });
+        }
+
+        return new Response(bytes ?? Buffer.from(entry.body, 'base64'), { status: entry.status, headers });
+    }
+
+    private matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+        if (!ifNoneMatch) {
+            return false;
+        }
+
+        if (ifNoneMatch.trim() === '*') {
+            return true;
+        }
+
+        // Weak comparison, as required for If-None-Match
+        return ifNoneMatch.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+    }
+
+    private isCacheable(response: Response): boolean {
+        if (response.status !== 200 || response.headers.has('Set-Cookie')) {
+            return false;
+        }
+
+        const contentType = response.headers.get('Content-Type') ?? '';
+
+        if (UNCACHEABLE_TYPES.some(type => contentType.startsWith(type))) {
+            return false;
+        }
+
+        const cacheControl = response.headers.get('Cache-Control') ?? '';
+
+        return !/no-store|private/.test(cacheControl);
+    }
+
+    /**
+     * Returns null while one of the tags has no version yet - nothing can be cached under it.
+     */
+    private buildKey(options: CacheResponseOptions, ctx: Context, versions: (string | null)[]): string | null {
+        if (versions.some(version => version === null)) {
+            return null;
+        }
+
+        const parts = [ctx.method, typeof options.key === 'function' ? options.key(ctx) : options.key ?? ctx.path];
+        const vary = options.vary;
+
+        if (vary?.query) {
+            const params = ctx.url.searchParams;
+            parts.push(vary.query.map(name => `${name}=${params.getAll(name).join(',')}`).join('&'));
+        } else if (options.key === undefined) {
+            const params = new URLSearchParams(ctx.url.searchParams);
+            params.sort();
+            parts.push(params.toString());
+        }
+
+        for (const name of vary?.headers ?? []) {
+            parts.push(`${name.toLowerCase()}=${ctx.headers.get(name) ?? ''}`);
+        }
+
+        if (versions.length > 0) {
+            parts.push(versions.join('.'));
+        }
+
+        return `${KEY_PREFIX}:${parts.join('|')}`;
+    }
+
+    private async getVersions(tags: string[]): Promise<(string | null)[]> {
+        if (tags.length === 0) {
+            return [];
+        }
+
+        return this.cache.getMany<string>(tags.map(tag => this.tagKey(tag)));
+    }
+
+    private async createVersions(tags: string[], versions: (string | null)[]): Promise<string[]> {
+        const missing = tags.filter((_, i) => versions[i] === null);
+        const version = this.newVersion();
+
+        await this.cache.setMany(missing.map(tag => ({ key: this.tagKey(tag), value: version })));
+
+        return versions.map(current => current ?? version);
+    }
+
+    private resolveTags(tags: CacheTags | undefined, ctx: Context): string[] {
+        if (!tags) {
+            return [];
+        }
+
+        return typeof tags === 'function' ? tags(ctx) : tags;
+    }
+
+    private getCacheControl(options: CacheResponseOptions): string | null {
+        if (options.cacheControl !== undefined) {
+            return options.cacheControl || null;
+        }
+
+        if (options.ttl === undefined) {
+            return 'no-cache';
+        }
+
+        // Responses varying on credentials must not be stored by shared caches
+        const personal = options.vary?.headers?.some(name => /^(authorization|cookie)$/i.test(name));
+
+        return `${personal ? 'private' : 'public'}, max-age=${options.ttl}`;
+    }
+
+    private tagKey(tag: string): string {
+        return `${TAG_PREFIX}:${tag}`;
+    }
+
+    private newVersion(): string {
+        return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+    }
+}
@@ -5,17 +5,27 @@
  * - Detects async at compile time (not runtime)
  * - Generates specialized handlers via new Function()
  * - Inlines parameter access
+ * - Inlines DTO validation for validated parameters
  * - Zero overhead for simple handlers
  */
 
 import type { ParamType } from '../decorators/params';
+import { createUploadRules, type UploadOptions } from '../upload/UploadRules';
 
 export interface ParamInfo {
     type: ParamType;
     key?: string;
     index: number;
+    options?: UploadOptions;
+    /** Validates and transforms the extracted value (DTO validation) */
+    validate?: (value: any) => any;
 }
 
+/**
+ * Resolves the controller instance for a request (REQUEST-scoped controllers).
+ */
+export type InstanceResolver = (ctx: any) => any;
+
 export interface CompiledHandler {
     fn: Function;
     isAsync: boolean;
@@ -44,6 +54,11 @@ export function isAsyncFunction(fn: Function): boolean {
  * Static handlers can be pre-computed at startup.
  */
 export function isStaticHandler(fn: Function): boolean {
+    // Generators produce a new stream per call
+    if (fn.constructor.name.endsWith('GeneratorFunction')) {
+        return false;
+    }
+
     const source = fn.toString();
 
     if (source.includes('this.') || source.includes('await')) {
@@ -58,16 +73,25 @@ export function isStaticHandler(fn: Function): boolean {
 /**
  * Compiles handler with inlined parameter access.
  * Uses new Function() for maximum V8 optimization.
+ *
+ * When `resolveInstance` is given, `instance` is only used to look up the method
+ * and the receiver is resolved per request (never treated as static).
  */
 export function compileHandler(
     instance: any,
     methodName: string,
-    params: ParamInfo[]
+    params: ParamInfo[],
+    resolveInstance?: InstanceResolver
 ): CompiledHandler {
     const method = instance[methodName];
-    const bound = method.bind(instance);
     const async = isAsyncFunction(method);
 
+    if (resolveInstance) {
+        return compileScopedHandler(method, async, params, resolveInstance);
+    }
+
+    const bound = method.bind(instance);
+
     if (params.length === 0) {
         const isStatic = isStaticHandler(method);
 
@@ -89,13 +113,23 @@ export function compileHandler(
         };
     }
 
-    const argExprs = params
-        .sort((a, b) => a.index - b.index)
-        .map(p => buildArgExpression(p));
-
-    const argsCode = argExprs.join(',');
+    const { argsCode, validators } = buildArgs(params);
+    const uploads = createUploadRules(params);
     const hasBody = params.some(p => p.type === 'body');
 
+    if (uploads) {
+        const code = `return async function(c){
+await c.parseMultipart(u);
+try{return await h(${argsCode});}finally{c.cleanupUploads();}
+}`;
+
+        return {
+            fn: new Function('h', 'v', 'u', code)(bound, validators, uploads),
+            isAsync: true,
+            isStatic: false
+        };
+    }
+
     if (hasBody) {
         const code = `return async function(c){
 await c.parseBody();
@@ -103,7 +137,7 @@ return h(${argsCode});
 }`;
 
         return {
-            fn: new Function('h', code)(bound),
+            fn: new Function('h', 'v', code)(bound, validators),
             isAsync: true,
             isStatic: false
         };
@@ -115,7 +149,7 @@ return await h(${argsCode});
 }`;
 
         return {
-            fn: new Function('h', code)(bound),
+            fn: new Function('h', 'v', code)(bound, validators),
             isAsync: true,
             isStatic: false
         };
@@ -126,12 +160,73 @@ return h(${argsCode});
 }`;
 
     return {
-        fn: new Function('h', code)(bound),
+        fn: new Function('h', 'v', code)(bound, validators),
         isAsync: false,
         isStatic: false
     };
 }
 
+/**
+ * Compiles a handler whose receiver is resolved per request.
+ */
+function compileScopedHandler(
+    method: Function,
+    async: boolean,
+    params: ParamInfo[],
+    resolveInstance: InstanceResolver
+): CompiledHandler {
+    if (params.length === 0) {
+        return {
+            fn: (c: any) => method.call(resolveInstance(c), c),
+            isAsync: async,
+            isStatic: false
+        };
+    }
+
+    const { argsCode, validators } = buildArgs(params);
+    const uploads = createUploadRules(params);
+    const hasBody = params.some(p => p.type === 'body');
+    const isAsync = async || hasBody || !!uploads;
+    const prelude = uploads ? 'await c.parseMultipart(u);\n' : hasBody ? 'await c.parseBody();\n' : '';
+    const call = uploads
+        ? `try{return await h.call(r(c),${argsCode});}finally{c.cleanupUploads();}`
+        : `return h.call(r(c),${argsCode});`;
+
+    const code = `return ${isAsync ? 'async ' : ''}function(c){
+${prelude}${call}
+}`;
+
+    return {
+        fn: new Function('h', 'r', 'v', 'u', code)(method, resolveInstance, validators, uploads),
+        isAsync,
+        isStatic: false
+    };
+}
+
+/**
+ * Builds the inlined argument list.
+ * Validated params are wrapped as `v[i](expr)`, with `v` holding their validators.
+ */
+function buildArgs(params: ParamInfo[]): { argsCode: string; validators: Function[] } {
+    const validators: Function[] = [];
+
+    const argsCode = params
+        .sort((a, b) => a.index - b.index)
+        .map(p => {
+            const expr = buildArgExpression(p);
+
+            if (!p.validate) {
+                return expr;
+            }
+
+            validators.push(p.validate);
+            return `v[${validators.length - 1}](${expr})`;
+        })
+        .join(',');
+
+    return { argsCode, validators };
+}
+
 function escapeKey(key: string): string {
     return key.replace(/['\"\\]/g, '\\$&');
 }
@@ -161,6 +256,15 @@ function buildArgExpression(param: ParamInfo): string {
         case 'locals':
             return key ? `c.locals['${key}']` : 'c.locals';
 
+        case 'session':
+            return 'c.session';
+
+        case 'file':
+            return `c.files['${key}']?.[0]`;
+
+        case 'files':
+            return key ? `(c.files['${key}']||[])` : 'Object.values(c.files).flat()';
+
         default:
             return 'undefined';
     }
@@ -0,0 +1,104 @@
+import type { Type } from '../container/Container';
+import type { ValidatorAdapter } from '../validation/ValidatorAdapter';
+import { ZodAdapter } from '../validation/ZodAdapter';
+import { envFilesFor, loadEnvFiles } from './EnvLoader';
+
+export interface ConfigOptions<T = Record<string, any>> {
+    /**
+     * `@Schema()` class validating and transforming the raw values (coercion, defaults).
+     * Also registered as an injectable token holding the validated values.
+     */
+    schema?: Type<T>;
+    /** Adapter validating `schema` (default: ZodAdapter) */
+    validator?: ValidatorAdapter;
+    /** Selects the `.env.<environment>` files (default: NODE_ENV, else development) */
+    environment?: string;
+    /** Directory holding the env files (default: cwd) */
+    envDir?: string;
+    /** Files to load, lowest precedence first, or `false` to only use process.env */
+    envFiles?: string[] | false;
+    /** Skip process.env - by default it overrides the env files */
+    ignoreProcessEnv?: boolean;
+}
+
+/**
+ * Validated application configuration.
+ *
+ * Values are loaded once at startup, from the environment's `.env` files and
+ * process.env, and checked against the schema - so an invalid setting stops
+ * the application before it serves anything.
+ */
+export class ConfigService<T extends Record<string, any> = Record<string, any>> {
+    constructor(
+        private readonly values: Readonly<T>,
+        readonly environment: string = 'development',
+        readonly schema: Type<T> | null = null
+    ) { }
+
+    get<K extends keyof T>(key: K): T[K];
+    get<K extends keyof T>(key: K, defaultValue: NonNullable<T[K]>): NonNullable<T[K]>;
+    get<K extends keyof T>(key: K, defaultValue?: T[K]): T[K] | undefined {
+        return this.values[key] ?? defaultValue;
+    }
+
+    /**
+     * Like `get()`, for settings the schema leaves optional but the caller needs.
+     */
+    getOrThrow<K extends keyof T>(key: K): NonNullable<T[K]> {
+        const value = this.values[key];
+
+        if (value === undefined || value === null) {
+            throw new Error(`Missing configuration value "${String(key)}"`);
+        }
+
+        return value;
+    }
+
+    has(key: keyof T): boolean {
+        return this.values[key] !== undefined;
+    }
+
+    all(): Readonly<T> {
+        return this.values;
+    }
+}
+
+/**
+ * Load, merge and validate the configuration. Throws listing every invalid value.
+ */
+export function loadConfig<T extends Record<string, any> = Record<string, any>>(
+    options: ConfigOptions<T> = {}
+): ConfigService<T> {
+    const environment = options.environment ?? process.env.NODE_ENV ?? 'development';
+    const processEnv = options.ignoreProcessEnv ? {} : process.env;
+    const files = options.envFiles === false ? [] : options.envFiles ?? envFilesFor(environment);
+    const { values, loaded } = loadEnvFiles(files, options.envDir ?? process.cwd(), processEnv);
+    const raw: Record<string, any> = { ...values };
+
+    for (const [key, value] of Object.entries(processEnv)) {
+        if (value !== undefined) {
+            raw[key] = value;
+        }
+    }
+
+    if (!options.schema) {
+        return new ConfigService<T>(raw as T, environment);
+    }
+
+    const validator = options.validator ?? new ZodAdapter();
+
+    if (!validator.hasValidation(options.schema)) {
+        throw new Error(`Config schema ${options.schema.name} has no @Schema() for ${validator.name}`);
+    }
+
+    const result = validator.validate<T>(options.schema, raw);
+
+    if (!result.success) {
+        const sources = [...loaded, ...(options.ignoreProcessEnv ? [] : ['process.env'])].join(', ') || 'no sources';
+        const issues = (result.errors ?? []).map(error => `  - ${error.path || '(root)'}: ${error.message}`);
+
+        throw new Error(`Invalid configuration for "${environment}" (${sources}):\n${issues.join('\n')}`);
+    }
+
+    return new ConfigService(result.data as T, environment, options.schema);
+}
@@ -0,0 +1,76 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const LINE = /^\s*(?:export\s+)?([\w.-]+)[ \t]*=[ \t]*('(?:\\'|[^'])*'|"(?:\\"|[^"])*"|`(?:\\`|[^`])*`|[^#\r\n]*)?[ \t]*(?:#.*)?$/gm;
+const REFERENCE = /\\?\$\{([\w.-]+)\}|\\?\$([A-Za-z_]\w*)/g;
+
+/**
+ * Env files for an environment, lowest precedence first:
+ * `.env`, `.env.local`, `.env.<environment>`, `.env.<environment>.local`.
+ */
+export function envFilesFor(environment: string): string[] {
+    return ['.env', '.env.local', `.env.${environment}`, `.env.${environment}.local`];
+}
+
+/**
+ * Parse dotenv syntax: `KEY=value`, optional `export`, `#` comments,
+ * single/double/backtick quotes (double quotes expand `\n`) and
+ * `${VAR}` references to keys defined earlier or in `lookup`.
+ */
+export function parseEnv(content: string, lookup: Record<string, string | undefined> = {}): Record<string, string> {
+    const values: Record<string, string> = {};
+
+    for (const [, key, raw = ''] of content.replace(/\r\n?/g, '\n').matchAll(LINE)) {
+        let value = raw.trim();
+        const quote = value[0];
+
+        if ((quote === '"' || quote === "'" || quote === '`') && value.endsWith(quote) && value.length > 1) {
+            value = value.slice(1, -1);
+
+            if (quote === '"') {
+                value = value.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\"/g, '"');
+            }
+        }
+
+        // Single-quoted values are literal
+        if (quote !== "'") {
+            value = value.replace(REFERENCE, (match, braced, bare) => {
+                if (match.startsWith('\\')) return match.slice(1);
+
+                const name = braced ?? bare;
+
+                return values[name] ?? lookup[name] ?? '';
+            });
+        }
+
+        values[key] = value;
+    }
+
+    return values;
+}
+
+/**
+ * Read and merge env files from `dir` - later files override earlier ones.
+ * Missing files are skipped. Returns the merged values and the files actually read.
+ */
+export function loadEnvFiles(
+    files: string[],
+    dir: string,
+    lookup: Record<string, string | undefined> = {}
+): { values: Record<string, string>; loaded: string[] } {
+    const values: Record<string, string> = {};
+    const loaded: string[] = [];
+
+    for (const file of files) {
+        const path = join(dir, file);
+
+        if (!existsSync(path)) {
+            continue;
+        }
+
+        Object.assign(values, parseEnv(readFileSync(path, 'utf8'), { ...lookup, ...values }));
+        loaded.push(file);
+    }
+
+    return { values, loaded };
+}
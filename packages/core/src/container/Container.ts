@@ -1,3 +1,6 @@
+import { CONTROLLER_META, SERVICE_META, INJECT_META } from '../metadata';
+import { InjectionToken } from './InjectionToken';
+
 /**
  * Lightweight DI Container for Turbo.
  * 
@@ -8,7 +11,12 @@
  * - Lazy instantiation
  */
 
-export type Token<T = any> = new (...args: any[]) => T;
+export type Type<T = any> = new (...args: any[]) => T;
+
+/**
+ * Provider key: a class, an InjectionToken, a string or a symbol.
+ */
+export type Token<T = any> = Type<T> | InjectionToken<T> | string | symbol;
 
 export enum Scope {
     SINGLETON = 'singleton', // Always the same instance
@@ -18,48 +26,210 @@ export enum Scope {
 
 export interface ProviderConfig<T = any> {
     token: Token<T>;
-    useClass?: Token<T>;
+    useClass?: Type<T>;
     useValue?: T;
+    /** Called with the resolved `inject` tokens. Async singleton factories are awaited during bootstrap. */
+    useFactory?: (...deps: any[]) => T | Promise<T>;
+    inject?: Token[];
     scope?: Scope;
 }
 
-interface ProviderEntry {
-    config: ProviderConfig;
-    instance: any | null;
+/**
+ * Readable name of a token for error messages.
+ */
+export function getTokenName(token: Token): string {
+    if (typeof token === 'function') return token.name;
+    if (token instanceof InjectionToken) return token.description;
+
+    return String(token);
+}
+
+/**
+ * Providers exported by an imported module container.
+ */
+interface ContainerImport {
+    container: Container;
+    tokens: Set<Token>;
 }
 
 export class Container {
     private configs = new Map<Token, ProviderConfig>();
+    private imports: ContainerImport[] = [];
     private instances = new Map<Token, any>();
     private resolving = new Set<Token>();
+    private pendingFactories = new Map<Token, Promise<any>>();
+
+    /**
+     * @param name Module name used in resolution errors.
+     */
+    constructor(public name: string = 'root') { }
 
-    register<T>(config: ProviderConfig<T> | Token<T>): this {
+    register<T>(config: ProviderConfig<T> | Type<T>): this {
         const normalized = this.normalizeConfig(config);
 
         this.configs.set(normalized.token, normalized);
 
+        // Re-registering replaces the provider, including any cached instance
         if (normalized.useValue !== undefined) {
             this.instances.set(normalized.token, normalized.useValue);
+        } else {
+            this.instances.delete(normalized.token);
         }
 
         return this;
     }
 
-    get<T>(token: Token<T>): T {
+    /**
+     * Resolve a token.
+     * Pass the request locals map to share REQUEST-scoped instances within one request.
+     */
+    get<T>(token: Token<T>, requestLocals?: Map<Token, any>): T {
         const cached = this.instances.get(token);
 
         if (cached !== undefined) {
             return cached;
         }
 
-        const res = this.resolveInternal(token);
+        const res = this.resolveInternal(token, requestLocals);
         return res.instance;
     }
 
+    /**
+     * Whether the token can be resolved here: registered in this container or exported by an import.
+     */
     has(token: Token): boolean {
+        return this.configs.has(token) || this.findImport(token) !== undefined;
+    }
+
+    /**
+     * Whether the token is registered in this container itself (not through imports).
+     */
+    provides(token: Token): boolean {
         return this.configs.has(token);
     }
 
+    /**
+     * Make the given tokens of another (module) container resolvable from this one.
+     * Instances stay owned by the imported container.
+     */
+    addImport(container: Container, tokens: Iterable<Token>): this {
+        this.imports.push({ container, tokens: new Set(tokens) });
+        return this;
+    }
+
+    /**
+     * Like registrations, a later import exporting the same token takes precedence.
+     */
+    private findImport(token: Token): Container | undefined {
+        for (let i = this.imports.length - 1; i >= 0; i--) {
+            if (this.imports[i].tokens.has(token)) {
+                return this.imports[i].container;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check if a token needs a request to be resolved:
+     * it is REQUEST-scoped itself or depends (transitively) on a REQUEST-scoped provider.
+     * Used at compile time to keep singletons on the fast path.
+     */
+    isRequestScoped(token: Token, visiting: Set<Token> = new Set()): boolean {
+        const config = this.configs.get(token);
+
+        if (!config) {
+            return this.findImport(token)?.isRequestScoped(token, visiting) ?? false;
+        }
+
+        if (config.scope === Scope.REQUEST) {
+            return true;
+        }
+
+        if (this.instances.has(token) || visiting.has(token)) {
+            return false;
+        }
+
+        visiting.add(token);
+
+        return this.getProviderDependencies(config).some(dep => dep !== undefined && this.isRequestScoped(dep, visiting));
+    }
+
+    /**
+     * Create every singleton factory provider, awaiting async factories.
+     * Dependencies of a factory (including classes depending on other factories) are awaited first.
+     * Called once during application bootstrap.
+     */
+    async resolveFactories(): Promise<void> {
+        for (const [token, config] of this.configs) {
+            if (config.useFactory && config.scope === Scope.SINGLETON) {
+                await this.resolveAsync(token);
+            }
+        }
+    }
+
+    /**
+     * Whether any provider is built by a factory (bootstrap must then await them).
+     */
+    hasFactories(): boolean {
+        for (const config of this.configs.values()) {
+            if (config.useFactory) return true;
+        }
+
+        return false;
+    }
+
+    private async resolveAsync(token: Token): Promise<void> {
+        const config = this.configs.get(token);
+
+        if (!config || this.instances.has(token) || this.isRequestScoped(token)) {
+            return;
+        }
+
+        const pending = this.pendingFactories.get(token);
+
+        if (pending) {
+            return pending;
+        }
+
+        if (this.resolving.has(token)) {
+            throw new Error(`Circular dependency detected: ${getTokenName(token)}`);
+        }
+
+        this.resolving.add(token);
+
+        const resolution = (async () => {
+            try {
+                for (const dep of this.getProviderDependencies(config)) {
+                    if (dep !== undefined) {
+                        await this.resolveAsync(dep);
+                    }
+                }
+            } finally {
+                this.resolving.delete(token);
+            }
+
+            if (!config.useFactory) {
+                return;
+            }
+
+            const args = (config.inject || []).map(dep => this.get(dep));
+            const instance = await config.useFactory(...args);
+
+            if (config.scope === Scope.SINGLETON) {
+                this.instances.set(token, instance);
+            }
+        })();
+
+        this.pendingFactories.set(token, resolution);
+
+        try {
+            await resolution;
+        } finally {
+            this.pendingFactories.delete(token);
+        }
+    }
+
     /**
      * Resolves a token to return instance and its effective scope.
      */
@@ -78,7 +248,14 @@ export class Container {
         const config = this.configs.get(token);
 
         if (!config) {
-            throw new Error(`Provider not found: ${token.name}`);
+            // Exported by an imported module - resolved (and cached) by its owner
+            const imported = this.findImport(token);
+
+            if (imported) {
+                return imported.resolveInternal(token, requestLocals);
+            }
+
+            throw new Error(`Provider not found: ${getTokenName(token)}`);
         }
 
         // 3. Create Instance with Scope Bubbling
@@ -96,26 +273,33 @@ export class Container {
     }
 
     private createInstance(config: ProviderConfig, requestLocals?: Map<Token, any>): { instance: any, scope: Scope } {
-        const target = config.useClass ?? config.token;
+        const token = config.useClass ?? config.token;
 
-        if (this.resolving.has(target)) {
-            throw new Error(`Circular dependency detected: ${target.name}`);
+        if (this.resolving.has(token)) {
+            throw new Error(`Circular dependency detected: ${getTokenName(token)}`);
         }
 
-        this.resolving.add(target);
+        this.resolving.add(token);
 
         try {
-            const depsToken = this.getDependencies(target);
-
-            if (depsToken.length === 0) {
-                // No deps: Scope is as configured
-                return { instance: new target(), scope: config.scope || Scope.SINGLETON };
-            }
-
+            const depsToken = this.getProviderDependencies(config);
             const args: any[] = [];
             let effectiveScope = config.scope || Scope.SINGLETON;
 
             for (const depToken of depsToken) {
+                // Parameters without an injectable type (primitives, interfaces without @Inject)
+                if (depToken === undefined) {
+                    args.push(undefined);
+                    continue;
+                }
+
+                if (!requestLocals?.has(depToken) && !this.has(depToken)) {
+                    throw new Error(
+                        `Provider not found: ${getTokenName(depToken)}, required by ${getTokenName(config.token)} in module "${this.name}". `
+                        + 'Register it in the module or import a module that exports it.'
+                    );
+                }
+
                 const depResult = this.resolveInternal(depToken, requestLocals);
                 args.push(depResult.instance);
 
@@ -130,39 +314,105 @@ export class Container {
                 // unless semantic logic dictates otherwise. For now, strictly bubbling REQUEST scope.
             }
 
-            return { instance: new target(...args), scope: effectiveScope };
+            if (config.useFactory) {
+                const instance = config.useFactory(...args);
+
+                if (instance instanceof Promise) {
+                    throw new Error(
+                        `Provider ${getTokenName(config.token)} has an async factory; only singleton async factories are supported (resolved during bootstrap)`
+                    );
+                }
+
+                return { instance, scope: effectiveScope };
+            }
+
+            return { instance: new config.useClass!(...args), scope: effectiveScope };
         } finally {
-            this.resolving.delete(target);
+            this.resolving.delete(token);
         }
     }
 
-    private getDependencies(target: Token): Token[] {
-        const types = Reflect.getMetadata('design:paramtypes', target) || [];
-        return types.filter((t: any) => t && typeof t === 'function' && !this.isPrimitive(t));
+    /**
+     * Tokens to resolve for a provider: the factory `inject` list,
+     * or the constructor parameters by position (undefined when not injectable).
+     */
+    private getProviderDependencies(config: ProviderConfig): (Token | undefined)[] {
+        if (config.useFactory) {
+            return config.inject || [];
+        }
+
+        return config.useClass ? this.getDependencies(config.useClass) : [];
+    }
+
+    /**
+     * Constructor dependencies by position: @Inject(token) wins over the emitted design type.
+     */
+    private getDependencies(target: Type): (Token | undefined)[] {
+        const types: any[] = Reflect.getMetadata('design:paramtypes', target) || [];
+        const injected: Map<number, Token> | undefined = Reflect.getMetadata(INJECT_META, target);
+        const length = Math.max(types.length, injected ? Math.max(-1, ...injected.keys()) + 1 : 0);
+        const deps: (Token | undefined)[] = [];
+
+        for (let i = 0; i < length; i++) {
+            const type = types[i];
+
+            if (injected?.has(i)) {
+                deps.push(injected.get(i));
+            } else if (type && typeof type === 'function' && !this.isPrimitive(type)) {
+                deps.push(type);
+            } else {
+                deps.push(undefined);
+            }
+        }
+
+        return deps;
     }
 
     private isPrimitive(type: any): boolean {
         return type === String || type === Number || type === Boolean || type === Object || type === Array || type === Symbol;
     }
 
-    private normalizeConfig<T>(config: ProviderConfig<T> | Token<T>): ProviderConfig<T> {
+    private normalizeConfig<T>(config: ProviderConfig<T> | Type<T>): ProviderConfig<T> {
         if (typeof config === 'function') {
             return {
                 token: config,
                 useClass: config,
-                scope: Scope.SINGLETON
+                scope: this.getDeclaredScope(config) ?? Scope.SINGLETON
             };
         }
 
+        if (!config || typeof config !== 'object' || config.token === undefined) {
+            throw new Error(`Invalid provider: ${String(config)}`);
+        }
+
+        if (config.useValue !== undefined || config.useFactory) {
+            return { ...config, scope: config.scope ?? Scope.SINGLETON };
+        }
+
+        const useClass = config.useClass ?? (typeof config.token === 'function' ? config.token : undefined);
+
+        if (!useClass) {
+            throw new Error(`Provider ${getTokenName(config.token)} needs useClass, useValue or useFactory`);
+        }
+
         return {
             ...config,
-            useClass: config.useClass ?? config.token,
-            scope: config.scope ?? Scope.SINGLETON
+            useClass,
+            scope: config.scope ?? this.getDeclaredScope(useClass) ?? Scope.SINGLETON
         };
     }
 
+    /**
+     * Scope declared via @Service({ scope }) or @Controller({ scope }).
+     */
+    private getDeclaredScope(target: Type): Scope | undefined {
+        return Reflect.getMetadata(SERVICE_META, target)?.scope
+            ?? Reflect.getMetadata(CONTROLLER_META, target)?.scope;
+    }
+
     clear(): void {
         this.configs.clear();
         this.instances.clear();
+        this.imports = [];
     }
 }
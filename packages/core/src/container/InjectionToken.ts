@@ -0,0 +1,22 @@
+/**
+ * Typed key for providers that are not classes (config objects, interfaces, clients).
+ *
+ * @example
+ * ```ts
+ * export const DB_CLIENT = new InjectionToken<SQL>('DB_CLIENT');
+ *
+ * app.services({ token: DB_CLIENT, useFactory: async () => connect() });
+ *
+ * constructor(@Inject(DB_CLIENT) private db: SQL) {}
+ * ```
+ */
+export class InjectionToken<T = any> {
+    /** Carries T for type inference only */
+    declare readonly __type?: T;
+
+    constructor(readonly description: string) { }
+
+    toString(): string {
+        return `InjectionToken(${this.description})`;
+    }
+}
@@ -8,13 +8,24 @@
  */
 
 import { parseQueryFromURL } from '../utils/parseQuery';
+import type { Token } from '../container/Container';
+import { Cookies } from '../cookies/Cookies';
+import type { CookieSigner } from '../cookies/CookieSigner';
+import type { HttpSession } from '../session/HttpSession';
+import { parseMultipart, removeFiles } from '../upload/MultipartParser';
+import { assertUploads, type UploadRules } from '../upload/UploadRules';
+import type { ContentNegotiator } from '../negotiation/ContentNegotiator';
+import { FormParser } from '../negotiation/BodyParser';
 
 const EMPTY_PARAMS: Record<string, string> = Object.freeze({}) as Record<string, string>;
+const EMPTY_FILES: Record<string, File[]> = Object.freeze({}) as Record<string, File[]>;
 
 export class Context {
     readonly req: Request;
     params: Record<string, string>;
     locals: Record<string, any> = {};
+    /** Set by the session middleware when `session` is configured */
+    session: HttpSession | undefined;
 
     // Lazy fields - only allocated when accessed
     private _query: Record<string, string> | null = null;
@@ -22,8 +33,17 @@ export class Context {
     private _bodyParsed = false;
     private _url: URL | null = null;
     private _status = 0;
-
-    constructor(req: Request, params: Record<string, string> = EMPTY_PARAMS) {
+    private _requestLocals: Map<Token, any> | null = null;
+    private _cookies: Cookies | null = null;
+    private _files: Record<string, File[]> | null = null;
+    private _tempPaths: string[] | null = null;
+
+    constructor(
+        req: Request,
+        params: Record<string, string> = EMPTY_PARAMS,
+        private readonly cookieSigner: CookieSigner | null = null,
+        private readonly negotiator: ContentNegotiator | null = null
+    ) {
         this.req = req;
         this.params = params;
     }
@@ -56,19 +76,36 @@ export class Context {
         return this._body;
     }
 
+    /**
+     * Files of a multipart body, by field name - populated by `parseBody()`.
+     */
+    get files(): Record<string, File[]> {
+        return this._files ?? EMPTY_FILES;
+    }
+
     async parseBody(): Promise<any> {
         if (this._bodyParsed) {
             return this._body;
         }
 
-        this._bodyParsed = true;
         const contentType = this.req.headers.get('content-type') || '';
 
+        if (contentType.includes('multipart/form-data')) {
+            return this.parseMultipart();
+        }
+
+        this._bodyParsed = true;
+
+        // Content negotiation enabled - registered parsers only, 415 otherwise
+        if (this.negotiator) {
+            this._body = await this.negotiator.parse(this.req);
+            return this._body;
+        }
+
         if (contentType.includes('application/json')) {
             this._body = await this.req.json();
         } else if (contentType.includes('form')) {
-            const formData = await this.req.formData();
-            this._body = Object.fromEntries(formData);
+            this._body = await FormParser.parse(this.req);
         } else if (contentType.includes('text')) {
             this._body = await this.req.text();
         } else {
@@ -78,6 +115,75 @@ export class Context {
         return this._body;
     }
 
+    /**
+     * Parse a multipart body, enforcing the route's upload limits.
+     * Other content types fall back to `parseBody()`.
+     */
+    async parseMultipart(rules: UploadRules | null = null): Promise<any> {
+        if (!this._bodyParsed) {
+            const contentType = this.req.headers.get('content-type') || '';
+
+            if (!contentType.includes('multipart/form-data')) {
+                await this.parseBody();
+            } else {
+                this._bodyParsed = true;
+
+                const { body, files, tempPaths } = await parseMultipart(this.req, rules);
+                this._body = body;
+                this._files = files;
+                this._tempPaths = tempPaths.length > 0 ? tempPaths : null;
+                return this._body;
+            }
+        }
+
+        // Parsed earlier without limits - check what was received
+        if (rules) {
+            assertUploads(rules, this.files);
+        }
+
+        return this._body;
+    }
+
+    /**
+     * Delete temp files of disk uploads. Called once the handler finished.
+     */
+    cleanupUploads(): void {
+        if (this._tempPaths) {
+            void removeFiles(this._tempPaths);
+            this._tempPaths = null;
+        }
+    }
+
+    /**
+     * Per-request DI cache for REQUEST-scoped providers.
+     * Seeded with this Context so it can be injected into request-scoped services.
+     */
+    get requestLocals(): Map<Token, any> {
+        if (!this._requestLocals) {
+            this._requestLocals = new Map<Token, any>([[Context, this]]);
+        }
+
+        return this._requestLocals;
+    }
+
+    /**
+     * Request cookies; cookies set here are added to the response.
+     */
+    get cookies(): Cookies {
+        if (!this._cookies) {
+            this._cookies = new Cookies(this.req.headers.get('cookie'), this.cookieSigner);
+        }
+
+        return this._cookies;
+    }
+
+    /**
+     * Whether cookies were set or deleted - checked once per response.
+     */
+    get cookiesChanged(): boolean {
+        return this._cookies !== null && this._cookies.changed;
+    }
+
     get method(): string {
         return this.req.method;
     }
@@ -90,6 +196,17 @@ export class Context {
         return this.url.pathname;
     }
 
+    /**
+     * Aborted when the client disconnects - stop long-running work or streams.
+     */
+    get signal(): AbortSignal {
+        return this.req.signal;
+    }
+
+    get aborted(): boolean {
+        return this.req.signal.aborted;
+    }
+
     json(data: any, status?: number): Response {
         if (status) this.status = status;
 
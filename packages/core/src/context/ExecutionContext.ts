@@ -0,0 +1,50 @@
+import type { Context } from './Context';
+
+/**
+ * Execution context for guards and interceptors.
+ * Exposes the request Context plus the controller class and handler being executed,
+ * so they can read route metadata (e.g. roles set via SetMetadata).
+ */
+export class ExecutionContext {
+    constructor(
+        readonly ctx: Context,
+        private readonly controller: new (...args: any[]) => any,
+        private readonly handlerName: string
+    ) { }
+
+    /**
+     * The request Context.
+     */
+    getContext(): Context {
+        return this.ctx;
+    }
+
+    /**
+     * The controller class handling the request.
+     */
+    getClass<T = any>(): new (...args: any[]) => T {
+        return this.controller;
+    }
+
+    /**
+     * The route handler method.
+     */
+    getHandler(): Function {
+        return this.controller.prototype[this.handlerName];
+    }
+
+    /**
+     * The route handler method name.
+     */
+    getHandlerName(): string {
+        return this.handlerName;
+    }
+
+    /**
+     * Read metadata set on the handler, falling back to the controller class.
+     */
+    getMetadata<T = any>(key: string | symbol): T | undefined {
+        return Reflect.getMetadata(key, this.controller, this.handlerName)
+            ?? Reflect.getMetadata(key, this.controller);
+    }
+}
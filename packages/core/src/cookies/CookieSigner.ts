@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * HMAC-SHA256 cookie signing.
+ * The first secret signs; all secrets verify, so secrets can be rotated
+ * without logging everyone out.
+ */
+export class CookieSigner {
+    private readonly secrets: string[];
+
+    constructor(secret: string | string[]) {
+        this.secrets = Array.isArray(secret) ? secret : [secret];
+
+        if (this.secrets.length === 0 || this.secrets.some(s => !s)) {
+            throw new Error('Cookie secret must be a non-empty string');
+        }
+    }
+
+    sign(value: string): string {
+        return `${value}.${this.digest(value, this.secrets[0])}`;
+    }
+
+    /**
+     * Returns the original value, or null when the signature is missing or invalid.
+     */
+    unsign(signed: string): string | null {
+        const dot = signed.lastIndexOf('.');
+
+        if (dot < 0) {
+            return null;
+        }
+
+        const value = signed.slice(0, dot);
+        const signature = Buffer.from(signed.slice(dot + 1));
+
+        for (const secret of this.secrets) {
+            const expected = Buffer.from(this.digest(value, secret));
+
+            if (expected.length === signature.length && timingSafeEqual(expected, signature)) {
+                return value;
+            }
+        }
+
+        return null;
+    }
+
+    private digest(value: string, secret: string): string {
+        return createHmac('sha256', secret).update(value).digest('base64url');
+    }
+}
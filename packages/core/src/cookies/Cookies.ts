@@ -0,0 +1,180 @@
+import type { CookieSigner } from './CookieSigner';
+
+export interface CookieOptions {
+    /** Lifetime in seconds */
+    maxAge?: number;
+    expires?: Date;
+    domain?: string;
+    /** Default: `/` */
+    path?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+    partitioned?: boolean;
+    priority?: 'Low' | 'Medium' | 'High';
+    /** Sign the value with the configured cookie secret */
+    signed?: boolean;
+}
+
+/**
+ * Application cookie configuration.
+ */
+export interface CookieConfig {
+    /** Secret(s) for signed cookies and sessions. The first one signs, all of them verify. */
+    secret?: string | string[];
+}
+
+/**
+ * Parse a `Cookie` request header. Malformed pairs are skipped.
+ */
+export function parseCookies(header: string | null): Map<string, string> {
+    const cookies = new Map<string, string>();
+
+    if (!header) {
+        return cookies;
+    }
+
+    for (const pair of header.split(';')) {
+        const eq = pair.indexOf('=');
+
+        if (eq < 0) {
+            continue;
+        }
+
+        const name = pair.slice(0, eq).trim();
+
+        if (!name || cookies.has(name)) {
+            continue;
+        }
+
+        let value = pair.slice(eq + 1).trim();
+
+        if (value.charCodeAt(0) === 34 /* " */ && value.charCodeAt(value.length - 1) === 34) {
+            value = value.slice(1, -1);
+        }
+
+        try {
+            cookies.set(name, decodeURIComponent(value));
+        } catch {
+            cookies.set(name, value);
+        }
+    }
+
+    return cookies;
+}
+
+/**
+ * Serialize a `Set-Cookie` header value.
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+    let cookie = `${name}=${encodeURIComponent(value)}`;
+
+    if (options.maxAge !== undefined) cookie += `; Max-Age=${Math.floor(options.maxAge)}`;
+    if (options.expires) cookie += `; Expires=${options.expires.toUTCString()}`;
+    if (options.domain) cookie += `; Domain=${options.domain}`;
+
+    cookie += `; Path=${options.path ?? '/'}`;
+
+    if (options.httpOnly) cookie += '; HttpOnly';
+    // Browsers reject SameSite=None without Secure
+    if (options.secure || options.sameSite === 'None') cookie += '; Secure';
+    if (options.sameSite) cookie += `; SameSite=${options.sameSite}`;
+    if (options.partitioned) cookie += '; Partitioned';
+    if (options.priority) cookie += `; Priority=${options.priority}`;
+
+    return cookie;
+}
+
+/**
+ * Request cookies and pending `Set-Cookie` headers, exposed as `ctx.cookies`.
+ * Cookies set during the request are added to the response automatically.
+ *
+ * @example
+ * ```typescript
+ * const theme = ctx.cookies.get('theme');
+ *
+ * ctx.cookies.set('user', userId, { signed: true, httpOnly: true, maxAge: 3600 });
+ * ctx.cookies.delete('legacy');
+ * ```
+ */
+export class Cookies {
+    private parsed: Map<string, string> | null = null;
+    private outgoing = new Map<string, string>();
+
+    constructor(
+        private readonly header: string | null,
+        private readonly signer: CookieSigner | null = null
+    ) {}
+
+    /**
+     * Read a request cookie. With `signed`, returns null unless the signature is valid.
+     */
+    get(name: string, options: { signed?: boolean } = {}): string | null {
+        const value = this.all().get(name);
+
+        if (value === undefined) {
+            return null;
+        }
+
+        return options.signed ? this.requireSigner().unsign(value) : value;
+    }
+
+    has(name: string): boolean {
+        return this.all().has(name);
+    }
+
+    /**
+     * All request cookies (raw values).
+     */
+    all(): Map<string, string> {
+        if (!this.parsed) {
+            this.parsed = parseCookies(this.header);
+        }
+
+        return this.parsed;
+    }
+
+    set(name: string, value: string, options: CookieOptions = {}): this {
+        const stored = options.signed ? this.requireSigner().sign(value) : value;
+
+        this.outgoing.set(name, serializeCookie(name, stored, options));
+        return this;
+    }
+
+    /**
+     * Expire a cookie in the browser. Pass the same `path`/`domain` it was set with.
+     */
+    delete(name: string, options: Pick<CookieOptions, 'domain' | 'path' | 'secure' | 'sameSite'> = {}): this {
+        this.outgoing.set(name, serializeCookie(name, '', { ...options, maxAge: 0, expires: new Date(0) }));
+        return this;
+    }
+
+    /**
+     * Whether cookies were set or deleted during the request.
+     */
+    get changed(): boolean {
+        return this.outgoing.size > 0;
+    }
+
+    /**
+     * Append the pending `Set-Cookie` headers to a copy of a response.
+     * Handlers may return a shared Response, which must not collect one request's cookies.
+     */
+    applyTo(response: Response): Response {
+        const target = new Response(response.body, response);
+
+        for (const cookie of this.outgoing.values()) {
+            target.headers.append('Set-Cookie', cookie);
+        }
+
+        return target;
+    }
+
+    private requireSigner(): CookieSigner {
+        if (!this.signer) {
+            throw new Error('Signed cookies need a secret: configure `cookies: { secret }` on Carno');
+        }
+
+        return this.signer;
+    }
+}
@@ -0,0 +1,45 @@
+import { CACHE_RESPONSE_META, CACHE_INVALIDATE_META } from '../metadata';
+import type { CacheResponseOptions, CacheTags } from '../cache/ResponseCache';
+
+/**
+ * Cache the response of a GET route through CacheService.
+ * Runs after guards; a hit skips interceptors and the handler. Responses carry an `ETag`
+ * and conditional requests with a matching `If-None-Match` get a 304.
+ *
+ * @example
+ * ```ts
+ * @Get('/products')
+ * @CacheResponse({ ttl: 60, vary: { query: ['page'] }, tags: ['products'] })
+ * list(@Query('page') page: string) {
+ *   return this.products.page(Number(page));
+ * }
+ * ```
+ */
+export function CacheResponse(options: CacheResponseOptions = {}): MethodDecorator {
+    return (target: any, propertyKey: string | symbol) => {
+        Reflect.defineMetadata(CACHE_RESPONSE_META, options, target.constructor, propertyKey);
+    };
+}
+
+/**
+ * Invalidate cached responses by tag once the route responds successfully.
+ *
+ * @example
+ * ```ts
+ * @Put('/products/:id')
+ * @InvalidateCache(ctx => ['products', `product:${ctx.params.id}`])
+ * update(@Param('id') id: string, @Body() body: UpdateProduct) {
+ *   return this.products.update(id, body);
+ * }
+ * ```
+ */
+export function InvalidateCache(tags: CacheTags | string): MethodDecorator {
+    return (target: any, propertyKey: string | symbol) => {
+        Reflect.defineMetadata(
+            CACHE_INVALIDATE_META,
+            typeof tags === 'string' ? [tags] : tags,
+            target.constructor,
+            propertyKey
+        );
+    };
+}
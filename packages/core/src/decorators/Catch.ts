@@ -0,0 +1,21 @@
+import { CATCH_META } from '../metadata';
+
+/**
+ * Declares the error types handled by an exception filter.
+ * Without arguments the filter catches every error.
+ *
+ * @example
+ * ```ts
+ * @Catch(EntityNotFoundError)
+ * class NotFoundFilter implements ExceptionFilter {
+ *   catch(error: EntityNotFoundError, ctx: Context) {
+ *     return Response.json({ message: error.message }, { status: 404 });
+ *   }
+ * }
+ * ```
+ */
+export function Catch(...errorTypes: (new (...args: any[]) => any)[]): ClassDecorator {
+    return (target) => {
+        Reflect.defineMetadata(CATCH_META, errorTypes, target);
+    };
+}
@@ -41,6 +41,10 @@ function normalizePath(path: string): string {
  * @example
  * // With options
  * @Controller({ path: '/users', children: [ProfileController] })
+ *
+ * @example
+ * // Versioned
+ * @Controller({ path: '/users', version: '2' })
  */
 export function Controller(pathOrOptions?: string | ControllerOptions): ClassDecorator {
     return (target) => {
@@ -50,7 +54,8 @@ export function Controller(pathOrOptions?: string | ControllerOptions): ClassDec
         const meta: ControllerMeta = {
             path,
             scope: options.scope,
-            children: options.children
+            children: options.children,
+            version: options.version
         };
 
         Reflect.defineMetadata(CONTROLLER_META, meta, target);
@@ -0,0 +1,38 @@
+import { CONSUMES_META, PRODUCES_META } from '../metadata';
+
+function defineMediaTypes(key: symbol, mediaTypes: string[]): ClassDecorator & MethodDecorator {
+    const types = mediaTypes.map(type => type.toLowerCase());
+
+    return function (target: any, propertyKey?: string | symbol) {
+        if (propertyKey !== undefined) {
+            Reflect.defineMetadata(key, types, target.constructor, propertyKey);
+        } else {
+            Reflect.defineMetadata(key, types, target);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Media types a controller or route can respond with, in order of preference.
+ * The response format follows the `Accept` header; 406 when none is acceptable.
+ *
+ * @example
+ * ```ts
+ * @Get('/export')
+ * @Produces('application/json', 'text/csv')
+ * export() {
+ *     return this.reports.rows();
+ * }
+ * ```
+ */
+export function Produces(...mediaTypes: string[]): ClassDecorator & MethodDecorator {
+    return defineMediaTypes(PRODUCES_META, mediaTypes);
+}
+
+/**
+ * Request Content-Types a controller or route accepts - others get 415.
+ * `text/*` style wildcards are supported.
+ */
+export function Consumes(...mediaTypes: string[]): ClassDecorator & MethodDecorator {
+    return defineMediaTypes(CONSUMES_META, mediaTypes);
+}
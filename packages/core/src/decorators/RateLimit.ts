@@ -0,0 +1,36 @@
+import { RATE_LIMIT_META } from '../metadata';
+import type { RateLimitOptions } from '../rate-limit/RateLimiter';
+
+/**
+ * Rate limit a controller or a single route. Overrides the global `rateLimit` config.
+ * Each route keeps its own counters.
+ *
+ * @example
+ * ```ts
+ * @Post('/login')
+ * @RateLimit({ limit: 5, window: 60, algorithm: 'sliding-window' })
+ * login(@Body() body: LoginDto) {}
+ * ```
+ */
+export function RateLimit(options: RateLimitOptions): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        if (propertyKey !== undefined) {
+            Reflect.defineMetadata(RATE_LIMIT_META, options, target.constructor, propertyKey);
+        } else {
+            Reflect.defineMetadata(RATE_LIMIT_META, options, target);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Exclude a controller or route from rate limiting, including the global limit.
+ */
+export function SkipRateLimit(): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string | symbol) {
+        if (propertyKey !== undefined) {
+            Reflect.defineMetadata(RATE_LIMIT_META, false, target.constructor, propertyKey);
+        } else {
+            Reflect.defineMetadata(RATE_LIMIT_META, false, target);
+        }
+    } as ClassDecorator & MethodDecorator;
+}
@@ -0,0 +1,23 @@
+/**
+ * Attach custom metadata to a controller or route handler.
+ * Read it back from guards via ExecutionContext.getMetadata(key).
+ *
+ * @example
+ * ```ts
+ * export const Roles = (...roles: string[]) => SetMetadata('roles', roles);
+ *
+ * @Get('/admin')
+ * @Roles('admin')
+ * dashboard() {}
+ * ```
+ */
+export function SetMetadata<T = any>(key: string | symbol, value: T): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string) {
+        if (propertyKey !== undefined) {
+            Reflect.defineMetadata(key, value, target.constructor, propertyKey);
+            return;
+        }
+
+        Reflect.defineMetadata(key, value, target);
+    } as ClassDecorator & MethodDecorator;
+}
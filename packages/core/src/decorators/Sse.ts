@@ -0,0 +1,24 @@
+import { SSE_META } from '../metadata';
+import type { SseOptions } from '../streaming/streams';
+
+/**
+ * Stream the handler result as Server-Sent Events (`text/event-stream`).
+ * The handler returns an async iterable or generator; each item becomes an event.
+ * Yield `{ data, event?, id?, retry? }` to control framing.
+ *
+ * @example
+ * ```ts
+ * @Get('/progress')
+ * @Sse({ heartbeat: 10000 })
+ * async *progress(ctx: Context) {
+ *   for await (const step of this.jobs.watch()) {
+ *     yield { event: 'progress', id: step.id, data: step };
+ *   }
+ * }
+ * ```
+ */
+export function Sse(options: SseOptions = {}): MethodDecorator {
+    return (target: any, propertyKey: string | symbol) => {
+        Reflect.defineMetadata(SSE_META, options, target.constructor, propertyKey);
+    };
+}
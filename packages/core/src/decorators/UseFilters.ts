@@ -0,0 +1,23 @@
+import { FILTERS_META, type FilterInfo } from '../metadata';
+import type { FilterType } from '../filters/ExceptionFilter';
+
+/**
+ * Exception filters decorator.
+ * Can be applied to controllers or individual methods.
+ */
+export function UseFilters(...filters: FilterType[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string) {
+        const isMethod = propertyKey !== undefined;
+        const metaTarget = isMethod ? target.constructor : target;
+        const existing: FilterInfo[] = Reflect.getMetadata(FILTERS_META, metaTarget) || [];
+
+        for (const filter of filters) {
+            existing.push({
+                filter,
+                target: isMethod ? propertyKey : undefined
+            });
+        }
+
+        Reflect.defineMetadata(FILTERS_META, existing, metaTarget);
+    } as ClassDecorator & MethodDecorator;
+}
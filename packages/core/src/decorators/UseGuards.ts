@@ -0,0 +1,23 @@
+import { GUARDS_META, type GuardInfo } from '../metadata';
+import type { GuardType } from '../guards/CanActivate';
+
+/**
+ * Guards decorator.
+ * Can be applied to controllers or individual methods.
+ */
+export function UseGuards(...guards: GuardType[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string) {
+        const isMethod = propertyKey !== undefined;
+        const metaTarget = isMethod ? target.constructor : target;
+        const existing: GuardInfo[] = Reflect.getMetadata(GUARDS_META, metaTarget) || [];
+
+        for (const guard of guards) {
+            existing.push({
+                guard,
+                target: isMethod ? propertyKey : undefined
+            });
+        }
+
+        Reflect.defineMetadata(GUARDS_META, existing, metaTarget);
+    } as ClassDecorator & MethodDecorator;
+}
@@ -0,0 +1,23 @@
+import { INTERCEPTORS_META, type InterceptorInfo } from '../metadata';
+import type { InterceptorType } from '../interceptors/CarnoInterceptor';
+
+/**
+ * Interceptors decorator.
+ * Can be applied to controllers or individual methods.
+ */
+export function UseInterceptors(...interceptors: InterceptorType[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string) {
+        const isMethod = propertyKey !== undefined;
+        const metaTarget = isMethod ? target.constructor : target;
+        const existing: InterceptorInfo[] = Reflect.getMetadata(INTERCEPTORS_META, metaTarget) || [];
+
+        for (const interceptor of interceptors) {
+            existing.push({
+                interceptor,
+                target: isMethod ? propertyKey : undefined
+            });
+        }
+
+        Reflect.defineMetadata(INTERCEPTORS_META, existing, metaTarget);
+    } as ClassDecorator & MethodDecorator;
+}
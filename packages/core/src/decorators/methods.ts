@@ -1,13 +1,19 @@
 import { ROUTES_META, type RouteInfo } from '../metadata';
+import type { VersionValue } from '../versioning/Versioning';
 
 type HttpMethod = 'get' | 'post' | 'put' | 'delete' | 'patch' | 'head' | 'options';
 
+export interface RouteOptions {
+    /** Version(s) served by this route, overriding the controller's - needs `versioning` on Carno */
+    version?: VersionValue;
+}
+
 /**
  * Creates a method decorator for HTTP methods.
  * Supports both legacy decorators (experimentalDecorators) and TS5 stage 3 decorators.
  */
 function createMethodDecorator(method: HttpMethod) {
-    return function (path: string = ''): any {
+    return function (path: string = '', options: RouteOptions = {}): any {
         return function (
             targetOrMethod: any,
             contextOrPropertyKey?: string | symbol | ClassMethodDecoratorContext,
@@ -24,7 +30,8 @@ function createMethodDecorator(method: HttpMethod) {
                     routes.push({
                         method,
                         path: path.startsWith('/') ? path : '/' + path,
-                        handlerName: String(context.name)
+                        handlerName: String(context.name),
+                        version: options.version
                     });
 
                     Reflect.defineMetadata(ROUTES_META, routes, constructor);
@@ -41,7 +48,8 @@ function createMethodDecorator(method: HttpMethod) {
             routes.push({
                 method,
                 path: path.startsWith('/') ? path : '/' + path,
-                handlerName: String(propertyKey)
+                handlerName: String(propertyKey),
+                version: options.version
             });
 
             Reflect.defineMetadata(ROUTES_META, routes, constructor);
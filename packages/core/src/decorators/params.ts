@@ -1,18 +1,21 @@
 import { PARAMS_META } from '../metadata';
+import type { UploadOptions } from '../upload/UploadRules';
 
-export type ParamType = 'param' | 'query' | 'body' | 'header' | 'req' | 'ctx' | 'locals';
+export type ParamType = 'param' | 'query' | 'body' | 'header' | 'req' | 'ctx' | 'locals' | 'session' | 'file' | 'files';
 
 export interface ParamMetadata {
     type: ParamType;
     key?: string;
     index: number;
+    /** Upload limits of `@UploadedFile()` / `@UploadedFiles()` */
+    options?: UploadOptions;
 }
 
-function createParamDecorator(type: ParamType, key?: string) {
+function createParamDecorator(type: ParamType, key?: string, options?: UploadOptions) {
     return function (target: any, propertyKey: string, index: number) {
         const params: ParamMetadata[] = Reflect.getMetadata(PARAMS_META, target.constructor, propertyKey) || [];
 
-        params.push({ type, key, index });
+        params.push(options ? { type, key, index, options } : { type, key, index });
 
         Reflect.defineMetadata(PARAMS_META, params, target.constructor, propertyKey);
     };
@@ -45,3 +48,31 @@ export function Ctx(): ParameterDecorator {
 export function Locals(key?: string): ParameterDecorator {
     return createParamDecorator('locals', key) as ParameterDecorator;
 }
+
+export function Session(): ParameterDecorator {
+    return createParamDecorator('session') as ParameterDecorator;
+}
+
+/**
+ * A single uploaded file of a multipart body, as a `File` (undefined when absent).
+ *
+ * @example
+ * ```typescript
+ * @Post('/avatar')
+ * upload(@UploadedFile('avatar', { maxFileSize: 2_000_000, mimeTypes: ['image/*'], required: true }) avatar: File) {}
+ * ```
+ */
+export function UploadedFile(field: string, options?: UploadOptions): ParameterDecorator {
+    return createParamDecorator('file', field, options) as ParameterDecorator;
+}
+
+/**
+ * Uploaded files of a field, or of every field when no name is given.
+ */
+export function UploadedFiles(field?: string, options?: UploadOptions): ParameterDecorator;
+export function UploadedFiles(options?: UploadOptions): ParameterDecorator;
+export function UploadedFiles(fieldOrOptions?: string | UploadOptions, options?: UploadOptions): ParameterDecorator {
+    return typeof fieldOrOptions === 'string'
+        ? createParamDecorator('files', fieldOrOptions, options) as ParameterDecorator
+        : createParamDecorator('files', undefined, fieldOrOptions) as ParameterDecorator;
+}
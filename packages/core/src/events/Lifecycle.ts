@@ -6,7 +6,7 @@ export enum EventType {
     INIT = 'onInit',
     /** Called right after application is fully bootstrapped */
     BOOT = 'onBoot',
-    /** Called when application receives SIGTERM/SIGINT */
+    /** Called on shutdown, after in-flight requests finished */
     SHUTDOWN = 'onShutdown'
 }
 
@@ -19,6 +19,18 @@ export interface EventHandler {
     priority: number;
 }
 
+/**
+ * Graceful shutdown settings.
+ */
+export interface ShutdownConfig {
+    /** Max time for draining requests and running shutdown hooks, in ms (default: 10000). */
+    timeout?: number;
+    /** Time `/ready` reports 503 before new connections are refused, in ms (default: 0). */
+    drainDelay?: number;
+    /** Signals triggering the shutdown, or `false` to call `app.shutdown()` yourself (default: SIGTERM, SIGINT). */
+    signals?: NodeJS.Signals[] | false;
+}
+
 /**
  * Metadata key for storing events.
  */
@@ -87,8 +99,8 @@ export function OnApplicationBoot(priority: number = 0) {
 }
 
 /**
- * Called when application receives SIGTERM or SIGINT.
- * Use for graceful cleanup, closing connections, etc.
+ * Called on shutdown (SIGTERM/SIGINT or `app.shutdown()`), once in-flight requests are done.
+ * Async hooks are awaited in priority order. Use for closing connections, flushing buffers, etc.
  */
 export function OnApplicationShutdown(priority: number = 0) {
     return function (target: any, propertyKey: string) {
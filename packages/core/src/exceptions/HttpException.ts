@@ -6,7 +6,8 @@ export class HttpException extends Error {
     constructor(
         public readonly statusCode: number,
         message: string,
-        public readonly errors?: any[]
+        public readonly errors?: any[],
+        public readonly headers?: HeadersInit
     ) {
         super(message);
         this.name = 'HttpException';
@@ -22,7 +23,7 @@ export class HttpException extends Error {
             ...(this.errors && { errors: this.errors })
         };
 
-        return Response.json(body, { status: this.statusCode });
+        return Response.json(body, { status: this.statusCode, headers: this.headers });
     }
 }
 
@@ -57,12 +58,22 @@ export class NotFoundException extends HttpException {
 }
 
 export class MethodNotAllowedException extends HttpException {
-    constructor(message: string = 'Method Not Allowed') {
-        super(405, message);
+    /**
+     * @param allowed Methods the resource supports, sent in the `Allow` header.
+     */
+    constructor(message: string = 'Method Not Allowed', public readonly allowed: string[] = []) {
+        super(405, message, undefined, allowed.length > 0 ? { Allow: allowed.join(', ') } : undefined);
         this.name = 'MethodNotAllowedException';
     }
 }
 
+export class NotAcceptableException extends HttpException {
+    constructor(message: string = 'Not Acceptable') {
+        super(406, message);
+        this.name = 'NotAcceptableException';
+    }
+}
+
 export class ConflictException extends HttpException {
     constructor(message: string = 'Conflict') {
         super(409, message);
@@ -70,6 +81,13 @@ export class ConflictException extends HttpException {
     }
 }
 
+export class UnsupportedMediaTypeException extends HttpException {
+    constructor(message: string = 'Unsupported Media Type') {
+        super(415, message);
+        this.name = 'UnsupportedMediaTypeException';
+    }
+}
+
 export class UnprocessableEntityException extends HttpException {
     constructor(message: string = 'Unprocessable Entity', errors?: any[]) {
         super(422, message, errors);
@@ -78,8 +96,8 @@ export class UnprocessableEntityException extends HttpException {
 }
 
 export class TooManyRequestsException extends HttpException {
-    constructor(message: string = 'Too Many Requests') {
-        super(429, message);
+    constructor(message: string = 'Too Many Requests', headers?: HeadersInit) {
+        super(429, message, undefined, headers);
         this.name = 'TooManyRequestsException';
     }
 }
@@ -0,0 +1,14 @@
+import type { Context } from '../context/Context';
+
+/**
+ * Interface for exception filters.
+ * Declare which errors a filter handles with @Catch(); without arguments it catches everything.
+ */
+export interface ExceptionFilter<T = any> {
+    catch(error: T, ctx: Context): Response | Promise<Response>;
+}
+
+/**
+ * A filter class (resolved through the Container) or a filter instance.
+ */
+export type FilterType = (new (...args: any[]) => ExceptionFilter) | ExceptionFilter;
@@ -0,0 +1,15 @@
+import type { ExecutionContext } from '../context/ExecutionContext';
+
+/**
+ * Interface for guards.
+ * Return false to reject the request with 403 Forbidden,
+ * or throw an HttpException for a custom response.
+ */
+export interface CanActivate {
+    canActivate(context: ExecutionContext): boolean | Promise<boolean>;
+}
+
+/**
+ * A guard class (resolved through the Container) or a guard instance.
+ */
+export type GuardType = (new (...args: any[]) => CanActivate) | CanActivate;
@@ -0,0 +1,34 @@
+/**
+ * `liveness` checks back `/health` (restart when failing),
+ * `readiness` checks back `/ready` (stop routing traffic when failing).
+ */
+export type HealthCheckType = 'liveness' | 'readiness';
+
+export type HealthDetails = Record<string, any>;
+
+/**
+ * A single health check contributed by the application or a package.
+ */
+export interface HealthIndicator {
+    /** Key of the check in the report - registering the same name again replaces it */
+    readonly name: string;
+    /** Default: readiness */
+    readonly type?: HealthCheckType;
+    /** Time in ms before the check counts as down (default: `health.timeout`) */
+    readonly timeout?: number;
+    /** Throw or reject when unhealthy. Returned details are included in the report. */
+    check(): Promise<HealthDetails | void> | HealthDetails | void;
+}
+
+export interface HealthCheckResult {
+    status: 'up' | 'down';
+    /** Time spent in ms */
+    duration: number;
+    details?: HealthDetails;
+    error?: string;
+}
+
+export interface HealthReport {
+    status: 'ok' | 'error' | 'shutting_down';
+    checks: Record<string, HealthCheckResult>;
+}
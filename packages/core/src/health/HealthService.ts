@@ -0,0 +1,90 @@
+import type { HealthCheckResult, HealthCheckType, HealthIndicator, HealthReport } from './HealthIndicator';
+import type { DiskThresholds, MemoryThresholds } from './indicators';
+
+export interface HealthConfig {
+    /** Default per-check timeout in ms (default: 3000) */
+    timeout?: number;
+    /** Fail liveness above these memory limits */
+    memory?: MemoryThresholds;
+    /** Fail readiness when the disk is nearly full */
+    disk?: DiskThresholds;
+    /** Application checks, in addition to the ones packages register */
+    indicators?: HealthIndicator[];
+}
+
+export const DEFAULT_HEALTH_TIMEOUT = 3000;
+
+/**
+ * Registry of health indicators, injectable in every module.
+ *
+ * Packages register their indicators (database, queues, cache) and the
+ * `/health` and `/ready` routes report on them. Checks run concurrently,
+ * each bounded by its own timeout.
+ */
+export class HealthService {
+    private indicators = new Map<string, HealthIndicator>();
+
+    constructor(private readonly defaultTimeout: number = DEFAULT_HEALTH_TIMEOUT) { }
+
+    register(indicator: HealthIndicator): this {
+        this.indicators.set(indicator.name, indicator);
+        return this;
+    }
+
+    unregister(name: string): boolean {
+        return this.indicators.delete(name);
+    }
+
+    getIndicators(type?: HealthCheckType): HealthIndicator[] {
+        const all = [...this.indicators.values()];
+
+        return type ? all.filter(indicator => (indicator.type ?? 'readiness') === type) : all;
+    }
+
+    /**
+     * Run every indicator of a type. The report is `error` when any check is down.
+     */
+    async check(type: HealthCheckType): Promise<HealthReport> {
+        const indicators = this.getIndicators(type);
+        const results = await Promise.all(indicators.map(indicator => this.run(indicator)));
+        const checks: Record<string, HealthCheckResult> = {};
+
+        indicators.forEach((indicator, i) => {
+            checks[indicator.name] = results[i];
+        });
+
+        return {
+            status: results.every(result => result.status === 'up') ? 'ok' : 'error',
+            checks
+        };
+    }
+
+    private async run(indicator: HealthIndicator): Promise<HealthCheckResult> {
+        const timeout = indicator.timeout ?? this.defaultTimeout;
+        const start = performance.now();
+        let timer: Timer | undefined;
+
+        const expired = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+        });
+
+        try {
+            const details = await Promise.race([Promise.resolve().then(() => indicator.check()), expired]);
+            const result: HealthCheckResult = { status: 'up', duration: elapsed(start) };
+
+            if (details) {
+                result.details = details;
+            }
+
+            return result;
+        } catch (error: any) {
+            return { status: 'down', duration: elapsed(start), error: error?.message ?? String(error) };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+function elapsed(start: number): number {
+    return Math.round(performance.now() - start);
+}
@@ -0,0 +1,84 @@
+import { statfs } from 'node:fs/promises';
+import type { CacheService } from '../cache/CacheService';
+import type { HealthDetails, HealthIndicator } from './HealthIndicator';
+
+export interface MemoryThresholds {
+    /** Max V8 heap in use, in bytes */
+    heapUsed?: number;
+    /** Max resident set size, in bytes */
+    rss?: number;
+}
+
+export interface DiskThresholds {
+    /** Path on the volume to check (default: /) */
+    path?: string;
+    /** Min free space, in bytes */
+    minFree?: number;
+    /** Max used fraction of the volume, 0-1 */
+    maxUsage?: number;
+}
+
+/**
+ * Liveness check failing when the process uses more memory than allowed.
+ */
+export class MemoryHealthIndicator implements HealthIndicator {
+    readonly name = 'memory';
+    readonly type = 'liveness';
+
+    constructor(private readonly thresholds: MemoryThresholds) { }
+
+    check(): HealthDetails {
+        const { heapUsed, rss } = process.memoryUsage();
+
+        if (this.thresholds.heapUsed !== undefined && heapUsed > this.thresholds.heapUsed) {
+            throw new Error(`Heap usage ${heapUsed} bytes exceeds ${this.thresholds.heapUsed} bytes`);
+        }
+
+        if (this.thresholds.rss !== undefined && rss > this.thresholds.rss) {
+            throw new Error(`RSS ${rss} bytes exceeds ${this.thresholds.rss} bytes`);
+        }
+
+        return { heapUsed, rss };
+    }
+}
+
+/**
+ * Readiness check failing when the volume runs out of space.
+ */
+export class DiskHealthIndicator implements HealthIndicator {
+    readonly name = 'disk';
+
+    constructor(private readonly thresholds: DiskThresholds) { }
+
+    async check(): Promise<HealthDetails> {
+        const stats = await statfs(this.thresholds.path ?? '/');
+        const total = stats.blocks * stats.bsize;
+        const free = stats.bavail * stats.bsize;
+        const usage = total > 0 ? 1 - free / total : 0;
+
+        if (this.thresholds.minFree !== undefined && free < this.thresholds.minFree) {
+            throw new Error(`Free disk space ${free} bytes is below ${this.thresholds.minFree} bytes`);
+        }
+
+        if (this.thresholds.maxUsage !== undefined && usage > this.thresholds.maxUsage) {
+            throw new Error(`Disk usage ${(usage * 100).toFixed(1)}% exceeds ${this.thresholds.maxUsage * 100}%`);
+        }
+
+        return { free, total, usage: Number(usage.toFixed(4)) };
+    }
+}
+
+/**
+ * Readiness check pinging the cache backend - registered for drivers supporting `ping()` (Redis).
+ */
+export class CacheHealthIndicator implements HealthIndicator {
+    readonly name = 'cache';
+
+    constructor(private readonly cache: CacheService) { }
+
+    async check(): Promise<HealthDetails> {
+        await this.cache.ping();
+
+        return { driver: this.cache.getDriver().name };
+    }
+}
@@ -25,13 +25,36 @@ export type { ControllerOptions } from './metadata';
 
 // Decorators - HTTP Methods
 export { Get, Post, Put, Delete, Patch, Head, Options } from './decorators/methods';
+export type { RouteOptions } from './decorators/methods';
 
 // Decorators - Parameters
-export { Param, Query, Body, Header, Req, Ctx, Locals } from './decorators/params';
+export { Param, Query, Body, Header, Req, Ctx, Locals, Session, UploadedFile, UploadedFiles } from './decorators/params';
+export type { UploadOptions } from './upload/UploadRules';
 
 // Decorators - Middleware
 export { Use, Use as Middleware } from './decorators/Middleware';
 
+// Decorators - Guards
+export { UseGuards } from './decorators/UseGuards';
+export { SetMetadata } from './decorators/SetMetadata';
+
+// Guards
+export { ExecutionContext } from './context/ExecutionContext';
+export type { CanActivate, GuardType } from './guards/CanActivate';
+
+// Decorators - Exception Filters
+export { Catch } from './decorators/Catch';
+export { UseFilters } from './decorators/UseFilters';
+
+// Exception Filters
+export type { ExceptionFilter, FilterType } from './filters/ExceptionFilter';
+
+// Decorators - Interceptors
+export { UseInterceptors } from './decorators/UseInterceptors';
+
+// Interceptors
+export type { CarnoInterceptor, CallHandler, InterceptorType } from './interceptors/CarnoInterceptor';
+
 // Middleware Interface
 export type { CarnoMiddleware, CarnoClosure } from './middleware/CarnoMiddleware';
 
@@ -40,8 +63,13 @@ export { Service } from './decorators/Service';
 export { Inject } from './decorators/Inject';
 
 // Container
-export { Container, Scope } from './container/Container';
-export type { Token, ProviderConfig } from './container/Container';
+export { Container, Scope, getTokenName } from './container/Container';
+export { InjectionToken } from './container/InjectionToken';
+export type { Token, Type, ProviderConfig } from './container/Container';
+
+// Modules
+export { defineModule } from './module/defineModule';
+export type { ModuleDefinition, AsyncModuleOptions, DynamicModule } from './module/defineModule';
 
 // Router
 export { RadixRouter } from './router/RadixRouter';
@@ -57,6 +85,23 @@ export { Schema, getSchema, VALIDATION_SCHEMA } from './validation/ValidatorAdap
 export { ZodAdapter, ValidationException } from './validation/ZodAdapter';
 export { ValibotAdapter } from './validation/ValibotAdapter';
 
+// OpenAPI
+export { OpenApiGenerator } from './openapi/OpenApiGenerator';
+export type { OpenApiConfig, OpenApiDocument } from './openapi/OpenApiGenerator';
+export { ApiTags, ApiOperation, ApiResponse, ApiExclude } from './openapi/decorators';
+export type { ApiOperationOptions, ApiResponseOptions } from './openapi/decorators';
+export type { RouteDefinition, RouteDescription, ParamBinding } from './router/RouteDefinition';
+
+// Streaming
+export { Sse } from './decorators/Sse';
+export { createSseResponse, createNdjsonResponse, formatSseMessage } from './streaming/streams';
+export type { SseMessage, SseOptions } from './streaming/streams';
+
+// WebSocket
+export { WebSocketGateway, OnOpen, OnMessage, OnClose } from './websocket/decorators';
+export { WebSocketPublisher } from './websocket/WebSocketPublisher';
+export type { GatewaySocket, WebSocketData } from './websocket/WebSocketHandler';
+
 // Exceptions
 export {
     HttpException,
@@ -65,7 +110,9 @@ export {
     ForbiddenException,
     NotFoundException,
     MethodNotAllowedException,
+    NotAcceptableException,
     ConflictException,
+    UnsupportedMediaTypeException,
     UnprocessableEntityException,
     TooManyRequestsException,
     InternalServerErrorException,
@@ -79,6 +126,44 @@ export {
     OnApplicationBoot,
     OnApplicationShutdown
 } from './events/Lifecycle';
+export type { ShutdownConfig } from './events/Lifecycle';
+
+// Versioning
+export { VERSION_NEUTRAL } from './versioning/Versioning';
+export type { VersioningConfig, VersioningType, VersionValue } from './versioning/Versioning';
+
+// Configuration
+export { ConfigService, loadConfig } from './config/ConfigService';
+export type { ConfigOptions } from './config/ConfigService';
+export { parseEnv, envFilesFor } from './config/EnvLoader';
+
+// Health
+export { HealthService, DEFAULT_HEALTH_TIMEOUT } from './health/HealthService';
+export type { HealthConfig } from './health/HealthService';
+export { MemoryHealthIndicator, DiskHealthIndicator, CacheHealthIndicator } from './health/indicators';
+export type { MemoryThresholds, DiskThresholds } from './health/indicators';
+export type {
+    HealthIndicator,
+    HealthCheckType,
+    HealthCheckResult,
+    HealthDetails,
+    HealthReport
+} from './health/HealthIndicator';
+
+// Metrics
+export { MetricsRegistry, DEFAULT_METRICS_PATH, PROMETHEUS_CONTENT_TYPE } from './metrics/MetricsRegistry';
+export type { MetricsConfig } from './metrics/MetricsRegistry';
+export { Counter, Gauge, Histogram, CounterSeries, GaugeSeries, HistogramSeries, DEFAULT_BUCKETS } from './metrics/Metric';
+export type { Metric, MetricType } from './metrics/Metric';
+
+// Tracing
+export { Tracer } from './tracing/Tracer';
+export type { TracingConfig, SpanOptions } from './tracing/Tracer';
+export { Span } from './tracing/Span';
+export type { SpanContext, SpanKind, SpanStatusCode, SpanAttributes, SpanAttributeValue, SpanEvent } from './tracing/Span';
+export { OtlpHttpExporter, DEFAULT_OTLP_ENDPOINT } from './tracing/OtlpHttpExporter';
+export type { SpanExporter, OtlpHttpExporterOptions } from './tracing/OtlpHttpExporter';
+export { parseTraceparent, formatTraceparent } from './tracing/traceparent';
 
 // Cache
 export { CacheService } from './cache/CacheService';
@@ -86,10 +171,43 @@ export { MemoryDriver } from './cache/MemoryDriver';
 export { RedisDriver } from './cache/RedisDriver';
 export type { RedisConfig } from './cache/RedisDriver';
 export type { CacheDriver, CacheConfig } from './cache/CacheDriver';
+export { ResponseCache } from './cache/ResponseCache';
+export type { CacheResponseOptions, CacheTags } from './cache/ResponseCache';
+export { CacheResponse, InvalidateCache } from './decorators/CacheResponse';
+
+// Rate Limiting
+export { RateLimiter } from './rate-limit/RateLimiter';
+export type { RateLimitOptions, RateLimitAlgorithm, RateLimitKey, RateLimitResult } from './rate-limit/RateLimiter';
+export { RateLimit, SkipRateLimit } from './decorators/RateLimit';
+
+// Content Negotiation
+export { ContentNegotiator } from './negotiation/ContentNegotiator';
+export type { NegotiationConfig } from './negotiation/ContentNegotiator';
+export { JsonParser, FormParser, MessagePackParser, CsvParser, TextParser, BinaryParser } from './negotiation/BodyParser';
+export type { BodyParser } from './negotiation/BodyParser';
+export { JsonSerializer, MessagePackSerializer, CsvSerializer, XmlSerializer } from './negotiation/ResponseSerializer';
+export type { ResponseSerializer } from './negotiation/ResponseSerializer';
+export { encodeMessagePack, decodeMessagePack } from './negotiation/formats/MessagePack';
+export { toCsv, parseCsv } from './negotiation/formats/Csv';
+export { toXml } from './negotiation/formats/Xml';
+export { Produces, Consumes } from './decorators/Negotiation';
+
+// Cookies
+export { Cookies, parseCookies, serializeCookie } from './cookies/Cookies';
+export { CookieSigner } from './cookies/CookieSigner';
+export type { CookieOptions, CookieConfig } from './cookies/Cookies';
+
+// Sessions
+export { HttpSession } from './session/HttpSession';
+export { CookieSessionStore } from './session/CookieSessionStore';
+export { CacheSessionStore } from './session/CacheSessionStore';
+export type { SessionStore, SessionRecord } from './session/SessionStore';
+export type { SessionConfig } from './session/SessionMiddleware';
 
 // Testing
 export { createTestHarness, withTestApp } from './testing/TestHarness';
 export type { TestHarness, TestOptions } from './testing/TestHarness';
+export { TestClient, TestRequest } from './testing/TestClient';
 
 // Utils
 export { Metadata, isObject, isString } from './utils/Metadata';
@@ -0,0 +1,21 @@
+import type { ExecutionContext } from '../context/ExecutionContext';
+
+/**
+ * Calls the next interceptor (or the route handler) and resolves with its raw return value.
+ */
+export type CallHandler<T = any> = () => Promise<T>;
+
+/**
+ * Interface for interceptors.
+ * Interceptors wrap the route handler and work on its return value,
+ * before it is turned into a Response.
+ * Skip next() to short-circuit with your own value (e.g. a cached result).
+ */
+export interface CarnoInterceptor<T = any, R = any> {
+    intercept(context: ExecutionContext, next: CallHandler<T>): R | Promise<R>;
+}
+
+/**
+ * An interceptor class (resolved through the Container) or an interceptor instance.
+ */
+export type InterceptorType = (new (...args: any[]) => CarnoInterceptor) | CarnoInterceptor;
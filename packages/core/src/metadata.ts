@@ -1,4 +1,8 @@
-import { Scope } from './container/Container';
+import type { Scope } from './container/Container';
+import type { GuardType } from './guards/CanActivate';
+import type { FilterType } from './filters/ExceptionFilter';
+import type { InterceptorType } from './interceptors/CarnoInterceptor';
+import type { VersionValue } from './versioning/Versioning';
 
 /**
  * Controller options for the @Controller decorator.
@@ -7,6 +11,8 @@ export interface ControllerOptions {
     path?: string;
     scope?: Scope;
     children?: any[];
+    /** Version(s) of every route in the controller - needs `versioning` on Carno */
+    version?: VersionValue;
 }
 
 /**
@@ -16,6 +22,7 @@ export interface ControllerMeta {
     path: string;
     scope?: Scope;
     children?: any[];
+    version?: VersionValue;
 }
 
 /**
@@ -25,6 +32,7 @@ export interface RouteInfo {
     method: 'get' | 'post' | 'put' | 'delete' | 'patch' | 'head' | 'options';
     path: string;
     handlerName: string;
+    version?: VersionValue;
 }
 
 /**
@@ -35,6 +43,47 @@ export interface MiddlewareInfo {
     target?: string;
 }
 
+/**
+ * Guard metadata.
+ */
+export interface GuardInfo {
+    guard: GuardType;
+    target?: string;
+}
+
+/**
+ * Exception filter metadata.
+ */
+export interface FilterInfo {
+    filter: FilterType;
+    target?: string;
+}
+
+/**
+ * Interceptor metadata.
+ */
+export interface InterceptorInfo {
+    interceptor: InterceptorType;
+    target?: string;
+}
+
+/**
+ * WebSocket gateway metadata stored on gateway classes.
+ */
+export interface GatewayMeta {
+    path: string;
+}
+
+/**
+ * WebSocket event handler metadata.
+ * `event` is only set for @OnMessage handlers bound to a named event.
+ */
+export interface GatewayHandlerInfo {
+    type: 'open' | 'message' | 'close';
+    handlerName: string;
+    event?: string;
+}
+
 /**
  * Metadata keys.
  */
@@ -42,5 +91,17 @@ export const CONTROLLER_META = Symbol('turbo:controller');
 export const ROUTES_META = Symbol('turbo:routes');
 export const PARAMS_META = Symbol('turbo:params');
 export const MIDDLEWARE_META = Symbol('turbo:middleware');
+export const GUARDS_META = Symbol('turbo:guards');
+export const FILTERS_META = Symbol('turbo:filters');
+export const CATCH_META = Symbol('turbo:catch');
+export const INTERCEPTORS_META = Symbol('turbo:interceptors');
 export const SERVICE_META = Symbol('turbo:service');
 export const INJECT_META = Symbol('turbo:inject');
+export const GATEWAY_META = Symbol('turbo:gateway');
+export const GATEWAY_HANDLERS_META = Symbol('turbo:gateway-handlers');
+export const SSE_META = Symbol('turbo:sse');
+export const CACHE_RESPONSE_META = Symbol('turbo:cache-response');
+export const CACHE_INVALIDATE_META = Symbol('turbo:cache-invalidate');
+export const RATE_LIMIT_META = Symbol('turbo:rate-limit');
+export const PRODUCES_META = Symbol('turbo:produces');
+export const CONSUMES_META = Symbol('turbo:consumes');
@@ -0,0 +1,83 @@
+import type { CounterSeries, Counter, Histogram } from './Metric';
+import type { MetricsRegistry } from './MetricsRegistry';
+
+/**
+ * Per-route request count and latency, recorded around compiled route handlers.
+ *
+ * Routes are labelled with their pattern (`/users/:id`), never the raw URL,
+ * to keep the number of series bounded.
+ */
+export class HttpMetrics {
+    private readonly requests: Counter;
+    private readonly duration: Histogram;
+
+    constructor(registry: MetricsRegistry, buckets?: number[]) {
+        this.requests = registry.counter('http_requests_total', 'HTTP requests by route and status', ['method', 'route', 'status']);
+        this.duration = registry.histogram('http_request_duration_seconds', 'HTTP request latency by route', ['method', 'route'], buckets);
+    }
+
+    /**
+     * Wrap a route handler. `statusOf` maps a thrown error to the status it is answered with.
+     */
+    instrument(
+        handler: Response | Function,
+        method: string,
+        route: string,
+        statusOf: (error: unknown) => number
+    ): (req: Request, server: any) => any {
+        const duration = this.duration.labels(method, route);
+        const statuses = new Map<number, CounterSeries>();
+
+        const record = (start: number, status: number) => {
+            duration.observe((performance.now() - start) / 1000);
+
+            let series = statuses.get(status);
+
+            if (!series) {
+                series = this.requests.labels(method, route, String(status));
+                statuses.set(status, series);
+            }
+
+            series.inc();
+        };
+
+        if (handler instanceof Response) {
+            return () => {
+                record(performance.now(), handler.status);
+                return handler.clone();
+            };
+        }
+
+        // WebSocket upgrades return nothing
+        const statusOfResult = (result: any) => result instanceof Response ? result.status : 101;
+
+        return (req: Request, server: any) => {
+            const start = performance.now();
+            let result: any;
+
+            try {
+                result = handler(req, server);
+            } catch (error) {
+                record(start, statusOf(error));
+                throw error;
+            }
+
+            if (result instanceof Promise) {
+                return result.then(
+                    (response: any) => {
+                        record(start, statusOfResult(response));
+                        return response;
+                    },
+                    (error: unknown) => {
+                        record(start, statusOf(error));
+                        throw error;
+                    }
+                );
+            }
+
+            record(start, statusOfResult(result));
+
+            return result;
+        };
+    }
+}
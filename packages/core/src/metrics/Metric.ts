@@ -0,0 +1,198 @@
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Latency buckets in seconds, from 5ms to 10s.
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * A named metric with one series per combination of label values.
+ *
+ * Resolve a series once with `labels()` and keep it: updating it is a plain
+ * field write, cheap enough for the request hot path.
+ */
+export abstract class Metric<S> {
+    abstract readonly type: MetricType;
+    protected series = new Map<string, { values: string[]; series: S }>();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        readonly labelNames: string[] = []
+    ) { }
+
+    /**
+     * Series of these label values, in `labelNames` order.
+     */
+    labels(...values: string[]): S {
+        const key = values.join('\u0000');
+        let entry = this.series.get(key);
+
+        if (!entry) {
+            if (values.length !== this.labelNames.length) {
+                throw new Error(`Metric ${this.name} expects labels (${this.labelNames.join(', ')}), got ${values.length} values`);
+            }
+
+            entry = { values, series: this.createSeries() };
+            this.series.set(key, entry);
+        }
+
+        return entry.series;
+    }
+
+    reset(): void {
+        this.series.clear();
+    }
+
+    /**
+     * Prometheus text exposition of every series.
+     */
+    render(): string {
+        const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+
+        for (const { values, series } of this.series.values()) {
+            this.renderSeries(lines, this.formatLabels(values), series);
+        }
+
+        return lines.join('\n');
+    }
+
+    protected abstract createSeries(): S;
+
+    protected abstract renderSeries(lines: string[], labels: string[], series: S): void;
+
+    protected formatLabels(values: string[]): string[] {
+        return this.labelNames.map((name, i) => `${name}="${escapeLabel(values[i])}"`);
+    }
+}
+
+export class CounterSeries {
+    value = 0;
+
+    inc(amount: number = 1): void {
+        this.value += amount;
+    }
+}
+
+export class Counter extends Metric<CounterSeries> {
+    readonly type = 'counter';
+
+    inc(...values: string[]): void {
+        this.labels(...values).inc();
+    }
+
+    protected createSeries(): CounterSeries {
+        return new CounterSeries();
+    }
+
+    protected renderSeries(lines: string[], labels: string[], series: CounterSeries): void {
+        lines.push(`${this.name}${wrap(labels)} ${formatNumber(series.value)}`);
+    }
+}
+
+export class GaugeSeries {
+    value = 0;
+
+    set(value: number): void {
+        this.value = value;
+    }
+
+    inc(amount: number = 1): void {
+        this.value += amount;
+    }
+
+    dec(amount: number = 1): void {
+        this.value -= amount;
+    }
+}
+
+export class Gauge extends Metric<GaugeSeries> {
+    readonly type = 'gauge';
+
+    set(value: number, ...values: string[]): void {
+        this.labels(...values).set(value);
+    }
+
+    protected createSeries(): GaugeSeries {
+        return new GaugeSeries();
+    }
+
+    protected renderSeries(lines: string[], labels: string[], series: GaugeSeries): void {
+        lines.push(`${this.name}${wrap(labels)} ${formatNumber(series.value)}`);
+    }
+}
+
+export class HistogramSeries {
+    /** Observations per bucket (not cumulative), the last one being +Inf */
+    readonly counts: number[];
+    sum = 0;
+    count = 0;
+
+    constructor(private readonly buckets: number[]) {
+        this.counts = new Array(buckets.length + 1).fill(0);
+    }
+
+    observe(value: number): void {
+        let i = 0;
+
+        while (i < this.buckets.length && value > this.buckets[i]) {
+            i++;
+        }
+
+        this.counts[i]++;
+        this.sum += value;
+        this.count++;
+    }
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+    readonly type = 'histogram';
+    readonly buckets: number[];
+
+    constructor(name: string, help: string, labelNames: string[] = [], buckets: number[] = DEFAULT_BUCKETS) {
+        super(name, help, labelNames);
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(value: number, ...values: string[]): void {
+        this.labels(...values).observe(value);
+    }
+
+    protected createSeries(): HistogramSeries {
+        return new HistogramSeries(this.buckets);
+    }
+
+    protected renderSeries(lines: string[], labels: string[], series: HistogramSeries): void {
+        let cumulative = 0;
+
+        for (let i = 0; i <= this.buckets.length; i++) {
+            cumulative += series.counts[i];
+
+            const le = i < this.buckets.length ? formatNumber(this.buckets[i]) : '+Inf';
+            lines.push(`${this.name}_bucket${wrap([...labels, `le="${le}"`])} ${cumulative}`);
+        }
+
+        lines.push(`${this.name}_sum${wrap(labels)} ${formatNumber(series.sum)}`);
+        lines.push(`${this.name}_count${wrap(labels)} ${series.count}`);
+    }
+}
+
+function wrap(labels: string[]): string {
+    return labels.length > 0 ? `{${labels.join(',')}}` : '';
+}
+
+function formatNumber(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+
+    return String(value);
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,95 @@
+import { Counter, Gauge, Histogram, type Metric } from './Metric';
+
+export interface MetricsConfig {
+    /** Route serving the Prometheus text format (default: /metrics) */
+    path?: string;
+    /** Buckets of `http_request_duration_seconds`, in seconds */
+    buckets?: number[];
+}
+
+export const DEFAULT_METRICS_PATH = '/metrics';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Collector = () => void | Promise<void>;
+
+/**
+ * Registry of application metrics, injectable in every module.
+ *
+ * Packages declare their metrics here (HTTP routes, cache, ORM queries, queues)
+ * and the metrics route renders them in Prometheus text format. Collectors run
+ * before each scrape to refresh values read from elsewhere, such as queue depth.
+ *
+ * `enabled` is false when the application has no `metrics` option: integrations
+ * check it and skip instrumentation altogether.
+ */
+export class MetricsRegistry {
+    private metrics = new Map<string, Metric<any>>();
+    private collectors: Collector[] = [];
+
+    constructor(readonly enabled: boolean = true) { }
+
+    counter(name: string, help: string, labelNames: string[] = []): Counter {
+        return this.getOrCreate(name, Counter, () => new Counter(name, help, labelNames));
+    }
+
+    gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+        return this.getOrCreate(name, Gauge, () => new Gauge(name, help, labelNames));
+    }
+
+    histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+        return this.getOrCreate(name, Histogram, () => new Histogram(name, help, labelNames, buckets));
+    }
+
+    get(name: string): Metric<any> | undefined {
+        return this.metrics.get(name);
+    }
+
+    /**
+     * Run `collector` before every scrape. A failing collector is reported and skipped.
+     */
+    onCollect(collector: Collector): this {
+        this.collectors.push(collector);
+        return this;
+    }
+
+    /**
+     * Refresh collected values and render every metric.
+     */
+    async render(): Promise<string> {
+        const results = await Promise.allSettled(this.collectors.map(collector => collector()));
+
+        for (const result of results) {
+            if (result.status === 'rejected') {
+                console.error('Metrics collector failed:', result.reason);
+            }
+        }
+
+        if (this.metrics.size === 0) {
+            return '';
+        }
+
+        return [...this.metrics.values()].map(metric => metric.render()).join('\n\n') + '\n';
+    }
+
+    /**
+     * Declaring a metric twice returns the first one, so integrations can declare
+     * theirs without coordinating. The type must match.
+     */
+    private getOrCreate<M extends Metric<any>>(name: string, type: abstract new (...args: any[]) => M, create: () => M): M {
+        const existing = this.metrics.get(name);
+
+        if (existing) {
+            if (!(existing instanceof type)) {
+                throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+            }
+
+            return existing;
+        }
+
+        const metric = create();
+        this.metrics.set(name, metric);
+
+        return metric;
+    }
+}
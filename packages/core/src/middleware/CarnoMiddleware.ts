@@ -2,13 +2,15 @@ import type { Context } from '../context/Context';
 
 /**
  * Closure function to call the next middleware in the chain.
+ * Resolves with the response produced downstream (handler or inner middlewares).
  */
-export type CarnoClosure = () => void | Promise<void>;
+export type CarnoClosure = () => Promise<Response>;
 
 /**
  * Interface for onion-style middleware.
  * Middleware must call next() to continue the chain.
+ * Returning a Response replaces the downstream result.
  */
 export interface CarnoMiddleware {
-  handle(ctx: Context, next: CarnoClosure): void | Promise<void>;
+  handle(ctx: Context, next: CarnoClosure): void | Response | Promise<void | Response>;
 }
@@ -0,0 +1,63 @@
+import type { Context } from '../context/Context';
+import type { CarnoClosure } from './CarnoMiddleware';
+
+/**
+ * Normalized onion middleware - every middleware is resolved to this shape at compile time.
+ */
+export type OnionMiddleware = (ctx: Context, next: CarnoClosure) => Response | void | Promise<Response | void>;
+
+/**
+ * Final step of the pipeline (validation + handler + response building).
+ */
+export type PipelineTerminal = (ctx: Context) => Response | Promise<Response>;
+
+/**
+ * Built-in route stage (rate limiting, response caching) wrapped around the rest of the route.
+ */
+export type ResponseStage = (ctx: Context, next: () => Promise<Response>) => Promise<Response>;
+
+/**
+ * Composes middlewares into a single onion pipeline.
+ *
+ * Resolution rules for each middleware:
+ * - Returned Response wins (short-circuit or replacement of the downstream result)
+ * - Otherwise the downstream response from next() is used
+ * - If next() was never called, the chain stops with an empty response using ctx.status
+ */
+export function composeMiddlewares(
+    middlewares: OnionMiddleware[],
+    terminal: PipelineTerminal
+): (ctx: Context) => Promise<Response> {
+    const length = middlewares.length;
+
+    const dispatch = async (index: number, ctx: Context): Promise<Response> => {
+        if (index === length) {
+            return terminal(ctx);
+        }
+
+        let downstream: Promise<Response> | null = null;
+
+        const next: CarnoClosure = () => {
+            if (downstream) {
+                throw new Error('next() called multiple times');
+            }
+
+            downstream = dispatch(index + 1, ctx);
+            return downstream;
+        };
+
+        const result = await middlewares[index](ctx, next);
+
+        if (result instanceof Response) {
+            return result;
+        }
+
+        if (downstream) {
+            return downstream;
+        }
+
+        return new Response(null, { status: ctx.status });
+    };
+
+    return (ctx: Context) => dispatch(0, ctx);
+}
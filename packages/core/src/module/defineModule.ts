@@ -0,0 +1,75 @@
+import { Carno, type CarnoConfig } from '../Carno';
+import type { Token } from '../container/Container';
+
+/**
+ * Blueprint of a configurable module.
+ * `setup` mounts controllers and services on a fresh module; the options are
+ * registered under `options` so the module's providers can @Inject() them.
+ */
+export interface ModuleDefinition<O> {
+    name: string;
+    options: Token<O>;
+    exports?: CarnoConfig['exports'];
+    global?: boolean;
+    setup?: (module: Carno) => void;
+}
+
+/**
+ * Options resolved from other providers during bootstrap.
+ */
+export interface AsyncModuleOptions<O> {
+    useFactory: (...deps: any[]) => O | Promise<O>;
+    inject?: Token[];
+    /** Modules exporting the providers listed in `inject` */
+    imports?: Carno[];
+}
+
+export interface DynamicModule<O> {
+    /** Create the module with static options. */
+    forRoot(options: O): Carno;
+    /** Create the module with options built by a (possibly async) factory. */
+    forRootAsync(options: AsyncModuleOptions<O>): Carno;
+}
+
+/**
+ * Define a module that is configured when imported.
+ * Every forRoot()/forRootAsync() call returns a new, independent module.
+ *
+ * @example
+ * ```ts
+ * const MAILER_OPTIONS = new InjectionToken<MailerOptions>('MAILER_OPTIONS');
+ *
+ * export const MailerModule = defineModule({
+ *     name: 'MailerModule',
+ *     options: MAILER_OPTIONS,
+ *     exports: [MailerService],
+ *     setup: module => module.services(MailerService)
+ * });
+ *
+ * app.use(MailerModule.forRoot({ from: 'noreply@example.com' }));
+ * ```
+ */
+export function defineModule<O>(definition: ModuleDefinition<O>): DynamicModule<O> {
+    const create = (imports: Carno[] = []): Carno => {
+        const module = new Carno({
+            name: definition.name,
+            exports: [...(definition.exports || [])],
+            global: definition.global,
+            imports
+        });
+
+        definition.setup?.(module);
+
+        return module;
+    };
+
+    return {
+        forRoot(options: O): Carno {
+            return create().services({ token: definition.options, useValue: options });
+        },
+
+        forRootAsync({ useFactory, inject, imports }: AsyncModuleOptions<O>): Carno {
+            return create(imports).services({ token: definition.options, useFactory, inject });
+        }
+    };
+}
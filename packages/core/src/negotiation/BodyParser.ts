@@ -0,0 +1,63 @@
+import { BadRequestException } from '../exceptions/HttpException';
+import { append } from '../upload/MultipartParser';
+import { parseCsv } from './formats/Csv';
+import { decodeMessagePack } from './formats/MessagePack';
+
+/**
+ * Parses request bodies of the given media types.
+ * `multipart/form-data` is always handled by Carno (see File Uploads).
+ *
+ * @example
+ * ```typescript
+ * const yamlParser: BodyParser = {
+ *     mediaTypes: ['application/yaml'],
+ *     parse: async req => Bun.YAML.parse(await req.text())
+ * };
+ * ```
+ */
+export interface BodyParser {
+    /** Media types handled, e.g. `application/json` - `text/*` wildcards are supported */
+    mediaTypes: string[];
+    parse(req: Request): Promise<any>;
+}
+
+export const JsonParser: BodyParser = {
+    mediaTypes: ['application/json'],
+    parse: req => req.json()
+};
+
+export const FormParser: BodyParser = {
+    mediaTypes: ['application/x-www-form-urlencoded'],
+    parse: async req => {
+        const body: Record<string, any> = Object.create(null);
+
+        (await req.formData()).forEach((value, name) => append(body, name, value));
+        return body;
+    }
+};
+
+export const MessagePackParser: BodyParser = {
+    mediaTypes: ['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'],
+    parse: async req => {
+        try {
+            return decodeMessagePack(await req.arrayBuffer());
+        } catch {
+            throw new BadRequestException('Invalid MessagePack body');
+        }
+    }
+};
+
+export const CsvParser: BodyParser = {
+    mediaTypes: ['text/csv'],
+    parse: async req => parseCsv(await req.text())
+};
+
+export const TextParser: BodyParser = {
+    mediaTypes: ['text/*'],
+    parse: req => req.text()
+};
+
+export const BinaryParser: BodyParser = {
+    mediaTypes: ['application/octet-stream'],
+    parse: req => req.arrayBuffer()
+};
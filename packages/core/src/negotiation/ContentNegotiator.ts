@@ -0,0 +1,181 @@
+import { NotAcceptableException, UnsupportedMediaTypeException } from '../exceptions/HttpException';
+import {
+    BinaryParser,
+    CsvParser,
+    FormParser,
+    JsonParser,
+    MessagePackParser,
+    TextParser,
+    type BodyParser
+} from './BodyParser';
+import {
+    CsvSerializer,
+    JsonSerializer,
+    MessagePackSerializer,
+    XmlSerializer,
+    type ResponseSerializer
+} from './ResponseSerializer';
+import { matchesMediaType, mediaTypeOf, parseAccept, qualityOf } from './MediaType';
+
+export interface NegotiationConfig {
+    /** Extra parsers. A parser for a built-in media type replaces it */
+    parsers?: BodyParser[];
+    /** Extra serializers. A serializer for a built-in media type replaces it */
+    serializers?: ResponseSerializer[];
+}
+
+const DEFAULT_PARSERS = [JsonParser, FormParser, MessagePackParser, CsvParser, TextParser, BinaryParser];
+const DEFAULT_SERIALIZERS = [JsonSerializer, MessagePackSerializer, CsvSerializer, XmlSerializer];
+
+/**
+ * Registry of body parsers and response serializers, keyed by media type.
+ *
+ * Requests are parsed by their Content-Type (415 when no parser matches) and
+ * responses are serialized in the best type the `Accept` header allows
+ * (406 when none is acceptable). JSON is served when the client has no preference.
+ */
+export class ContentNegotiator {
+    readonly parsers: BodyParser[];
+    readonly serializers: ResponseSerializer[];
+
+    constructor(config: NegotiationConfig = {}) {
+        this.parsers = withOverrides(DEFAULT_PARSERS, config.parsers ?? []);
+        this.serializers = withOverrides(DEFAULT_SERIALIZERS, config.serializers ?? []);
+    }
+
+    /**
+     * Exact media types win over wildcards (`text/csv` before `text/*`).
+     */
+    findParser(mediaType: string): BodyParser | null {
+        return this.parsers.find(p => p.mediaTypes.includes(mediaType))
+            ?? this.parsers.find(p => p.mediaTypes.some(pattern => matchesMediaType(pattern, mediaType)))
+            ?? null;
+    }
+
+    async parse(req: Request): Promise<any> {
+        const mediaType = mediaTypeOf(req.headers.get('content-type'));
+
+        // No Content-Type: treat a body as opaque bytes
+        if (!mediaType) {
+            return req.body ? req.arrayBuffer() : undefined;
+        }
+
+        const parser = this.findParser(mediaType);
+
+        if (!parser) {
+            throw new UnsupportedMediaTypeException(`Unsupported media type "${mediaType}"`);
+        }
+
+        return parser.parse(req);
+    }
+
+    /**
+     * Serializers for the given media types, in that order - all of them when omitted.
+     */
+    serializersFor(mediaTypes?: string[]): ResponseSerializer[] {
+        if (!mediaTypes) {
+            return this.serializers;
+        }
+
+        return mediaTypes.map(type => {
+            const serializer = this.serializers.find(s => s.mediaTypes.includes(type.toLowerCase()));
+
+            if (!serializer) {
+                throw new Error(`No response serializer registered for "${type}"`);
+            }
+
+            return serializer;
+        });
+    }
+
+    /**
+     * Pick the serializer the client prefers. Ties go to the first offered one.
+     */
+    select(accept: string | null, offered: ResponseSerializer[]): ResponseSerializer | null {
+        if (!accept || accept === '*/*') {
+            return offered[0] ?? null;
+        }
+
+        const ranges = parseAccept(accept);
+        let selected: ResponseSerializer | null = null;
+        let best = 0;
+
+        for (const serializer of offered) {
+            for (const mediaType of serializer.mediaTypes) {
+                const quality = qualityOf(mediaType, ranges);
+
+                if (quality > best) {
+                    best = quality;
+                    selected = serializer;
+                }
+            }
+        }
+
+        return selected;
+    }
+
+    /**
+     * Throw 406 before the handler runs when nothing offered is acceptable.
+     */
+    assertAcceptable(accept: string | null, offered: ResponseSerializer[]): void {
+        if (!this.select(accept, offered)) {
+            throw notAcceptable(offered);
+        }
+    }
+
+    respond(value: any, accept: string | null, offered: ResponseSerializer[]): Response {
+        const serializer = this.select(accept, offered);
+
+        if (!serializer) {
+            throw notAcceptable(offered);
+        }
+
+        return new Response(serializer.serialize(value), {
+            headers: {
+                'Content-Type': serializer.contentType ?? serializer.mediaTypes[0],
+                'Vary': 'Accept'
+            }
+        });
+    }
+}
+
+function notAcceptable(offered: ResponseSerializer[]): NotAcceptableException {
+    return new NotAcceptableException(`Not Acceptable. Available: ${offered.map(s => s.mediaTypes[0]).join(', ')}`);
+}
+
+/**
+ * Custom entries replace the defaults sharing a media type with them; others are appended.
+ */
+function withOverrides<T extends { mediaTypes: string[] }>(defaults: T[], custom: T[]): T[] {
+    const result = [...defaults];
+
+    for (const entry of custom) {
+        const index = result.findIndex(existing => existing.mediaTypes.some(type => entry.mediaTypes.includes(type)));
+
+        if (index >= 0) {
+            result[index] = entry;
+        } else {
+            result.push(entry);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Check a request's Content-Type against a `@Consumes()` list.
+ * Requests without a body pass.
+ */
+export function assertConsumes(req: Request, mediaTypes: string[]): void {
+    const mediaType = mediaTypeOf(req.headers.get('content-type'));
+
+    if (!mediaType && !req.body) {
+        return;
+    }
+
+    if (!mediaTypes.some(pattern => matchesMediaType(pattern, mediaType))) {
+        throw new UnsupportedMediaTypeException(
+            `Unsupported media type "${mediaType || 'none'}". Expected: ${mediaTypes.join(', ')}`
+        );
+    }
+}
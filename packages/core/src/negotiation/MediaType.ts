@@ -0,0 +1,76 @@
+/**
+ * A media range of an `Accept` header.
+ */
+export interface MediaRange {
+    type: string;
+    subtype: string;
+    q: number;
+}
+
+/**
+ * `text/CSV; charset=utf-8` -> `text/csv`
+ */
+export function mediaTypeOf(header: string | null): string {
+    if (!header) return '';
+
+    const semicolon = header.indexOf(';');
+
+    return (semicolon < 0 ? header : header.slice(0, semicolon)).trim().toLowerCase();
+}
+
+export function parseAccept(header: string): MediaRange[] {
+    const ranges: MediaRange[] = [];
+
+    for (const part of header.split(',')) {
+        const [range, ...params] = part.split(';');
+        const [type, subtype] = range.trim().toLowerCase().split('/');
+
+        if (!type || !subtype) continue;
+
+        let q = 1;
+
+        for (const param of params) {
+            const [name, value] = param.split('=');
+
+            if (name.trim().toLowerCase() === 'q') {
+                q = Math.min(1, Math.max(0, Number(value) || 0));
+            }
+        }
+
+        ranges.push({ type, subtype, q });
+    }
+
+    return ranges;
+}
+
+/**
+ * Quality the client gives to a media type: the q of the most specific matching range, 0 if none.
+ */
+export function qualityOf(mediaType: string, ranges: MediaRange[]): number {
+    const [type, subtype] = mediaType.split('/');
+    let best = -1;
+    let quality = 0;
+
+    for (const range of ranges) {
+        const specificity = range.type === type && range.subtype === subtype ? 2
+            : range.type === type && range.subtype === '*' ? 1
+            : range.type === '*' && range.subtype === '*' ? 0
+            : -1;
+
+        if (specificity > best) {
+            best = specificity;
+            quality = range.q;
+        }
+    }
+
+    return quality;
+}
+
+/**
+ * Whether a media type matches a pattern such as `text/*`.
+ */
+export function matchesMediaType(pattern: string, mediaType: string): boolean {
+    return pattern.endsWith('/*')
+        ? mediaType.startsWith(pattern.slice(0, -1))
+        : pattern === mediaType;
+}
@@ -0,0 +1,46 @@
+import { toCsv } from './formats/Csv';
+import { encodeMessagePack } from './formats/MessagePack';
+import { toXml } from './formats/Xml';
+
+/**
+ * Serializes handler return values for the media types it produces.
+ * Strings, Responses, streams and `undefined` are never serialized.
+ *
+ * @example
+ * ```typescript
+ * const yamlSerializer: ResponseSerializer = {
+ *     mediaTypes: ['application/yaml'],
+ *     serialize: value => Bun.YAML.stringify(value)
+ * };
+ * ```
+ */
+export interface ResponseSerializer {
+    /** Media types produced. The first one is used as Content-Type */
+    mediaTypes: string[];
+    /** Full Content-Type header. Default: the first media type */
+    contentType?: string;
+    serialize(value: any): BodyInit;
+}
+
+export const JsonSerializer: ResponseSerializer = {
+    mediaTypes: ['application/json'],
+    contentType: 'application/json;charset=utf-8',
+    serialize: value => JSON.stringify(value)
+};
+
+export const MessagePackSerializer: ResponseSerializer = {
+    mediaTypes: ['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'],
+    serialize: value => encodeMessagePack(value)
+};
+
+export const CsvSerializer: ResponseSerializer = {
+    mediaTypes: ['text/csv'],
+    contentType: 'text/csv; charset=utf-8',
+    serialize: value => toCsv(value)
+};
+
+export const XmlSerializer: ResponseSerializer = {
+    mediaTypes: ['application/xml', 'text/xml'],
+    contentType: 'application/xml; charset=utf-8',
+    serialize: value => toXml(value)
+};
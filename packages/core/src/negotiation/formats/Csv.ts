@@ -0,0 +1,119 @@
+/**
+ * RFC 4180 CSV for tabular responses.
+ *
+ * An array of objects becomes one row per object, with a header row built from
+ * the keys in first-seen order. A single object is one row; primitives become
+ * a `value` column. Nested values are written as JSON. Text starting like a
+ * spreadsheet formula is prefixed with `'` so it is never evaluated.
+ */
+export function toCsv(value: any): string {
+    const rows: any[] = Array.isArray(value) ? value : [value];
+    const records = rows.map(row => isRecord(row) ? row : { value: row });
+    const columns: string[] = [];
+    const seen = new Set<string>();
+
+    for (const record of records) {
+        for (const key of Object.keys(record)) {
+            if (!seen.has(key)) {
+                seen.add(key);
+                columns.push(key);
+            }
+        }
+    }
+
+    const lines = [columns.map(escapeCell).join(',')];
+
+    for (const record of records) {
+        lines.push(columns.map(column => {
+            const value = record[column];
+
+            // Numbers are safe as-is - a leading minus is not a formula
+            return typeof value === 'number' ? String(value) : escapeCell(formatCell(value));
+        }).join(','));
+    }
+
+    return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV with a header row into objects of strings.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows = parseRows(text);
+    const header = rows.shift();
+
+    if (!header) {
+        return [];
+    }
+
+    return rows
+        .filter(row => row.length > 1 || row[0] !== '')
+        .map(row => Object.fromEntries(header.map((column, i) => [column, row[i] ?? ''])));
+}
+
+function parseRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    // Strip a UTF-8 BOM (spreadsheet exports)
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+function isRecord(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function formatCell(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+
+    return String(value);
+}
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string): string {
+    if (FORMULA_START.test(value)) {
+        return `"'${value.replace(/"/g, '""')}"`;
+    }
+
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,360 @@
+/**
+ * Minimal MessagePack codec (https://msgpack.org/) for response serialization.
+ *
+ * Values are encoded with JSON semantics: `toJSON()` is honored (Dates become
+ * ISO strings), `undefined` object properties are skipped and non-finite
+ * numbers become nil. Uint8Arrays are encoded as binary. The timestamp
+ * extension is decoded to Date; other extensions are rejected.
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+    private buffer = new Uint8Array(256);
+    private view = new DataView(this.buffer.buffer);
+    private length = 0;
+
+    private ensure(size: number): void {
+        if (this.length + size <= this.buffer.length) return;
+
+        let capacity = this.buffer.length * 2;
+        while (capacity < this.length + size) capacity *= 2;
+
+        const next = new Uint8Array(capacity);
+        next.set(this.buffer.subarray(0, this.length));
+        this.buffer = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    u8(value: number): void {
+        this.ensure(1);
+        this.buffer[this.length++] = value;
+    }
+
+    u16(value: number): void {
+        this.ensure(2);
+        this.view.setUint16(this.length, value);
+        this.length += 2;
+    }
+
+    u32(value: number): void {
+        this.ensure(4);
+        this.view.setUint32(this.length, value);
+        this.length += 4;
+    }
+
+    i8(value: number): void {
+        this.ensure(1);
+        this.view.setInt8(this.length, value);
+        this.length += 1;
+    }
+
+    i16(value: number): void {
+        this.ensure(2);
+        this.view.setInt16(this.length, value);
+        this.length += 2;
+    }
+
+    i32(value: number): void {
+        this.ensure(4);
+        this.view.setInt32(this.length, value);
+        this.length += 4;
+    }
+
+    u64(value: bigint): void {
+        this.ensure(8);
+        this.view.setBigUint64(this.length, value);
+        this.length += 8;
+    }
+
+    i64(value: bigint): void {
+        this.ensure(8);
+        this.view.setBigInt64(this.length, value);
+        this.length += 8;
+    }
+
+    f64(value: number): void {
+        this.ensure(8);
+        this.view.setFloat64(this.length, value);
+        this.length += 8;
+    }
+
+    bytes(value: Uint8Array): void {
+        this.ensure(value.length);
+        this.buffer.set(value, this.length);
+        this.length += value.length;
+    }
+
+    result(): Uint8Array<ArrayBuffer> {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+export function encodeMessagePack(value: any): Uint8Array<ArrayBuffer> {
+    const writer = new Writer();
+    encodeValue(writer, value);
+    return writer.result();
+}
+
+function encodeValue(w: Writer, value: any): void {
+    if (value === null || value === undefined) {
+        w.u8(0xc0);
+        return;
+    }
+
+    switch (typeof value) {
+        case 'boolean':
+            w.u8(value ? 0xc3 : 0xc2);
+            return;
+        case 'number':
+            encodeNumber(w, value);
+            return;
+        case 'bigint':
+            encodeBigInt(w, value);
+            return;
+        case 'string':
+            encodeString(w, value);
+            return;
+        case 'function':
+        case 'symbol':
+            w.u8(0xc0);
+            return;
+    }
+
+    if (value instanceof Uint8Array) {
+        encodeBinary(w, value);
+        return;
+    }
+
+    if (typeof value.toJSON === 'function') {
+        encodeValue(w, value.toJSON());
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        encodeLength(w, value.length, 0x90, 0xdc, 0xdd, 15);
+        for (const item of value) encodeValue(w, item);
+        return;
+    }
+
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined && typeof v !== 'function');
+    encodeLength(w, entries.length, 0x80, 0xde, 0xdf, 15);
+
+    for (const [key, item] of entries) {
+        encodeString(w, key);
+        encodeValue(w, item);
+    }
+}
+
+function encodeNumber(w: Writer, value: number): void {
+    if (!Number.isFinite(value)) {
+        w.u8(0xc0);
+        return;
+    }
+
+    if (!Number.isInteger(value) || !Number.isSafeInteger(value)) {
+        w.u8(0xcb);
+        w.f64(value);
+        return;
+    }
+
+    if (value >= 0) {
+        if (value < 0x80) w.u8(value);
+        else if (value < 0x100) { w.u8(0xcc); w.u8(value); }
+        else if (value < 0x10000) { w.u8(0xcd); w.u16(value); }
+        else if (value < 0x100000000) { w.u8(0xce); w.u32(value); }
+        else { w.u8(0xcf); w.u64(BigInt(value)); }
+        return;
+    }
+
+    if (value >= -0x20) w.u8(value & 0xff);
+    else if (value >= -0x80) { w.u8(0xd0); w.i8(value); }
+    else if (value >= -0x8000) { w.u8(0xd1); w.i16(value); }
+    else if (value >= -0x80000000) { w.u8(0xd2); w.i32(value); }
+    else { w.u8(0xd3); w.i64(BigInt(value)); }
+}
+
+function encodeBigInt(w: Writer, value: bigint): void {
+    if (value >= 0n) {
+        w.u8(0xcf);
+        w.u64(value);
+    } else {
+        w.u8(0xd3);
+        w.i64(value);
+    }
+}
+
+function encodeString(w: Writer, value: string): void {
+    const bytes = textEncoder.encode(value);
+
+    if (bytes.length < 32) w.u8(0xa0 | bytes.length);
+    else if (bytes.length < 0x100) { w.u8(0xd9); w.u8(bytes.length); }
+    else if (bytes.length < 0x10000) { w.u8(0xda); w.u16(bytes.length); }
+    else { w.u8(0xdb); w.u32(bytes.length); }
+
+    w.bytes(bytes);
+}
+
+function encodeBinary(w: Writer, value: Uint8Array): void {
+    if (value.length < 0x100) { w.u8(0xc4); w.u8(value.length); }
+    else if (value.length < 0x10000) { w.u8(0xc5); w.u16(value.length); }
+    else { w.u8(0xc6); w.u32(value.length); }
+
+    w.bytes(value);
+}
+
+function encodeLength(w: Writer, length: number, fix: number, c16: number, c32: number, fixMax: number): void {
+    if (length <= fixMax) w.u8(fix | length);
+    else if (length < 0x10000) { w.u8(c16); w.u16(length); }
+    else { w.u8(c32); w.u32(length); }
+}
+
+export function decodeMessagePack(input: ArrayBuffer | Uint8Array): any {
+    const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+    const reader = new Reader(bytes);
+    const value = reader.value();
+
+    if (reader.offset !== bytes.length) {
+        throw new Error('Invalid MessagePack: trailing bytes');
+    }
+
+    return value;
+}
+
+class Reader {
+    offset = 0;
+    private readonly view: DataView;
+
+    constructor(private readonly bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    private take(size: number): number {
+        const start = this.offset;
+
+        if (start + size > this.bytes.length) {
+            throw new Error('Invalid MessagePack: unexpected end of input');
+        }
+
+        this.offset += size;
+        return start;
+    }
+
+    private u8(): number { return this.view.getUint8(this.take(1)); }
+    private u16(): number { return this.view.getUint16(this.take(2)); }
+    private u32(): number { return this.view.getUint32(this.take(4)); }
+
+    private str(length: number): string {
+        const start = this.take(length);
+        return textDecoder.decode(this.bytes.subarray(start, start + length));
+    }
+
+    private bin(length: number): Uint8Array {
+        const start = this.take(length);
+        return this.bytes.slice(start, start + length);
+    }
+
+    private array(length: number): any[] {
+        const result = new Array(length);
+        for (let i = 0; i < length; i++) result[i] = this.value();
+        return result;
+    }
+
+    private map(length: number): Record<string, any> {
+        const result: Record<string, any> = {};
+
+        for (let i = 0; i < length; i++) {
+            const key = String(this.value());
+            const value = this.value();
+
+            // Assigning `__proto__` would replace the prototype of the decoded body
+            if (key === '__proto__') {
+                Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+            } else {
+                result[key] = value;
+            }
+        }
+
+        return result;
+    }
+
+    private ext(length: number): any {
+        const type = this.view.getInt8(this.take(1));
+
+        // Timestamp extension
+        if (type === -1) {
+            if (length === 4) return new Date(this.u32() * 1000);
+
+            if (length === 8) {
+                const high = this.u32();
+                const low = this.u32();
+                const seconds = (high & 0x3) * 0x100000000 + low;
+                return new Date(seconds * 1000 + (high >>> 2) / 1e6);
+            }
+
+            if (length === 12) {
+                const nanoseconds = this.u32();
+                const seconds = Number(this.view.getBigInt64(this.take(8)));
+                return new Date(seconds * 1000 + nanoseconds / 1e6);
+            }
+        }
+
+        throw new Error(`Invalid MessagePack: unsupported extension type ${type}`);
+    }
+
+    value(): any {
+        const byte = this.u8();
+
+        if (byte < 0x80) return byte;
+        if (byte < 0x90) return this.map(byte & 0x0f);
+        if (byte < 0xa0) return this.array(byte & 0x0f);
+        if (byte < 0xc0) return this.str(byte & 0x1f);
+        if (byte >= 0xe0) return byte - 0x100;
+
+        switch (byte) {
+            case 0xc0: return null;
+            case 0xc2: return false;
+            case 0xc3: return true;
+            case 0xc4: return this.bin(this.u8());
+            case 0xc5: return this.bin(this.u16());
+            case 0xc6: return this.bin(this.u32());
+            case 0xc7: return this.ext(this.u8());
+            case 0xc8: return this.ext(this.u16());
+            case 0xc9: return this.ext(this.u32());
+            case 0xca: return this.view.getFloat32(this.take(4));
+            case 0xcb: return this.view.getFloat64(this.take(8));
+            case 0xcc: return this.u8();
+            case 0xcd: return this.u16();
+            case 0xce: return this.u32();
+            case 0xcf: return toNumber(this.view.getBigUint64(this.take(8)));
+            case 0xd0: return this.view.getInt8(this.take(1));
+            case 0xd1: return this.view.getInt16(this.take(2));
+            case 0xd2: return this.view.getInt32(this.take(4));
+            case 0xd3: return toNumber(this.view.getBigInt64(this.take(8)));
+            case 0xd4: return this.ext(1);
+            case 0xd5: return this.ext(2);
+            case 0xd6: return this.ext(4);
+            case 0xd7: return this.ext(8);
+            case 0xd8: return this.ext(16);
+            case 0xd9: return this.str(this.u8());
+            case 0xda: return this.str(this.u16());
+            case 0xdb: return this.str(this.u32());
+            case 0xdc: return this.array(this.u16());
+            case 0xdd: return this.array(this.u32());
+            case 0xde: return this.map(this.u16());
+            case 0xdf: return this.map(this.u32());
+        }
+
+        throw new Error(`Invalid MessagePack: unknown type byte 0x${byte.toString(16)}`);
+    }
+}
+
+/**
+ * 64-bit integers outside the safe range stay BigInt.
+ */
+function toNumber(value: bigint): number | bigint {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+        ? Number(value)
+        : value;
+}
@@ -0,0 +1,55 @@
+/**
+ * Serialize a value as XML under a root element.
+ *
+ * Object keys become elements (invalid characters replaced with `_`), array
+ * items are repeated `<item>` elements, and nulls are empty elements.
+ */
+export function toXml(value: any, root: string = 'response'): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>${element(root, value)}`;
+}
+
+function element(name: string, value: any): string {
+    const tag = elementName(name);
+
+    if (value === null || value === undefined) {
+        return `<${tag}/>`;
+    }
+
+    if (value instanceof Date) {
+        return `<${tag}>${value.toISOString()}</${tag}>`;
+    }
+
+    if (typeof value === 'object' && typeof value.toJSON === 'function') {
+        return element(name, value.toJSON());
+    }
+
+    if (Array.isArray(value)) {
+        return `<${tag}>${value.map(item => element('item', item)).join('')}</${tag}>`;
+    }
+
+    if (typeof value === 'object') {
+        const children = Object.entries(value)
+            .filter(([, child]) => child !== undefined && typeof child !== 'function')
+            .map(([key, child]) => element(key, child))
+            .join('');
+
+        return `<${tag}>${children}</${tag}>`;
+    }
+
+    return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+function elementName(name: string): string {
+    const sanitized = name.replace(/[^A-Za-z0-9_.-]/g, '_');
+
+    return /^[A-Za-z_]/.test(sanitized) && !/^xml/i.test(sanitized) ? sanitized : `_${sanitized}`;
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
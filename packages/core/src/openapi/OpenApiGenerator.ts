@@ -0,0 +1,307 @@
+import type { ValidatorAdapter } from '../validation/ValidatorAdapter';
+import type { RouteDefinition } from '../router/RouteDefinition';
+import type { ParamMetadata } from '../decorators/params';
+import { API_EXCLUDE, API_OPERATION, API_RESPONSES, API_TAGS } from './decorators';
+import type { ApiOperationOptions, ApiResponseInfo } from './decorators';
+
+/**
+ * OpenAPI configuration.
+ */
+export interface OpenApiConfig {
+    /** Route serving the JSON document (default: /openapi.json) */
+    path?: string;
+    info?: {
+        title: string;
+        version: string;
+        description?: string;
+    };
+    servers?: { url: string; description?: string }[];
+}
+
+export type OpenApiDocument = Record<string, any>;
+
+export const DEFAULT_OPENAPI_PATH = '/openapi.json';
+
+type JsonSchema = Record<string, any>;
+
+const PARAM_LOCATIONS: Partial<Record<ParamMetadata['type'], string>> = {
+    param: 'path',
+    query: 'query',
+    header: 'header'
+};
+
+/**
+ * Generates an OpenAPI 3.1 document from compiled routes.
+ *
+ * - Paths and methods come from the route table
+ * - Parameters come from @Param/@Query/@Header bindings
+ * - Schemas come from @Schema DTOs, converted by the ValidatorAdapter
+ */
+export class OpenApiGenerator {
+    private schemas: Record<string, JsonSchema> = {};
+
+    constructor(
+        private readonly config: OpenApiConfig,
+        private readonly validator: ValidatorAdapter | null
+    ) { }
+
+    generate(routes: RouteDefinition[]): OpenApiDocument {
+        this.schemas = {};
+        const paths: Record<string, Record<string, any>> = {};
+
+        for (const route of routes) {
+            if (this.isExcluded(route)) {
+                continue;
+            }
+
+            const path = this.toOpenApiPath(route.path);
+
+            paths[path] ??= {};
+            paths[path][route.method.toLowerCase()] = this.buildOperation(route);
+        }
+
+        const document: OpenApiDocument = {
+            openapi: '3.1.0',
+            info: this.config.info ?? { title: 'Carno API', version: '1.0.0' },
+            paths
+        };
+
+        if (this.config.servers) {
+            document.servers = this.config.servers;
+        }
+
+        if (Object.keys(this.schemas).length > 0) {
+            document.components = { schemas: this.schemas };
+        }
+
+        return document;
+    }
+
+    private isExcluded(route: RouteDefinition): boolean {
+        return !!(Reflect.getMetadata(API_EXCLUDE, route.controller)
+            || Reflect.getMetadata(API_EXCLUDE, route.controller, route.handlerName));
+    }
+
+    private buildOperation(route: RouteDefinition): Record<string, any> {
+        const { controller, handlerName } = route;
+        const options: ApiOperationOptions = Reflect.getMetadata(API_OPERATION, controller, handlerName) || {};
+        const tags: string[] = [
+            ...(Reflect.getMetadata(API_TAGS, controller) || []),
+            ...(Reflect.getMetadata(API_TAGS, controller, handlerName) || [])
+        ];
+
+        const operation: Record<string, any> = {
+            operationId: options.operationId ?? `${controller.name}_${handlerName}`
+        };
+
+        if (options.summary) operation.summary = options.summary;
+        if (options.description) operation.description = options.description;
+        if (options.deprecated) operation.deprecated = true;
+        if (tags.length > 0) operation.tags = [...new Set(tags)];
+
+        const parameters = this.buildParameters(route);
+        if (parameters.length > 0) operation.parameters = parameters;
+
+        const requestBody = this.buildRequestBody(route);
+        if (requestBody) operation.requestBody = requestBody;
+
+        operation.responses = this.buildResponses(route);
+
+        return operation;
+    }
+
+    private buildParameters(route: RouteDefinition): Record<string, any>[] {
+        const parameters: Record<string, any>[] = [];
+        const seen = new Set<string>();
+
+        const add = (location: string, name: string, schema: JsonSchema, required: boolean) => {
+            const id = `${location}:${name}`;
+
+            if (seen.has(id)) return;
+            seen.add(id);
+
+            parameters.push({ name, in: location, required: location === 'path' || required, schema });
+        };
+
+        const params = [...route.params].sort((a, b) => a.index - b.index);
+
+        for (const param of params) {
+            const location = PARAM_LOCATIONS[param.type];
+
+            if (!location) continue;
+
+            if (param.key) {
+                add(location, param.key, this.primitiveSchema(route.paramTypes[param.index]), false);
+                continue;
+            }
+
+            // Whole-object binding - expand the DTO schema properties
+            const schema = this.dtoSchema(route.paramTypes[param.index]);
+            const required: string[] = schema?.required || [];
+
+            for (const [name, property] of Object.entries<JsonSchema>(schema?.properties || {})) {
+                add(location, name, property, required.includes(name));
+            }
+        }
+
+        // Every templated path segment must be declared
+        for (const name of this.pathParamNames(route.path)) {
+            add('path', name, { type: 'string' }, true);
+        }
+
+        return parameters;
+    }
+
+    private buildRequestBody(route: RouteDefinition): Record<string, any> | null {
+        const bodyParams = route.params.filter(p => p.type === 'body');
+        const fileParams = route.params.filter(p => p.type === 'file' || p.type === 'files');
+
+        if (fileParams.length > 0) {
+            return this.buildMultipartBody(route, bodyParams, fileParams);
+        }
+
+        if (bodyParams.length === 0) {
+            return null;
+        }
+
+        const whole = bodyParams.find(p => !p.key);
+        let schema: JsonSchema;
+
+        if (whole) {
+            schema = this.schemaRef(route.paramTypes[whole.index]) ?? { type: 'object' };
+        } else {
+            const properties: Record<string, JsonSchema> = {};
+
+            for (const param of bodyParams) {
+                properties[param.key!] = this.primitiveSchema(route.paramTypes[param.index]);
+            }
+
+            schema = { type: 'object', properties };
+        }
+
+        return {
+            required: true,
+            content: { 'application/json': { schema } }
+        };
+    }
+
+    private buildMultipartBody(
+        route: RouteDefinition,
+        bodyParams: ParamMetadata[],
+        fileParams: ParamMetadata[]
+    ): Record<string, any> {
+        const binary: JsonSchema = { type: 'string', format: 'binary' };
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+
+        for (const param of bodyParams.filter(p => p.key)) {
+            properties[param.key!] = this.primitiveSchema(route.paramTypes[param.index]);
+        }
+
+        for (const param of fileParams) {
+            const name = param.key ?? 'files';
+
+            properties[name] = param.type === 'file' ? binary : { type: 'array', items: binary };
+
+            if (param.options?.required) {
+                required.push(name);
+            }
+        }
+
+        const schema: JsonSchema = { type: 'object', properties };
+
+        if (required.length > 0) {
+            schema.required = required;
+        }
+
+        return {
+            required: true,
+            content: { 'multipart/form-data': { schema } }
+        };
+    }
+
+    private buildResponses(route: RouteDefinition): Record<string, any> {
+        const declared: ApiResponseInfo[] = [
+            ...(Reflect.getMetadata(API_RESPONSES, route.controller) || []),
+            ...(Reflect.getMetadata(API_RESPONSES, route.controller, route.handlerName) || [])
+        ];
+
+        if (declared.length === 0) {
+            return { '200': { description: 'OK' } };
+        }
+
+        const responses: Record<string, any> = {};
+
+        for (const info of declared) {
+            const response: Record<string, any> = { description: info.description ?? '' };
+
+            if (info.type) {
+                const itemSchema = this.schemaRef(info.type) ?? info.type;
+                const schema = info.isArray ? { type: 'array', items: itemSchema } : itemSchema;
+
+                response.content = { [info.contentType ?? 'application/json']: { schema } };
+            }
+
+            responses[String(info.status)] = response;
+        }
+
+        return responses;
+    }
+
+    /**
+     * Register a DTO schema under components and return a $ref to it.
+     */
+    private schemaRef(type: any): JsonSchema | null {
+        if (typeof type !== 'function') {
+            return null;
+        }
+
+        const schema = this.dtoSchema(type);
+
+        if (!schema) {
+            return null;
+        }
+
+        this.schemas[type.name] = schema;
+
+        return { $ref: `#/components/schemas/${type.name}` };
+    }
+
+    private dtoSchema(type: any): JsonSchema | null {
+        if (!type || !this.validator?.toJsonSchema || !this.validator.hasValidation(type)) {
+            return null;
+        }
+
+        const schema = this.validator.toJsonSchema(type);
+
+        if (!schema) {
+            return null;
+        }
+
+        const { $schema, ...rest } = schema;
+
+        return rest;
+    }
+
+    private primitiveSchema(type: any): JsonSchema {
+        if (type === Number) return { type: 'number' };
+        if (type === Boolean) return { type: 'boolean' };
+        if (type === Array) return { type: 'array' };
+
+        return this.schemaRef(type) ?? { type: 'string' };
+    }
+
+    private pathParamNames(path: string): string[] {
+        return path
+            .split('/')
+            .filter(segment => segment.startsWith(':'))
+            .map(segment => segment.slice(1));
+    }
+
+    private toOpenApiPath(path: string): string {
+        return path
+            .split('/')
+            .map(segment => segment.startsWith(':') ? `{${segment.slice(1)}}` : segment)
+            .join('/');
+    }
+}
@@ -0,0 +1,72 @@
+/**
+ * OpenAPI metadata keys.
+ */
+export const API_TAGS = Symbol('turbo:openapi:tags');
+export const API_OPERATION = Symbol('turbo:openapi:operation');
+export const API_RESPONSES = Symbol('turbo:openapi:responses');
+export const API_EXCLUDE = Symbol('turbo:openapi:exclude');
+
+export interface ApiOperationOptions {
+    summary?: string;
+    description?: string;
+    operationId?: string;
+    deprecated?: boolean;
+}
+
+export interface ApiResponseOptions {
+    description?: string;
+    /** DTO class with @Schema, or a raw JSON schema */
+    type?: any;
+    isArray?: boolean;
+    contentType?: string;
+}
+
+export interface ApiResponseInfo extends ApiResponseOptions {
+    status: number;
+}
+
+function defineMeta(key: symbol, target: any, propertyKey: string | undefined, update: (existing: any) => any): void {
+    const metaTarget = propertyKey !== undefined ? target.constructor : target;
+    const existing = Reflect.getMetadata(key, metaTarget, propertyKey as string);
+
+    Reflect.defineMetadata(key, update(existing), metaTarget, propertyKey as string);
+}
+
+/**
+ * Group operations under tags. Can be applied to controllers or methods.
+ */
+export function ApiTags(...tags: string[]): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string) {
+        defineMeta(API_TAGS, target, propertyKey, (existing: string[] = []) => [...existing, ...tags]);
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Describe an operation (summary, description, operationId).
+ */
+export function ApiOperation(options: ApiOperationOptions): MethodDecorator {
+    return function (target: any, propertyKey: string | symbol) {
+        defineMeta(API_OPERATION, target, String(propertyKey), () => options);
+    } as MethodDecorator;
+}
+
+/**
+ * Document a response. Can be applied to controllers (shared responses) or methods.
+ */
+export function ApiResponse(status: number, options: ApiResponseOptions = {}): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string) {
+        defineMeta(API_RESPONSES, target, propertyKey, (existing: ApiResponseInfo[] = []) => [
+            ...existing,
+            { status, ...options }
+        ]);
+    } as ClassDecorator & MethodDecorator;
+}
+
+/**
+ * Hide a controller or route from the generated document.
+ */
+export function ApiExclude(): ClassDecorator & MethodDecorator {
+    return function (target: any, propertyKey?: string) {
+        defineMeta(API_EXCLUDE, target, propertyKey, () => true);
+    } as ClassDecorator & MethodDecorator;
+}
@@ -0,0 +1,231 @@
+import type { Context } from '../context/Context';
+import type { CacheService } from '../cache/CacheService';
+import { TooManyRequestsException } from '../exceptions/HttpException';
+import type { ResponseStage } from '../middleware/compose';
+
+/**
+ * - `fixed-window`: counter reset at the start of every window. Cheapest, allows bursts at window edges.
+ * - `sliding-window`: weighs the previous window's count by how much of it still overlaps "now".
+ * - `token-bucket`: bursts of up to `limit` requests, refilled at `limit` tokens per window.
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/**
+ * Who a request is counted against.
+ * - `ip`: client address
+ * - `user`: `ctx.locals.user.id` set by authentication, falling back to the IP
+ * - `api-key`: the `apiKeyHeader` header, falling back to the IP
+ */
+export type RateLimitKey = 'ip' | 'user' | 'api-key' | ((ctx: Context) => string | null | undefined);
+
+export interface RateLimitOptions {
+    /** Requests allowed per window */
+    limit: number;
+    /** Window length in seconds */
+    window: number;
+    algorithm?: RateLimitAlgorithm;
+    key?: RateLimitKey;
+    /** Header holding the API key for `key: 'api-key'`. Default: `x-api-key` */
+    apiKeyHeader?: string;
+    /** Read the client IP from `X-Forwarded-For` (only behind a trusted proxy) */
+    trustProxy?: boolean;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** Seconds until the limit resets */
+    reset: number;
+}
+
+/**
+ * Resolves the socket address of a request (`server.requestIP`).
+ */
+export type ClientIpResolver = (req: Request) => string | null | undefined;
+
+const KEY_PREFIX = 'rate-limit';
+
+/**
+ * Token bucket period: tokens taken are counted from `start`,
+ * `debt` holds the tokens still missing when the period began.
+ */
+interface TokenBucketPeriod {
+    start: number;
+    debt: number;
+}
+
+/**
+ * Request rate limiter with counters stored through CacheService,
+ * so MemoryDriver limits one instance and RedisDriver a whole cluster.
+ *
+ * @example
+ * ```typescript
+ * const result = await limiter.consume('login:' + email, { limit: 5, window: 60 });
+ *
+ * if (!result.allowed) {
+ *     throw new TooManyRequestsException();
+ * }
+ * ```
+ */
+export class RateLimiter {
+    constructor(
+        private cache: CacheService,
+        private clientIp: ClientIpResolver = () => null
+    ) {}
+
+    /**
+     * Count one hit for the key and report whether it is within the limit.
+     */
+    async consume(key: string, options: RateLimitOptions): Promise<RateLimitResult> {
+        if (options.algorithm === 'token-bucket') {
+            return this.takeToken(key, options);
+        }
+
+        const windowMs = options.window * 1000;
+        const now = Date.now();
+        const windowStart = Math.floor(now / windowMs) * windowMs;
+        const reset = Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000));
+        const counterKey = `${KEY_PREFIX}:${key}:${windowStart}`;
+
+        let count: number;
+
+        if (options.algorithm === 'sliding-window') {
+            // The current counter is read as "previous window" during the next one
+            const [current, previous] = await Promise.all([
+                this.cache.increment(counterKey, options.window * 2),
+                this.cache.get<number>(`${KEY_PREFIX}:${key}:${windowStart - windowMs}`)
+            ]);
+            const overlap = 1 - (now - windowStart) / windowMs;
+
+            count = current + Math.floor((Number(previous) || 0) * overlap);
+        } else {
+            count = await this.cache.increment(counterKey, options.window);
+        }
+
+        return {
+            allowed: count <= options.limit,
+            limit: options.limit,
+            remaining: Math.max(0, options.limit - count),
+            reset
+        };
+    }
+
+    /**
+     * Token bucket over atomic counters: each period counts the tokens taken since its start.
+     * A new period starts once the bucket is full again or the period is a window old,
+     * so counters never outlive their TTL and the bucket never holds more than `limit` tokens.
+     */
+    private async takeToken(key: string, options: RateLimitOptions): Promise<RateLimitResult> {
+        const windowMs = options.window * 1000;
+        // One token is added back every interval
+        const interval = windowMs / options.limit;
+        const now = Date.now();
+        const ttl = options.window * 2;
+        const periodKey = `${KEY_PREFIX}:${key}:bucket`;
+        const refilled = (period: TokenBucketPeriod) => Math.floor((now - period.start) / interval);
+
+        let period = await this.cache.get<TokenBucketPeriod>(periodKey);
+        let taken = period ? Number(await this.cache.get<number>(`${periodKey}:${period.start}`)) || 0 : 0;
+
+        if (!period || now - period.start >= windowMs || refilled(period) >= taken + period.debt) {
+            period = {
+                start: Math.floor(now / interval) * interval,
+                debt: period ? Math.max(0, taken + period.debt - refilled(period)) : 0
+            };
+            taken = 0;
+
+            await this.cache.set(periodKey, period, ttl);
+        }
+
+        const available = options.limit + refilled(period) - period.debt;
+        // Seconds until the next token is added
+        const reset = Math.max(1, Math.ceil((period.start + (refilled(period) + 1) * interval - now) / 1000));
+
+        // Checked before counting, so rejected requests do not use up tokens
+        if (taken >= available) {
+            return { allowed: false, limit: options.limit, remaining: 0, reset };
+        }
+
+        const count = await this.cache.increment(`${periodKey}:${period.start}`, ttl);
+
+        return {
+            allowed: count <= available,
+            limit: options.limit,
+            remaining: Math.max(0, available - count),
+            reset
+        };
+    }
+
+    /**
+     * Compile the rate limiting stage of a route. Routes sharing a scope share their counters.
+     * Rejected requests throw TooManyRequestsException with `Retry-After`;
+     * every response carries the `RateLimit-*` headers.
+     */
+    createStage(options: RateLimitOptions, scope: string): ResponseStage {
+        const resolveKey = this.createKeyResolver(options);
+        const policy = `${options.limit};w=${options.window}`;
+
+        return async (ctx: Context, next: () => Promise<Response>) => {
+            const result = await this.consume(`${scope}:${resolveKey(ctx)}`, options);
+            const headers: Record<string, string> = {
+                'RateLimit-Policy': policy,
+                'RateLimit-Limit': String(result.limit),
+                'RateLimit-Remaining': String(result.remaining),
+                'RateLimit-Reset': String(result.reset)
+            };
+
+            if (!result.allowed) {
+                throw new TooManyRequestsException('Too Many Requests', {
+                    ...headers,
+                    'Retry-After': String(result.reset)
+                });
+            }
+
+            // A copy - the response may be shared (static routes) or have immutable headers (redirects, fetch())
+            const response = await next();
+            const limited = new Response(response.body, response);
+
+            for (const name in headers) {
+                limited.headers.set(name, headers[name]);
+            }
+
+            return limited;
+        };
+    }
+
+    private createKeyResolver(options: RateLimitOptions): (ctx: Context) => string {
+        const ip = (ctx: Context) => {
+            const forwarded = options.trustProxy ? ctx.headers.get('x-forwarded-for') : null;
+
+            return forwarded?.split(',')[0].trim() || this.clientIp(ctx.req) || 'unknown';
+        };
+
+        const key = options.key ?? 'ip';
+
+        if (typeof key === 'function') {
+            return ctx => `custom:${key(ctx) ?? ip(ctx)}`;
+        }
+
+        if (key === 'user') {
+            return ctx => {
+                const id = ctx.locals.user?.id;
+
+                return id !== undefined && id !== null ? `user:${id}` : `ip:${ip(ctx)}`;
+            };
+        }
+
+        if (key === 'api-key') {
+            const header = options.apiKeyHeader ?? 'x-api-key';
+
+            return ctx => {
+                const apiKey = ctx.headers.get(header);
+
+                // Keep raw credentials out of the counter store
+                return apiKey ? `api-key:${Bun.hash(apiKey).toString(36)}` : `ip:${ip(ctx)}`;
+            };
+        }
+
+        return ctx => `ip:${ip(ctx)}`;
+    }
+}
@@ -0,0 +1,48 @@
+import type { ParamMetadata } from '../decorators/params';
+import type { VERSION_NEUTRAL } from '../versioning/Versioning';
+
+/**
+ * A controller route as compiled by Carno.
+ * Recorded at startup for introspection (OpenAPI generation, route listing).
+ */
+export interface RouteDefinition {
+    /** Uppercase HTTP method */
+    method: string;
+    /** Full normalized path, e.g. "/users/:id" */
+    path: string;
+    controller: new (...args: any[]) => any;
+    handlerName: string;
+    params: ParamMetadata[];
+    /** Parameter types from design:paramtypes (DTO classes) */
+    paramTypes: any[];
+    /** Version served, when versioning is enabled and the route has one */
+    version?: string | typeof VERSION_NEUTRAL;
+}
+
+/**
+ * A registered route as listed by `app.getRoutes()`.
+ */
+export interface RouteDescription {
+    /** Uppercase HTTP method */
+    method: string;
+    path: string;
+    /** Controller (or gateway) class name - null for routes registered with route() / addRoutes() */
+    controller: string | null;
+    /** Handler method name, or the handler function name for programmatic routes */
+    handler: string;
+    /** Middlewares run before the handler, outermost first */
+    middlewares: string[];
+    /** Where each handler argument comes from */
+    params: ParamBinding[];
+    /** Version served, when the route is versioned */
+    version?: string | typeof VERSION_NEUTRAL;
+}
+
+/**
+ * Source of one handler argument, e.g. `{ index: 0, type: 'param', key: 'id' }`.
+ */
+export interface ParamBinding {
+    index: number;
+    type: ParamMetadata['type'];
+    key?: string;
+}
@@ -0,0 +1,152 @@
+type RouteValue = Response | Function;
+type RouteEntry = Record<string, RouteValue> | RouteValue;
+
+export interface RouteMatch {
+    handler: RouteValue;
+    params: Record<string, string>;
+}
+
+interface CompiledPattern {
+    segments: string[];
+    wildcard: boolean;
+    entry: RouteEntry;
+}
+
+const EMPTY_PARAMS: Record<string, string> = Object.freeze({}) as Record<string, string>;
+
+/**
+ * In-process matcher over the same route table handed to Bun.serve.
+ *
+ * Follows Bun's precedence: exact paths, then `:param` paths, then `*` wildcards.
+ * Used by `app.inject()` to dispatch requests without opening a socket.
+ */
+export class RouteMatcher {
+    private exact = new Map<string, RouteEntry>();
+    private dynamic: CompiledPattern[] = [];
+    private wildcards: CompiledPattern[] = [];
+
+    constructor(routes: Record<string, RouteEntry>) {
+        for (const [path, entry] of Object.entries(routes)) {
+            if (path.includes('*')) {
+                this.wildcards.push(this.compile(path, entry));
+            } else if (path.includes(':')) {
+                this.dynamic.push(this.compile(path, entry));
+            } else {
+                this.exact.set(path, entry);
+            }
+        }
+
+        // Longer prefixes are more specific
+        this.wildcards.sort((a, b) => b.segments.length - a.segments.length);
+    }
+
+    match(method: string, pathname: string): RouteMatch | null {
+        const exact = this.exact.get(pathname);
+
+        if (exact) {
+            return this.select(exact, method, EMPTY_PARAMS);
+        }
+
+        const parts = pathname.split('/').slice(1);
+
+        for (const pattern of this.dynamic) {
+            const params = this.matchSegments(pattern, parts);
+
+            if (params) {
+                const found = this.select(pattern.entry, method, params);
+
+                if (found) return found;
+            }
+        }
+
+        for (const pattern of this.wildcards) {
+            const params = this.matchSegments(pattern, parts);
+
+            if (params) {
+                const found = this.select(pattern.entry, method, params);
+
+                if (found) return found;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Methods any route matching the path accepts - empty when no route matches it.
+     * Entries handling every method are skipped: a request never misses them.
+     */
+    allowedMethods(pathname: string): string[] {
+        const methods = new Set<string>();
+        const exact = this.exact.get(pathname);
+
+        if (exact) {
+            this.collectMethods(exact, methods);
+        }
+
+        const parts = pathname.split('/').slice(1);
+
+        for (const pattern of [...this.dynamic, ...this.wildcards]) {
+            if (this.matchSegments(pattern, parts)) {
+                this.collectMethods(pattern.entry, methods);
+            }
+        }
+
+        return [...methods];
+    }
+
+    private collectMethods(entry: RouteEntry, methods: Set<string>): void {
+        if (entry instanceof Response || typeof entry === 'function') {
+            return;
+        }
+
+        for (const method of Object.keys(entry)) {
+            methods.add(method);
+        }
+    }
+
+    private compile(path: string, entry: RouteEntry): CompiledPattern {
+        const segments = path.split('/').slice(1);
+        const wildcard = segments[segments.length - 1] === '*';
+
+        return {
+            segments: wildcard ? segments.slice(0, -1) : segments,
+            wildcard,
+            entry
+        };
+    }
+
+    private matchSegments(pattern: CompiledPattern, parts: string[]): Record<string, string> | null {
+        const { segments, wildcard } = pattern;
+
+        if (wildcard ? parts.length < segments.length : parts.length !== segments.length) {
+            return null;
+        }
+
+        const params: Record<string, string> = {};
+
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+
+            if (segment.charCodeAt(0) === 58 /* : */) {
+                if (!parts[i]) return null;
+
+                params[segment.slice(1)] = decodeURIComponent(parts[i]);
+            } else if (segment !== parts[i]) {
+                return null;
+            }
+        }
+
+        return params;
+    }
+
+    private select(entry: RouteEntry, method: string, params: Record<string, string>): RouteMatch | null {
+        if (entry instanceof Response || typeof entry === 'function') {
+            return { handler: entry, params };
+        }
+
+        const handler = entry[method];
+
+        return handler ? { handler, params } : null;
+    }
+}
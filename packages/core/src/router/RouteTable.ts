@@ -0,0 +1,34 @@
+import { VERSION_NEUTRAL } from '../versioning/Versioning';
+import type { RouteDescription } from './RouteDefinition';
+
+const COLUMNS = ['Method', 'Path', 'Handler', 'Middlewares'];
+
+/**
+ * Render the registered routes as an aligned text table, sorted by path then method.
+ *
+ * ```
+ * Method  Path        Handler                 Middlewares
+ * GET     /users      UsersController.list    auth
+ * POST    /users      UsersController.create  auth, audit
+ * GET     /users/:id  UsersController.find    auth
+ * ```
+ */
+export function formatRouteTable(routes: RouteDescription[]): string {
+    const rows = [...routes]
+        .sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method))
+        .map(route => [
+            route.method,
+            route.version === undefined ? route.path : `${route.path} (${describeVersion(route.version)})`,
+            route.controller ? `${route.controller}.${route.handler}` : route.handler,
+            route.middlewares.join(', ')
+        ]);
+
+    const widths = COLUMNS.map((column, i) => Math.max(column.length, ...rows.map(row => row[i].length)));
+    const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+    return [format(COLUMNS), ...rows.map(format)].join('\n');
+}
+
+function describeVersion(version: string | typeof VERSION_NEUTRAL): string {
+    return version === VERSION_NEUTRAL ? 'any version' : `v${version}`;
+}
@@ -0,0 +1,39 @@
+import type { CacheService } from '../cache/CacheService';
+import type { SessionRecord, SessionStore } from './SessionStore';
+
+/**
+ * Server-side store: session data lives in CacheService (Memory or Redis),
+ * the cookie only carries the (signed) session id. Default store.
+ */
+export class CacheSessionStore implements SessionStore {
+    constructor(
+        private readonly cache: CacheService,
+        private readonly prefix: string = 'session'
+    ) {}
+
+    async read(id: string): Promise<SessionRecord | null> {
+        const record = await this.cache.get<SessionRecord>(this.key(id));
+
+        if (!record || record.expiresAt <= Date.now()) {
+            return null;
+        }
+
+        return record;
+    }
+
+    async write(record: SessionRecord): Promise<string> {
+        const ttl = Math.max(1, Math.ceil((record.expiresAt - Date.now()) / 1000));
+
+        await this.cache.set(this.key(record.id), record, ttl);
+
+        return record.id;
+    }
+
+    async destroy(record: SessionRecord): Promise<void> {
+        await this.cache.del(this.key(record.id));
+    }
+
+    private key(id: string): string {
+        return `${this.prefix}:${id}`;
+    }
+}
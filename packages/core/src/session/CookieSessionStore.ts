@@ -0,0 +1,81 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import type { SessionRecord, SessionStore } from './SessionStore';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Stateless store: the whole session is kept in the cookie, encrypted and
+ * authenticated with AES-256-GCM. Nothing is stored server-side, so destroy()
+ * only relies on the cookie being cleared. Keep sessions small (cookies are ~4KB max).
+ *
+ * @example
+ * ```typescript
+ * new Carno({
+ *     cookies: { secret: process.env.COOKIE_SECRET },
+ *     session: { store: new CookieSessionStore({ secret: process.env.SESSION_KEY }) }
+ * });
+ * ```
+ */
+export class CookieSessionStore implements SessionStore {
+    private readonly keys: Buffer[];
+
+    /**
+     * @param options.secret Encryption secret(s). The first encrypts, all of them decrypt.
+     */
+    constructor(options: { secret: string | string[] }) {
+        const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+
+        if (secrets.length === 0 || secrets.some(s => !s)) {
+            throw new Error('CookieSessionStore needs a non-empty secret');
+        }
+
+        this.keys = secrets.map(secret => createHash('sha256').update(secret).digest());
+    }
+
+    async read(cookie: string): Promise<SessionRecord | null> {
+        const payload = Buffer.from(cookie, 'base64url');
+
+        if (payload.length <= IV_LENGTH + TAG_LENGTH) {
+            return null;
+        }
+
+        for (const key of this.keys) {
+            const record = this.decrypt(payload, key);
+
+            if (record) {
+                return record.expiresAt > Date.now() ? record : null;
+            }
+        }
+
+        return null;
+    }
+
+    async write(record: SessionRecord): Promise<string> {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv('aes-256-gcm', this.keys[0], iv);
+        const encrypted = Buffer.concat([cipher.update(JSON.stringify(record), 'utf8'), cipher.final()]);
+
+        return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+    }
+
+    async destroy(): Promise<void> {
+        // Stateless - clearing the cookie is enough
+    }
+
+    private decrypt(payload: Buffer, key: Buffer): SessionRecord | null {
+        try {
+            const decipher = createDecipheriv('aes-256-gcm', key, payload.subarray(0, IV_LENGTH));
+            decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+            const json = Buffer.concat([
+                decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)),
+                decipher.final()
+            ]).toString('utf8');
+
+            return JSON.parse(json);
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,110 @@
+import type { SessionRecord } from './SessionStore';
+
+/**
+ * The current request's session, injected with `@Session()`.
+ * Changes are saved after the handler responds.
+ *
+ * @example
+ * ```typescript
+ * @Post('/login')
+ * async login(@Body() body: LoginDto, @Session() session: HttpSession) {
+ *     const user = await this.auth.verify(body);
+ *
+ *     session.regenerate(); // new id on privilege change
+ *     session.set('userId', user.id);
+ * }
+ * ```
+ */
+export class HttpSession {
+    private dirty = false;
+    private regenerated = false;
+    private destroyed = false;
+    /** Record to remove from the store on commit (regenerate/destroy) */
+    private previous: SessionRecord | null = null;
+
+    constructor(
+        private record: SessionRecord,
+        readonly isNew: boolean
+    ) {}
+
+    get id(): string {
+        return this.record.id;
+    }
+
+    /**
+     * Epoch milliseconds.
+     */
+    get expiresAt(): number {
+        return this.record.expiresAt;
+    }
+
+    get<T = any>(key: string): T | undefined {
+        return this.record.data[key];
+    }
+
+    set(key: string, value: any): this {
+        this.record.data[key] = value;
+        this.dirty = true;
+        return this;
+    }
+
+    has(key: string): boolean {
+        return key in this.record.data;
+    }
+
+    delete(key: string): this {
+        if (key in this.record.data) {
+            delete this.record.data[key];
+            this.dirty = true;
+        }
+
+        return this;
+    }
+
+    all(): Record<string, any> {
+        return { ...this.record.data };
+    }
+
+    /**
+     * Issue a new session id, keeping the data. Call on login to prevent session fixation.
+     */
+    regenerate(): this {
+        if (!this.isNew && !this.previous) {
+            this.previous = { ...this.record };
+        }
+
+        this.record = { ...this.record, id: HttpSession.createId() };
+        this.regenerated = true;
+        this.dirty = true;
+        return this;
+    }
+
+    /**
+     * Remove the session from the store and clear the cookie.
+     */
+    destroy(): void {
+        if (!this.isNew && !this.previous) {
+            this.previous = { ...this.record };
+        }
+
+        this.record = { ...this.record, data: {} };
+        this.destroyed = true;
+    }
+
+    /**
+     * Commit state - read by the session middleware.
+     */
+    get state(): { record: SessionRecord; previous: SessionRecord | null; dirty: boolean; regenerated: boolean; destroyed: boolean } {
+        return {
+            record: this.record,
+            previous: this.previous,
+            dirty: this.dirty,
+            regenerated: this.regenerated,
+            destroyed: this.destroyed
+        };
+    }
+
+    static createId(): string {
+        return Buffer.from(crypto.getRandomValues(new Uint8Array(24))).toString('base64url');
+    }
+}
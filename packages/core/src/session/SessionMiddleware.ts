@@ -0,0 +1,84 @@
+import type { Context } from '../context/Context';
+import type { CarnoClosure } from '../middleware/CarnoMiddleware';
+import type { OnionMiddleware } from '../middleware/compose';
+import type { CookieOptions } from '../cookies/Cookies';
+import { HttpSession } from './HttpSession';
+import type { SessionStore } from './SessionStore';
+
+export interface SessionConfig {
+    /** Default: CacheSessionStore on the application CacheService */
+    store?: SessionStore;
+    /** Default: `carno.sid` */
+    cookieName?: string;
+    /** Session lifetime in seconds. Default: 1 day */
+    ttl?: number;
+    /** Extend the expiry on every request instead of only when the session changes */
+    rolling?: boolean;
+    /** Cookie attributes. Defaults: `httpOnly`, `sameSite: 'Lax'`, `path: '/'` */
+    cookie?: Omit<CookieOptions, 'maxAge' | 'expires' | 'signed'>;
+}
+
+const DEFAULT_COOKIE_NAME = 'carno.sid';
+const DEFAULT_TTL = 86400;
+
+/**
+ * Load the session before the route and save it after the response.
+ * The session cookie is always signed; new sessions are only persisted once they hold data.
+ */
+export function createSessionMiddleware(config: SessionConfig, store: SessionStore): OnionMiddleware {
+    const name = config.cookieName ?? DEFAULT_COOKIE_NAME;
+    const ttlMs = (config.ttl ?? DEFAULT_TTL) * 1000;
+    const cookieOptions: CookieOptions = { httpOnly: true, sameSite: 'Lax', path: '/', ...config.cookie };
+
+    const load = async (ctx: Context): Promise<HttpSession> => {
+        const cookie = ctx.cookies.get(name, { signed: true });
+        const record = cookie ? await store.read(cookie) : null;
+
+        if (record) {
+            return new HttpSession(record, false);
+        }
+
+        return new HttpSession({ id: HttpSession.createId(), data: {}, expiresAt: Date.now() + ttlMs }, true);
+    };
+
+    const commit = async (ctx: Context, session: HttpSession): Promise<void> => {
+        const { record, previous, dirty, destroyed } = session.state;
+
+        if (previous) {
+            await store.destroy(previous);
+        }
+
+        if (destroyed) {
+            ctx.cookies.delete(name, { path: cookieOptions.path, domain: cookieOptions.domain });
+            return;
+        }
+
+        const extend = config.rolling && !session.isNew;
+
+        if (!dirty && !extend) {
+            return;
+        }
+
+        if (config.rolling) {
+            record.expiresAt = Date.now() + ttlMs;
+        }
+
+        const value = await store.write(record);
+
+        ctx.cookies.set(name, value, {
+            ...cookieOptions,
+            maxAge: Math.max(0, Math.ceil((record.expiresAt - Date.now()) / 1000)),
+            signed: true
+        });
+    };
+
+    return async (ctx: Context, next: CarnoClosure) => {
+        const session = await load(ctx);
+        ctx.session = session;
+
+        const response = await next();
+        await commit(ctx, session);
+
+        return response;
+    };
+}
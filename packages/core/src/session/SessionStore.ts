@@ -0,0 +1,31 @@
+/**
+ * Persisted session state.
+ */
+export interface SessionRecord {
+    id: string;
+    data: Record<string, any>;
+    /** Epoch milliseconds */
+    expiresAt: number;
+}
+
+/**
+ * Session persistence.
+ * The store decides what goes into the session cookie: the whole record
+ * (stateless stores) or only a reference to it (server-side stores).
+ */
+export interface SessionStore {
+    /**
+     * Load a session from its cookie value. Returns null when missing, expired or tampered.
+     */
+    read(cookie: string): Promise<SessionRecord | null>;
+
+    /**
+     * Persist a session and return the cookie value.
+     */
+    write(record: SessionRecord): Promise<string>;
+
+    /**
+     * Remove a session (logout, regeneration).
+     */
+    destroy(record: SessionRecord): Promise<void>;
+}
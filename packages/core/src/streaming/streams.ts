@@ -0,0 +1,185 @@
+import { HttpException } from '../exceptions/HttpException';
+
+/**
+ * Server-Sent Event yielded from an @Sse() handler.
+ * Yielded values without a `data` property are sent as the event data.
+ */
+export interface SseMessage {
+    data: any;
+    event?: string;
+    id?: string | number;
+    retry?: number;
+}
+
+/**
+ * Options for the @Sse() decorator.
+ */
+export interface SseOptions {
+    /** Interval in ms for `: heartbeat` comments keeping proxies from closing the stream. 0 disables. Default: 15000 */
+    heartbeat?: number;
+}
+
+const DEFAULT_HEARTBEAT = 15000;
+const encoder = new TextEncoder();
+
+/**
+ * Async iterables and generator objects are streamed; arrays and other iterables stay JSON.
+ */
+export function isStreamable(value: any): value is AsyncIterable<any> | IterableIterator<any> {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+
+    if (typeof value[Symbol.asyncIterator] === 'function') {
+        return true;
+    }
+
+    return typeof value.next === 'function' && typeof value[Symbol.iterator] === 'function';
+}
+
+function toIterator(source: AsyncIterable<any> | Iterable<any>): AsyncIterator<any> | Iterator<any> {
+    if (typeof (source as any)[Symbol.asyncIterator] === 'function') {
+        return (source as AsyncIterable<any>)[Symbol.asyncIterator]();
+    }
+
+    return (source as Iterable<any>)[Symbol.iterator]();
+}
+
+function serializeError(error: any): { statusCode: number; message: string } {
+    if (error instanceof HttpException) {
+        return { statusCode: error.statusCode, message: error.message };
+    }
+
+    console.error('Unhandled stream error:', error);
+    return { statusCode: 500, message: 'Internal Server Error' };
+}
+
+/**
+ * Pull-based stream over an iterator.
+ * Cancellation (client disconnect) calls iterator.return() so `finally` blocks in generators run.
+ * Errors after the first chunk can't change the status, so they are written with `onError`.
+ */
+function streamIterator(
+    source: AsyncIterable<any> | Iterable<any>,
+    encode: (item: any) => string,
+    onError: (error: { statusCode: number; message: string }) => string,
+    heartbeat: number = 0
+): ReadableStream<Uint8Array> {
+    const iterator = toIterator(source);
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+
+    const stop = () => {
+        if (timer) {
+            clearInterval(timer);
+            timer = null;
+        }
+    };
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (heartbeat > 0) {
+                timer = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), heartbeat);
+            }
+        },
+
+        async pull(controller) {
+            try {
+                const { value, done } = await iterator.next();
+
+                // The client went away while the iterator was pending
+                if (cancelled) {
+                    return;
+                }
+
+                if (done) {
+                    stop();
+                    controller.close();
+                    return;
+                }
+
+                controller.enqueue(encoder.encode(encode(value)));
+            } catch (error) {
+                if (cancelled) {
+                    return;
+                }
+
+                stop();
+                controller.enqueue(encoder.encode(onError(serializeError(error))));
+                controller.close();
+            }
+        },
+
+        async cancel() {
+            cancelled = true;
+            stop();
+            await iterator.return?.();
+        }
+    });
+}
+
+/**
+ * Stream items as newline-delimited JSON (`application/x-ndjson`).
+ */
+export function createNdjsonResponse(source: AsyncIterable<any> | Iterable<any>): Response {
+    const body = streamIterator(
+        source,
+        item => JSON.stringify(item) + '\n',
+        error => JSON.stringify({ error }) + '\n'
+    );
+
+    return new Response(body, {
+        status: 200,
+        headers: { 'Content-Type': 'application/x-ndjson' }
+    });
+}
+
+/**
+ * Frame one Server-Sent Event. Multi-line data is split into several `data:` lines;
+ * line breaks are removed from `event`, `id` and `retry` so they cannot start new fields.
+ */
+export function formatSseMessage(item: any): string {
+    const message: SseMessage = item !== null && typeof item === 'object' && 'data' in item
+        ? item
+        : { data: item };
+
+    let frame = '';
+
+    if (message.event) frame += `event: ${singleLine(message.event)}\n`;
+    if (message.id !== undefined) frame += `id: ${singleLine(message.id)}\n`;
+    if (message.retry !== undefined) frame += `retry: ${singleLine(message.retry)}\n`;
+
+    const data = typeof message.data === 'string' ? message.data : JSON.stringify(message.data);
+
+    // CR, LF and CRLF all end a line in an event stream
+    for (const line of data.split(/\r\n|\r|\n/)) {
+        frame += `data: ${line}\n`;
+    }
+
+    return frame + '\n';
+}
+
+function singleLine(value: unknown): string {
+    return String(value).replace(/[\r\n]/g, '');
+}
+
+/**
+ * Stream items as `text/event-stream`.
+ */
+export function createSseResponse(source: AsyncIterable<any> | Iterable<any>, options: SseOptions = {}): Response {
+    const body = streamIterator(
+        source,
+        formatSseMessage,
+        error => formatSseMessage({ event: 'error', data: error }),
+        options.heartbeat ?? DEFAULT_HEARTBEAT
+    );
+
+    return new Response(body, {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        }
+    });
+}
@@ -0,0 +1,167 @@
+import type { Carno } from '../Carno';
+
+type Expectation = (response: Response) => void | Promise<void>;
+
+/**
+ * Fluent request builder returned by TestClient.
+ * Nothing is sent until the request is awaited or a body reader (json/text) is called.
+ *
+ * @example
+ * ```typescript
+ * const user = await client.get('/users/1').expectStatus(200).json();
+ * ```
+ */
+export class TestRequest implements PromiseLike<Response> {
+    private headers = new Headers();
+    private body: BodyInit | undefined;
+    private expectations: Expectation[] = [];
+    private pending: Promise<Response> | null = null;
+
+    constructor(
+        private readonly dispatch: (request: Request) => Promise<Response>,
+        private readonly method: string,
+        private readonly url: string
+    ) {}
+
+    /**
+     * Set a request header.
+     */
+    set(name: string, value: string): this {
+        this.headers.set(name, value);
+        return this;
+    }
+
+    /**
+     * Set the request body. Plain objects and arrays are sent as JSON.
+     */
+    send(body: unknown): this {
+        if (body === undefined || body === null) {
+            return this;
+        }
+
+        if (typeof body === 'string' || body instanceof Blob || body instanceof FormData
+            || body instanceof ArrayBuffer || body instanceof URLSearchParams || ArrayBuffer.isView(body)) {
+            this.body = body as BodyInit;
+            return this;
+        }
+
+        this.body = JSON.stringify(body);
+
+        if (!this.headers.has('content-type')) {
+            this.headers.set('content-type', 'application/json');
+        }
+
+        return this;
+    }
+
+    expectStatus(status: number): this {
+        this.expectations.push(response => {
+            if (response.status !== status) {
+                throw new Error(`Expected status ${status} but received ${response.status} for ${this.method} ${this.url}`);
+            }
+        });
+
+        return this;
+    }
+
+    expectHeader(name: string, value: string | RegExp): this {
+        this.expectations.push(response => {
+            const actual = response.headers.get(name);
+            const matches = typeof value === 'string' ? actual === value : actual !== null && value.test(actual);
+
+            if (!matches) {
+                throw new Error(`Expected header "${name}" to match ${String(value)} but received ${actual}`);
+            }
+        });
+
+        return this;
+    }
+
+    /**
+     * Send the request and parse the JSON body.
+     */
+    async json<T = any>(): Promise<T> {
+        const response = await this.execute();
+
+        return response.json() as Promise<T>;
+    }
+
+    /**
+     * Send the request and read the text body.
+     */
+    async text(): Promise<string> {
+        const response = await this.execute();
+
+        return response.text();
+    }
+
+    then<TResult1 = Response, TResult2 = never>(
+        onfulfilled?: ((value: Response) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+    ): Promise<TResult1 | TResult2> {
+        return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private execute(): Promise<Response> {
+        if (!this.pending) {
+            this.pending = this.run();
+        }
+
+        return this.pending;
+    }
+
+    private async run(): Promise<Response> {
+        const request = new Request(new URL(this.url, 'http://localhost'), {
+            method: this.method,
+            headers: this.headers,
+            body: this.body
+        });
+
+        const response = await this.dispatch(request);
+
+        for (const expectation of this.expectations) {
+            await expectation(response);
+        }
+
+        return response;
+    }
+}
+
+/**
+ * In-process HTTP client for a Carno application.
+ * Requests go through app.inject() - no port is opened.
+ *
+ * @example
+ * ```typescript
+ * const client = new TestClient(app);
+ *
+ * await client.post('/users').send({ name: 'John' }).expectStatus(201);
+ * ```
+ */
+export class TestClient {
+    constructor(private readonly app: Carno) {}
+
+    request(method: string, url: string): TestRequest {
+        return new TestRequest(request => this.app.inject(request), method.toUpperCase(), url);
+    }
+
+    get(url: string): TestRequest {
+        return this.request('GET', url);
+    }
+
+    post(url: string, body?: unknown): TestRequest {
+        return this.request('POST', url).send(body);
+    }
+
+    put(url: string, body?: unknown): TestRequest {
+        return this.request('PUT', url).send(body);
+    }
+
+    patch(url: string, body?: unknown): TestRequest {
+        return this.request('PATCH', url).send(body);
+    }
+
+    delete(url: string): TestRequest {
+        return this.request('DELETE', url);
+    }
+}
@@ -1,6 +1,7 @@
 import type { Server } from 'bun';
 import { Carno, type CarnoConfig } from '../Carno';
-import { Container, type Token } from '../container/Container';
+import { Container, type Token, type Type, type ProviderConfig } from '../container/Container';
+import { TestClient } from './TestClient';
 
 /**
  * Test configuration options.
@@ -10,8 +11,11 @@ export interface TestOptions {
     listen?: boolean | number;
     port?: number;
     controllers?: (new (...args: any[]) => any)[];
-    services?: (Token | any)[];
+    gateways?: (new (...args: any[]) => any)[];
+    services?: (Type | ProviderConfig)[];
     plugins?: Carno[];
+    /** Providers replacing registered ones before bootstrap (e.g. mocks) */
+    overrides?: ProviderConfig[];
 }
 
 /**
@@ -24,6 +28,9 @@ export interface TestHarness {
     /** The internal DI container */
     container: Container;
 
+    /** Fluent in-process client (never opens a socket) */
+    client: TestClient;
+
     /** The HTTP server (if listening) */
     server?: Server<any>;
 
@@ -33,7 +40,7 @@ export interface TestHarness {
     /** Resolve a service from the container */
     resolve<T>(token: Token<T>): T;
 
-    /** Make an HTTP request to the app */
+    /** Make a request to the app - over HTTP when listening, in-process otherwise */
     request(path: string, init?: RequestInit): Promise<Response>;
 
     /** Make a GET request */
@@ -54,18 +61,21 @@ export interface TestHarness {
 
 /**
  * Create a test harness for Turbo applications.
+ * Without `listen`, requests are dispatched in-process through app.inject().
  * 
  * @example
  * ```typescript
  * const harness = await createTestHarness({
  *   controllers: [UserController],
  *   services: [UserService],
- *   listen: true
+ *   overrides: [{ token: UserRepository, useValue: fakeRepository }]
  * });
  * 
  * const response = await harness.get('/users');
  * expect(response.status).toBe(200);
  * 
+ * const user = await harness.client.get('/users/1').expectStatus(200).json();
+ * 
  * await harness.close();
  * ```
  */
@@ -89,17 +99,31 @@ export async function createTestHarness(options: TestOptions = {}): Promise<Test
         app.controllers(options.controllers);
     }
 
+    // Register WebSocket gateways
+    if (options.gateways) {
+        app.gateways(options.gateways);
+    }
+
     // Register services
     if (options.services) {
         app.services(options.services);
     }
 
+    // Override providers (mocks)
+    if (options.overrides) {
+        for (const override of options.overrides) {
+            app.overrideProvider(override.token, override);
+        }
+    }
+
     const port = resolvePort(options);
     let server: Server<any> | undefined;
 
     if (shouldListen(options.listen)) {
-        app.listen(port);
+        await app.listen(port);
         server = (app as any).server;
+    } else {
+        await app.prepare();
     }
 
     const actualPort = server?.port ?? port;
@@ -110,7 +134,7 @@ export async function createTestHarness(options: TestOptions = {}): Promise<Test
 
     const request = async (path: string, init?: RequestInit): Promise<Response> => {
         if (!server) {
-            throw new Error('Server not running. Set listen: true in options.');
+            return app.inject(path, init);
         }
         const url = path.startsWith('http') ? path : `${baseUrl}${path.startsWith('/') ? path : '/' + path}`;
         return fetch(url, init);
@@ -122,25 +146,17 @@ export async function createTestHarness(options: TestOptions = {}): Promise<Test
         server,
         port: actualPort,
 
+        client: new TestClient(app),
+
         resolve: <T>(token: Token<T>): T => container.get(token),
 
         request,
 
         get: (path, init) => request(path, { ...init, method: 'GET' }),
 
-        post: (path, body, init) => request(path, {
-            ...init,
-            method: 'POST',
-            body: body ? JSON.stringify(body) : undefined,
-            headers: { 'Content-Type': 'application/json', ...init?.headers }
-        }),
+        post: (path, body, init) => request(path, { ...init, method: 'POST', ...encodeBody(body, init) }),
 
-        put: (path, body, init) => request(path, {
-            ...init,
-            method: 'PUT',
-            body: body ? JSON.stringify(body) : undefined,
-            headers: { 'Content-Type': 'application/json', ...init?.headers }
-        }),
+        put: (path, body, init) => request(path, { ...init, method: 'PUT', ...encodeBody(body, init) }),
 
         delete: (path, init) => request(path, { ...init, method: 'DELETE' }),
 
@@ -150,6 +166,20 @@ export async function createTestHarness(options: TestOptions = {}): Promise<Test
     };
 }
 
+/**
+ * JSON-encode a request body. FormData is sent as multipart with its own boundary.
+ */
+function encodeBody(body: any, init?: RequestInit): RequestInit {
+    if (body instanceof FormData) {
+        return { body, headers: init?.headers };
+    }
+
+    return {
+        body: body ? JSON.stringify(body) : undefined,
+        headers: { 'Content-Type': 'application/json', ...init?.headers }
+    };
+}
+
 /**
  * Run a test routine with automatic harness cleanup.
  * 
@@ -0,0 +1,75 @@
+import type { Span } from './Span';
+import type { Tracer } from './Tracer';
+import { parseTraceparent } from './traceparent';
+
+/**
+ * One server span per request, continuing the caller's trace from `traceparent`.
+ *
+ * Spans are named after the route pattern (`GET /users/:id`). Only 5xx answers
+ * mark the span as failed - 4xx are the client's error, per OpenTelemetry conventions.
+ */
+export function traceRoute(
+    tracer: Tracer,
+    handler: Response | Function,
+    method: string,
+    route: string,
+    statusOf: (error: unknown) => number
+): (req: Request, server: any) => any {
+    const name = `${method} ${route}`;
+
+    const respond = (span: Span, response: any) => {
+        // WebSocket upgrades return nothing
+        if (response instanceof Response) {
+            span.setAttribute('http.response.status_code', response.status);
+
+            if (response.status >= 500) {
+                span.setStatus('error');
+            }
+        }
+
+        span.end();
+
+        return response;
+    };
+
+    const fail = (span: Span, error: unknown) => {
+        const status = statusOf(error);
+
+        span.setAttribute('http.response.status_code', status);
+
+        if (status >= 500) {
+            span.recordException(error);
+        }
+
+        span.end();
+
+        throw error;
+    };
+
+    return (req: Request, server: any) => {
+        const span = tracer.startSpan(name, {
+            kind: 'server',
+            parent: parseTraceparent(req.headers.get('traceparent')),
+            attributes: {
+                'http.request.method': method,
+                'http.route': route,
+                'url.full': req.url,
+                'user_agent.original': req.headers.get('user-agent') ?? undefined
+            }
+        });
+
+        return tracer.withSpan(span, () => {
+            let result: any;
+
+            try {
+                result = handler instanceof Response ? handler.clone() : handler(req, server);
+            } catch (error) {
+                return fail(span, error);
+            }
+
+            return result instanceof Promise
+                ? result.then(response => respond(span, response), error => fail(span, error))
+                : respond(span, result);
+        });
+    };
+}
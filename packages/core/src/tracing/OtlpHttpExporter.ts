@@ -0,0 +1,116 @@
+import type { Span, SpanAttributes, SpanKind, SpanStatusCode } from './Span';
+
+/**
+ * Destination of ended spans, called in batches.
+ */
+export interface SpanExporter {
+    export(spans: Span[]): Promise<void>;
+}
+
+export interface OtlpHttpExporterOptions {
+    /** Collector base URL (default: http://localhost:4318) - spans go to `<endpoint>/v1/traces` */
+    endpoint?: string;
+    headers?: Record<string, string>;
+    /** Resource attributes, e.g. `service.name` */
+    resource?: SpanAttributes;
+    /** Request timeout in ms (default: 10000) */
+    timeout?: number;
+}
+
+export const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318';
+
+const SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+const STATUS_CODES: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Exports spans with the OTLP/HTTP JSON encoding, understood by the OpenTelemetry
+ * Collector, Jaeger, Tempo and most tracing backends.
+ */
+export class OtlpHttpExporter implements SpanExporter {
+    private readonly url: string;
+    private readonly headers: Record<string, string>;
+    private readonly resource: SpanAttributes;
+    private readonly timeout: number;
+
+    constructor(options: OtlpHttpExporterOptions = {}) {
+        const endpoint = (options.endpoint ?? DEFAULT_OTLP_ENDPOINT).replace(/\/+$/, '');
+
+        this.url = endpoint.endsWith('/v1/traces') ? endpoint : `${endpoint}/v1/traces`;
+        this.headers = { 'Content-Type': 'application/json', ...options.headers };
+        this.resource = options.resource ?? {};
+        this.timeout = options.timeout ?? 10_000;
+    }
+
+    async export(spans: Span[]): Promise<void> {
+        const res = await fetch(this.url, {
+            method: 'POST',
+            headers: this.headers,
+            body: JSON.stringify(this.encode(spans)),
+            signal: AbortSignal.timeout(this.timeout)
+        });
+
+        if (!res.ok) {
+            throw new Error(`OTLP export to ${this.url} failed with ${res.status}`);
+        }
+    }
+
+    /**
+     * `ExportTraceServiceRequest` in the OTLP JSON encoding.
+     */
+    encode(spans: Span[]): object {
+        return {
+            resourceSpans: [{
+                resource: { attributes: encodeAttributes(this.resource) },
+                scopeSpans: [{
+                    scope: { name: '@carno.js/core' },
+                    spans: spans.map(span => ({
+                        traceId: span.context.traceId,
+                        spanId: span.context.spanId,
+                        ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+                        name: span.name,
+                        kind: SPAN_KINDS[span.kind],
+                        startTimeUnixNano: toUnixNano(span.startTime),
+                        endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+                        attributes: encodeAttributes(span.attributes),
+                        events: span.events.map(event => ({
+                            name: event.name,
+                            timeUnixNano: toUnixNano(event.time),
+                            attributes: encodeAttributes(event.attributes)
+                        })),
+                        status: {
+                            code: STATUS_CODES[span.status.code],
+                            ...(span.status.message && { message: span.status.message })
+                        }
+                    }))
+                }]
+            }]
+        };
+    }
+}
+
+function encodeAttributes(attributes: SpanAttributes): object[] {
+    const encoded: object[] = [];
+
+    for (const [key, value] of Object.entries(attributes)) {
+        if (value === undefined) continue;
+
+        if (typeof value === 'boolean') {
+            encoded.push({ key, value: { boolValue: value } });
+        } else if (typeof value === 'number') {
+            encoded.push({ key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } });
+        } else {
+            encoded.push({ key, value: { stringValue: value } });
+        }
+    }
+
+    return encoded;
+}
+
+/**
+ * Epoch milliseconds to a nanosecond string - beyond Number precision, hence BigInt.
+ */
+function toUnixNano(ms: number): string {
+    const whole = Math.floor(ms);
+
+    return (BigInt(whole) * 1_000_000n + BigInt(Math.round((ms - whole) * 1_000_000))).toString();
+}
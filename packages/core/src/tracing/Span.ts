@@ -0,0 +1,113 @@
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Identity of a span, as carried by the `traceparent` header.
+ */
+export interface SpanContext {
+    /** 32 hex characters */
+    traceId: string;
+    /** 16 hex characters */
+    spanId: string;
+    /** Bit 0 set when the trace is sampled */
+    traceFlags: number;
+}
+
+export interface SpanEvent {
+    name: string;
+    /** Epoch milliseconds, sub-millisecond precision */
+    time: number;
+    attributes: SpanAttributes;
+}
+
+/**
+ * A timed operation of a trace. Ended spans of sampled traces are exported.
+ */
+export class Span {
+    readonly attributes: SpanAttributes = {};
+    readonly events: SpanEvent[] = [];
+    status: { code: SpanStatusCode; message?: string } = { code: 'unset' };
+    /** Epoch milliseconds, sub-millisecond precision */
+    readonly startTime = now();
+    endTime: number | null = null;
+
+    constructor(
+        readonly name: string,
+        readonly kind: SpanKind,
+        readonly context: SpanContext,
+        readonly parentSpanId: string | null,
+        private readonly onEnd: ((span: Span) => void) | null
+    ) { }
+
+    /**
+     * False for spans of unsampled traces: they propagate context but record nothing.
+     */
+    get recording(): boolean {
+        return this.onEnd !== null;
+    }
+
+    setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+        if (this.onEnd && value !== undefined) {
+            this.attributes[key] = value;
+        }
+
+        return this;
+    }
+
+    setAttributes(attributes: SpanAttributes): this {
+        for (const [key, value] of Object.entries(attributes)) {
+            this.setAttribute(key, value);
+        }
+
+        return this;
+    }
+
+    addEvent(name: string, attributes: SpanAttributes = {}): this {
+        if (this.onEnd) {
+            this.events.push({ name, time: now(), attributes });
+        }
+
+        return this;
+    }
+
+    setStatus(code: SpanStatusCode, message?: string): this {
+        this.status = message === undefined ? { code } : { code, message };
+        return this;
+    }
+
+    /**
+     * Add an `exception` event and mark the span as failed.
+     */
+    recordException(error: unknown): this {
+        const err = error instanceof Error ? error : new Error(String(error));
+
+        this.addEvent('exception', {
+            'exception.type': err.name,
+            'exception.message': err.message,
+            'exception.stacktrace': err.stack
+        });
+
+        return this.setStatus('error', err.message);
+    }
+
+    /**
+     * Ending twice is a no-op.
+     */
+    end(): void {
+        if (this.endTime !== null) {
+            return;
+        }
+
+        this.endTime = now();
+        this.onEnd?.(this);
+    }
+}
+
+function now(): number {
+    return performance.timeOrigin + performance.now();
+}
@@ -0,0 +1,204 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { OtlpHttpExporter, DEFAULT_OTLP_ENDPOINT, type SpanExporter } from './OtlpHttpExporter';
+import { Span, type SpanAttributes, type SpanContext, type SpanKind } from './Span';
+import { formatTraceparent, randomSpanId, randomTraceId } from './traceparent';
+
+export interface TracingConfig {
+    /** `service.name` of the exported spans (default: OTEL_SERVICE_NAME, else "carno") */
+    serviceName?: string;
+    /** OTLP/HTTP collector URL (default: OTEL_EXPORTER_OTLP_ENDPOINT, else http://localhost:4318) */
+    endpoint?: string;
+    /** Headers sent to the collector, e.g. an API key */
+    headers?: Record<string, string>;
+    /** Extra resource attributes (`deployment.environment`, `service.version`) */
+    resource?: SpanAttributes;
+    /** Replaces the OTLP exporter */
+    exporter?: SpanExporter;
+    /** Share of new traces recorded, from 0 to 1 (default: 1). Incoming sampling decisions are kept. */
+    sampleRatio?: number;
+    /** Export interval in ms (default: 5000) */
+    flushInterval?: number;
+    /** Spans buffered before an early export (default: 512) */
+    maxBatchSize?: number;
+}
+
+export interface SpanOptions {
+    kind?: SpanKind;
+    attributes?: SpanAttributes;
+    /** Parent from another process (`traceparent`). Default: the active span */
+    parent?: SpanContext | null;
+}
+
+const SAMPLED = 0x01;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_BATCH_SIZE = 512;
+
+/**
+ * Creates spans, tracks the active one across async calls and exports ended
+ * spans in batches.
+ *
+ * Injectable in every module. `enabled` is false when the application has no
+ * `tracing` option: spans are then never created and `startActiveSpan()` only
+ * runs its callback.
+ */
+export class Tracer {
+    readonly enabled: boolean;
+    private readonly storage = new AsyncLocalStorage<Span>();
+    private readonly exporter: SpanExporter | null;
+    private readonly sampleRatio: number;
+    private readonly maxBatchSize: number;
+    private buffer: Span[] = [];
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private exporting: Promise<void> = Promise.resolve();
+
+    constructor(config: TracingConfig | null = null) {
+        this.enabled = config !== null;
+        this.sampleRatio = config?.sampleRatio ?? 1;
+        this.maxBatchSize = config?.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+        this.exporter = config ? config.exporter ?? this.createExporter(config) : null;
+
+        if (config) {
+            this.timer = setInterval(() => this.flush(), config.flushInterval ?? DEFAULT_FLUSH_INTERVAL);
+            this.timer.unref?.();
+        }
+    }
+
+    /**
+     * Start a span, child of `options.parent` or of the active span. End it with `span.end()`.
+     */
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        const parent = options.parent !== undefined ? options.parent : this.storage.getStore()?.context ?? null;
+        const sampled = parent ? (parent.traceFlags & SAMPLED) === SAMPLED : Math.random() < this.sampleRatio;
+
+        const span = new Span(
+            name,
+            options.kind ?? 'internal',
+            {
+                traceId: parent?.traceId ?? randomTraceId(),
+                spanId: randomSpanId(),
+                traceFlags: sampled ? SAMPLED : 0
+            },
+            parent?.spanId ?? null,
+            sampled ? (ended: Span) => this.onEnd(ended) : null
+        );
+
+        if (options.attributes) {
+            span.setAttributes(options.attributes);
+        }
+
+        return span;
+    }
+
+    /**
+     * Run `fn` with a new span as the active one, ending it when `fn` returns or its
+     * promise settles. Errors are recorded on the span and rethrown.
+     */
+    startActiveSpan<T>(name: string, options: SpanOptions, fn: (span: Span | null) => T): T {
+        if (!this.enabled) {
+            return fn(null);
+        }
+
+        const span = this.startSpan(name, options);
+
+        return this.storage.run(span, () => {
+            let result: T;
+
+            try {
+                result = fn(span);
+            } catch (error) {
+                span.recordException(error);
+                span.end();
+                throw error;
+            }
+
+            if (result instanceof Promise) {
+                return result.then(
+                    value => {
+                        span.end();
+                        return value;
+                    },
+                    error => {
+                        span.recordException(error);
+                        span.end();
+                        throw error;
+                    }
+                ) as T;
+            }
+
+            span.end();
+
+            return result;
+        });
+    }
+
+    /**
+     * Run `fn` with `span` as the active span. The caller ends the span.
+     */
+    withSpan<T>(span: Span, fn: () => T): T {
+        return this.storage.run(span, fn);
+    }
+
+    activeSpan(): Span | undefined {
+        return this.storage.getStore();
+    }
+
+    /**
+     * `traceparent` of the active span, to propagate the trace to another service.
+     */
+    traceparent(span: Span | undefined = this.activeSpan()): string | null {
+        return span ? formatTraceparent(span.context) : null;
+    }
+
+    /**
+     * Export the buffered spans now.
+     */
+    flush(): Promise<void> {
+        if (this.buffer.length === 0 || !this.exporter) {
+            return this.exporting;
+        }
+
+        const batch = this.buffer;
+        const exporter = this.exporter;
+        this.buffer = [];
+
+        // Exports run one after another so spans reach the collector in order
+        this.exporting = this.exporting
+            .then(() => exporter.export(batch))
+            .catch(error => console.error('Failed to export spans:', error));
+
+        return this.exporting;
+    }
+
+    /**
+     * Stop the export timer and export what is left.
+     */
+    shutdown(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        return this.flush();
+    }
+
+    private onEnd(span: Span): void {
+        this.buffer.push(span);
+
+        if (this.buffer.length >= this.maxBatchSize) {
+            this.flush();
+        }
+    }
+
+    private createExporter(config: TracingConfig): SpanExporter {
+        return new OtlpHttpExporter({
+            endpoint: config.endpoint ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT ?? DEFAULT_OTLP_ENDPOINT,
+            headers: config.headers,
+            resource: {
+                'service.name': config.serviceName ?? process.env.OTEL_SERVICE_NAME ?? 'carno',
+                'telemetry.sdk.name': '@carno.js/core',
+                'telemetry.sdk.language': 'nodejs',
+                ...config.resource
+            }
+        });
+    }
+}
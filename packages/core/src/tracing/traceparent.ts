@@ -0,0 +1,48 @@
+import type { SpanContext } from './Span';
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(?:-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parse a W3C `traceparent` header. Returns null when missing or malformed.
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+    const match = header ? TRACEPARENT.exec(header.trim().toLowerCase()) : null;
+
+    if (!match) {
+        return null;
+    }
+
+    const [, version, traceId, spanId, flags] = match;
+
+    // Version ff is forbidden; all-zero ids are invalid
+    if (version === 'ff' || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+        return null;
+    }
+
+    return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+    return `00-${context.traceId}-${context.spanId}-${(context.traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+export function randomTraceId(): string {
+    return randomHex(16);
+}
+
+export function randomSpanId(): string {
+    return randomHex(8);
+}
+
+function randomHex(bytes: number): string {
+    const buffer = crypto.getRandomValues(new Uint8Array(bytes));
+    let hex = '';
+
+    for (const byte of buffer) {
+        hex += byte.toString(16).padStart(2, '0');
+    }
+
+    return hex;
+}
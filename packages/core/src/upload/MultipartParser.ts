@@ -0,0 +1,346 @@
+import { join } from 'node:path';
+import { unlink } from 'node:fs/promises';
+import { BadRequestException } from '../exceptions/HttpException';
+import {
+    assertFileSize,
+    assertMimeType,
+    assertRequiredFiles,
+    DEFAULT_MAX_FIELD_SIZE,
+    DEFAULT_UPLOAD_RULE,
+    maxBodySize,
+    ruleFor,
+    tooManyFiles,
+    type UploadFieldRule,
+    type UploadRules
+} from './UploadRules';
+
+export interface MultipartBody {
+    /** Text fields and files, repeated fields as arrays */
+    body: Record<string, any>;
+    files: Record<string, File[]>;
+    /** Temp files backing disk uploads, removed after the response */
+    tempPaths: string[];
+}
+
+const HEADER_END = Buffer.from('\r\n\r\n');
+const MAX_HEADER_SIZE = 16 * 1024;
+const DASH = 45;
+const CR = 13;
+const LF = 10;
+
+type ParserState = 'preamble' | 'boundary' | 'headers' | 'body' | 'done';
+
+interface PartSink {
+    write(chunk: Buffer): void | Promise<void>;
+    close(): Promise<void>;
+    abort(): Promise<void>;
+}
+
+/**
+ * Stream a `multipart/form-data` body part by part.
+ *
+ * Only the current chunk and the part being read are held in memory; with a
+ * `tempDir` rule file contents go straight to disk. Limits are checked while
+ * streaming, so an oversized upload is rejected without reading it all.
+ * Without rules, the default field, file and body size limits still apply.
+ */
+export async function parseMultipart(
+    req: Request,
+    rules: UploadRules | null = null
+): Promise<MultipartBody> {
+    const boundary = extractBoundary(req.headers.get('content-type') || '');
+
+    if (!boundary) {
+        throw new BadRequestException('Missing multipart boundary');
+    }
+
+    // The body starts with "--boundary" - prefixing CRLF lets every delimiter match the same pattern
+    const delimiter = Buffer.from(`\r\n--${boundary}`);
+    // No prototype - a field named `__proto__` or `constructor` is just a field
+    const result: MultipartBody = { body: Object.create(null), files: Object.create(null), tempPaths: [] };
+    const counts: Record<string, number> = {};
+    const bodyLimit = maxBodySize(rules);
+    let anyCount = 0;
+    let received = 0;
+
+    let buffer: Buffer = Buffer.from('\r\n');
+    let state = 'preamble' as ParserState;
+    let part: PartSink | null = null;
+
+    const openPart = (rawHeaders: string): PartSink => {
+        const headers = parsePartHeaders(rawHeaders);
+        const name = headers.name;
+
+        if (name === null) {
+            throw new BadRequestException('Malformed multipart body');
+        }
+
+        if (headers.filename === null) {
+            return fieldSink(name, value => append(result.body, name, value));
+        }
+
+        // Empty file inputs are sent with an empty filename
+        if (headers.filename === '') {
+            return DISCARD_SINK;
+        }
+
+        const rule = rules ? ruleFor(rules, name) : null;
+
+        if (rules) {
+            if (!rule) {
+                throw new BadRequestException(`Unexpected file field "${name}"`);
+            }
+
+            const count = rules.fields[name] ? (counts[name] = (counts[name] ?? 0) + 1) : ++anyCount;
+
+            if (count > rule.maxFiles) {
+                throw tooManyFiles(rule, name);
+            }
+
+            assertMimeType(rule, name, headers.contentType);
+        }
+
+        const onFile = (file: File) => {
+            (result.files[name] ??= []).push(file);
+            append(result.body, name, file);
+        };
+
+        return rule?.tempDir
+            ? diskSink(name, headers.filename, headers.contentType, rule, result.tempPaths, onFile)
+            : memorySink(name, headers.filename, headers.contentType, rule ?? DEFAULT_UPLOAD_RULE, onFile);
+    };
+
+    const drain = async (): Promise<void> => {
+        while (true) {
+            if (state === 'preamble') {
+                const index = buffer.indexOf(delimiter);
+
+                if (index < 0) {
+                    buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+                    return;
+                }
+
+                buffer = buffer.subarray(index + delimiter.length);
+                state = 'boundary';
+            }
+
+            if (state === 'boundary') {
+                if (buffer.length < 2) return;
+
+                if (buffer[0] === DASH && buffer[1] === DASH) {
+                    state = 'done';
+                    return;
+                }
+
+                if (buffer[0] !== CR || buffer[1] !== LF) {
+                    throw new BadRequestException('Malformed multipart body');
+                }
+
+                buffer = buffer.subarray(2);
+                state = 'headers';
+            }
+
+            if (state === 'headers') {
+                const index = buffer.indexOf(HEADER_END);
+
+                if (index < 0) {
+                    if (buffer.length > MAX_HEADER_SIZE) {
+                        throw new BadRequestException('Multipart part headers too large');
+                    }
+
+                    return;
+                }
+
+                part = openPart(buffer.subarray(0, index).toString('utf8'));
+                buffer = buffer.subarray(index + HEADER_END.length);
+                state = 'body';
+            }
+
+            if (state === 'body') {
+                const index = buffer.indexOf(delimiter);
+
+                if (index < 0) {
+                    // Keep a possible partial delimiter for the next chunk
+                    const keep = delimiter.length - 1;
+
+                    if (buffer.length > keep) {
+                        await part!.write(buffer.subarray(0, buffer.length - keep));
+                        buffer = buffer.subarray(buffer.length - keep);
+                    }
+
+                    return;
+                }
+
+                await part!.write(buffer.subarray(0, index));
+                await part!.close();
+                part = null;
+                buffer = buffer.subarray(index + delimiter.length);
+                state = 'boundary';
+            }
+
+            if (state === 'done') return;
+        }
+    };
+
+    const reader = req.body?.getReader();
+
+    try {
+        while (reader && state !== 'done') {
+            const { done, value } = await reader.read();
+
+            if (done) break;
+
+            received += value.length;
+
+            if (received > bodyLimit) {
+                throw new BadRequestException(`Multipart body exceeds the maximum size of ${bodyLimit} bytes`);
+            }
+
+            buffer = buffer.length ? Buffer.concat([buffer, value]) : Buffer.from(value);
+            await drain();
+        }
+
+        if (state !== 'done') {
+            throw new BadRequestException('Unexpected end of multipart body');
+        }
+
+        if (rules) {
+            assertRequiredFiles(rules, result.files);
+        }
+    } catch (error) {
+        const current = part as PartSink | null;
+
+        await current?.abort();
+        await reader?.cancel().catch(() => undefined);
+        await removeFiles(result.tempPaths);
+        throw error;
+    } finally {
+        reader?.releaseLock();
+    }
+
+    return result;
+}
+
+export async function removeFiles(paths: string[]): Promise<void> {
+    await Promise.all(paths.map(path => unlink(path).catch(() => undefined)));
+}
+
+/**
+ * Repeated fields become arrays, like `FormData.getAll()`.
+ */
+export function append(target: Record<string, any>, name: string, value: any): void {
+    if (!Object.prototype.hasOwnProperty.call(target, name)) {
+        target[name] = value;
+    } else if (Array.isArray(target[name])) {
+        target[name].push(value);
+    } else {
+        target[name] = [target[name], value];
+    }
+}
+
+function extractBoundary(contentType: string): string | null {
+    const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+
+    return match ? (match[1] ?? match[2]).trim() : null;
+}
+
+function parsePartHeaders(raw: string): { name: string | null; filename: string | null; contentType: string } {
+    let disposition = '';
+    let contentType = '';
+
+    for (const line of raw.split('\r\n')) {
+        const colon = line.indexOf(':');
+        const header = line.slice(0, colon).trim().toLowerCase();
+        const value = line.slice(colon + 1).trim();
+
+        if (header === 'content-disposition') disposition = value;
+        else if (header === 'content-type') contentType = value;
+    }
+
+    const name = /\bname="([^"]*)"/i.exec(disposition);
+    const filename = /\bfilename="([^"]*)"/i.exec(disposition);
+
+    return {
+        name: name ? name[1] : null,
+        filename: filename ? filename[1] : null,
+        contentType: contentType || (filename ? 'application/octet-stream' : '')
+    };
+}
+
+const DISCARD_SINK: PartSink = {
+    write: () => undefined,
+    close: async () => undefined,
+    abort: async () => undefined
+};
+
+function fieldSink(name: string, onValue: (value: string) => void): PartSink {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    return {
+        write: chunk => {
+            size += chunk.length;
+
+            if (size > DEFAULT_MAX_FIELD_SIZE) {
+                throw new BadRequestException(`Field "${name}" exceeds the maximum size of ${DEFAULT_MAX_FIELD_SIZE} bytes`);
+            }
+
+            chunks.push(chunk);
+        },
+        close: async () => onValue(Buffer.concat(chunks).toString('utf8')),
+        abort: async () => undefined
+    };
+}
+
+function memorySink(
+    name: string,
+    filename: string,
+    type: string,
+    rule: UploadFieldRule,
+    onFile: (file: File) => void
+): PartSink {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    return {
+        write: chunk => {
+            size += chunk.length;
+            assertFileSize(rule, name, size);
+            chunks.push(chunk);
+        },
+        close: async () => onFile(new File(chunks as BlobPart[], filename, { type })),
+        abort: async () => undefined
+    };
+}
+
+function diskSink(
+    name: string,
+    filename: string,
+    type: string,
+    rule: UploadFieldRule,
+    tempPaths: string[],
+    onFile: (file: File) => void
+): PartSink {
+    const path = join(rule.tempDir!, `carno-upload-${crypto.randomUUID()}`);
+    const writer = Bun.file(path).writer();
+    let size = 0;
+
+    tempPaths.push(path);
+
+    return {
+        write: async chunk => {
+            size += chunk.length;
+            assertFileSize(rule, name, size);
+            writer.write(chunk);
+            await writer.flush();
+        },
+        close: async () => {
+            await writer.end();
+            // Backed by the temp file - not read into memory
+            onFile(new File([Bun.file(path)], filename, { type }));
+        },
+        abort: async () => {
+            await Promise.resolve(writer.end()).catch(() => undefined);
+        }
+    };
+}
@@ -0,0 +1,197 @@
+import { tmpdir } from 'node:os';
+import { BadRequestException } from '../exceptions/HttpException';
+
+/** Applies to every multipart body - files of routes without `maxFileSize` included */
+export const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+/** Max size of a text field of a multipart body */
+export const DEFAULT_MAX_FIELD_SIZE = 1024 * 1024;
+/** Max size of a multipart body, raised to the largest `maxFileSize` of the route */
+export const DEFAULT_MAX_BODY_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Limits for `@UploadedFile()` / `@UploadedFiles()`.
+ */
+export interface UploadOptions {
+    /** Max size of each file, in bytes (default: 10 MiB) */
+    maxFileSize?: number;
+    /** Max number of files. `@UploadedFile()` always accepts a single file */
+    maxFiles?: number;
+    /** Allowed MIME types - `image/*` style wildcards are supported */
+    mimeTypes?: string[];
+    /** Stream files to disk instead of memory. `true` uses the OS temp directory */
+    tempDir?: string | boolean;
+    /** Reject the request when no file was sent */
+    required?: boolean;
+}
+
+/**
+ * Resolved limits for one file field (or for any field, with `@UploadedFiles()`).
+ */
+export interface UploadFieldRule {
+    maxFileSize: number;
+    maxFiles: number;
+    mimeTypes: string[] | null;
+    tempDir: string | null;
+    required: boolean;
+}
+
+/**
+ * Upload limits of a route, built once at startup from its file parameters.
+ * Files sent under a field no parameter declares are rejected.
+ */
+export interface UploadRules {
+    fields: Record<string, UploadFieldRule>;
+    /** Set by `@UploadedFiles()` without a field name */
+    any: UploadFieldRule | null;
+}
+
+interface UploadParam {
+    type: string;
+    key?: string;
+    options?: UploadOptions;
+}
+
+export function createUploadRules(params: UploadParam[]): UploadRules | null {
+    const fileParams = params.filter(p => p.type === 'file' || p.type === 'files');
+
+    if (fileParams.length === 0) {
+        return null;
+    }
+
+    const rules: UploadRules = { fields: {}, any: null };
+
+    for (const param of fileParams) {
+        const rule = toRule(param.options, param.type === 'file' ? 1 : Infinity);
+
+        if (!param.key) {
+            rules.any = rules.any ? mergeRules(rules.any, rule) : rule;
+            continue;
+        }
+
+        const existing = rules.fields[param.key];
+        rules.fields[param.key] = existing ? mergeRules(existing, rule) : rule;
+    }
+
+    return rules;
+}
+
+/**
+ * Limits of files sent to routes without upload decorators (or parsed by `ctx.parseBody()`).
+ */
+export const DEFAULT_UPLOAD_RULE: UploadFieldRule = toRule({}, Infinity);
+
+/**
+ * Max size of a multipart body - a route accepting larger files accepts a larger body.
+ */
+export function maxBodySize(rules: UploadRules | null): number {
+    if (!rules) {
+        return DEFAULT_MAX_BODY_SIZE;
+    }
+
+    const sizes = Object.values(rules.fields).map(rule => rule.maxFileSize);
+
+    if (rules.any) {
+        sizes.push(rules.any.maxFileSize);
+    }
+
+    return Math.max(DEFAULT_MAX_BODY_SIZE, ...sizes);
+}
+
+/**
+ * Limits applying to a file part, or null when the field is not expected.
+ */
+export function ruleFor(rules: UploadRules, field: string): UploadFieldRule | null {
+    return rules.fields[field] ?? rules.any;
+}
+
+export function assertMimeType(rule: UploadFieldRule, field: string, type: string): void {
+    if (!rule.mimeTypes) {
+        return;
+    }
+
+    const mime = type.split(';')[0].trim().toLowerCase();
+    const allowed = rule.mimeTypes.some(pattern => pattern.endsWith('/*')
+        ? mime.startsWith(pattern.slice(0, -1))
+        : mime === pattern);
+
+    if (!allowed) {
+        throw new BadRequestException(`File type "${mime || 'unknown'}" is not allowed for "${field}"`);
+    }
+}
+
+export function assertRequiredFiles(rules: UploadRules, files: Record<string, File[]>): void {
+    for (const [field, rule] of Object.entries(rules.fields)) {
+        if (rule.required && !files[field]?.length) {
+            throw new BadRequestException(`Missing file "${field}"`);
+        }
+    }
+
+    if (rules.any?.required && Object.keys(files).length === 0) {
+        throw new BadRequestException('No files uploaded');
+    }
+}
+
+/**
+ * Check files parsed without limits (e.g. by a middleware calling `parseBody()` first).
+ */
+export function assertUploads(rules: UploadRules, files: Record<string, File[]>): void {
+    let anyCount = 0;
+
+    for (const [field, list] of Object.entries(files)) {
+        const rule = ruleFor(rules, field);
+
+        if (!rule) {
+            throw new BadRequestException(`Unexpected file field "${field}"`);
+        }
+
+        const count = rules.fields[field] ? list.length : (anyCount += list.length);
+
+        if (count > rule.maxFiles) {
+            throw tooManyFiles(rule, field);
+        }
+
+        for (const file of list) {
+            assertMimeType(rule, field, file.type);
+            assertFileSize(rule, field, file.size);
+        }
+    }
+
+    assertRequiredFiles(rules, files);
+}
+
+export function assertFileSize(rule: UploadFieldRule, field: string, size: number): void {
+    if (size > rule.maxFileSize) {
+        throw new BadRequestException(`File "${field}" exceeds the maximum size of ${rule.maxFileSize} bytes`);
+    }
+}
+
+export function tooManyFiles(rule: UploadFieldRule, field: string): BadRequestException {
+    return new BadRequestException(rule.maxFiles === 1
+        ? `Only one file is allowed for "${field}"`
+        : `Too many files for "${field}" (max ${rule.maxFiles})`);
+}
+
+function toRule(options: UploadOptions = {}, maxFiles: number): UploadFieldRule {
+    return {
+        maxFileSize: options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+        maxFiles: Math.min(options.maxFiles ?? Infinity, maxFiles),
+        mimeTypes: options.mimeTypes?.map(type => type.toLowerCase()) ?? null,
+        tempDir: options.tempDir === true ? tmpdir() : options.tempDir || null,
+        required: options.required ?? false
+    };
+}
+
+/**
+ * Two parameters on the same field - the stricter limits win.
+ */
+function mergeRules(a: UploadFieldRule, b: UploadFieldRule): UploadFieldRule {
+    return {
+        maxFileSize: Math.min(a.maxFileSize, b.maxFileSize),
+        maxFiles: Math.min(a.maxFiles, b.maxFiles),
+        mimeTypes: a.mimeTypes && b.mimeTypes
+            ? a.mimeTypes.filter(type => b.mimeTypes!.includes(type))
+            : a.mimeTypes ?? b.mimeTypes,
+        tempDir: a.tempDir ?? b.tempDir,
+        required: a.required || b.required
+    };
+}
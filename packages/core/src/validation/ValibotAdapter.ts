@@ -24,6 +24,7 @@ export class ValibotAdapter implements ValidatorAdapter {
 
     private schemaCache = new Map<any, any>();
     private valibot: any = null;
+    private jsonSchemaConverter?: ((schema: any, config: any) => Record<string, any>) | null;
 
     constructor() {
         // Lazy load valibot
@@ -75,6 +76,42 @@ export class ValibotAdapter implements ValidatorAdapter {
         throw new ValidationException(result.errors!);
     }
 
+    /**
+     * Requires the optional `@valibot/to-json-schema` package.
+     */
+    toJsonSchema(target: any): Record<string, any> | undefined {
+        const schema = this.getOrCacheSchema(target);
+
+        if (!schema) {
+            return undefined;
+        }
+
+        const convert = this.loadJsonSchemaConverter();
+
+        if (!convert) {
+            return undefined;
+        }
+
+        try {
+            return convert(schema, { errorMode: 'ignore' });
+        } catch {
+            return undefined;
+        }
+    }
+
+    private loadJsonSchemaConverter(): ((schema: any, config: any) => Record<string, any>) | null {
+        if (this.jsonSchemaConverter === undefined) {
+            try {
+                this.jsonSchemaConverter = require('@valibot/to-json-schema').toJsonSchema;
+            } catch {
+                this.jsonSchemaConverter = null;
+                console.warn('@valibot/to-json-schema is not installed - Valibot DTOs are documented as plain objects');
+            }
+        }
+
+        return this.jsonSchemaConverter;
+    }
+
     private getOrCacheSchema(target: any): any {
         let schema = this.schemaCache.get(target);
 
@@ -38,6 +38,12 @@ export interface ValidatorAdapter {
      * Used when you want to short-circuit on failure.
      */
     validateOrThrow<T>(target: any, value: unknown): T;
+
+    /**
+     * Convert the target's schema to JSON Schema (used for OpenAPI generation).
+     * Optional - adapters without it produce documents without DTO schemas.
+     */
+    toJsonSchema?(target: any): Record<string, any> | undefined;
 }
 
 /**
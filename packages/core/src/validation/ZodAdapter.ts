@@ -64,6 +64,19 @@ export class ZodAdapter implements ValidatorAdapter {
         throw new ValidationException(errors);
     }
 
+    toJsonSchema(target: any): Record<string, any> | undefined {
+        const schema = this.getOrCacheSchema(target);
+
+        if (!schema) {
+            return undefined;
+        }
+
+        // Input shape - what clients send (defaults make fields optional)
+        const { toJSONSchema } = require('zod');
+
+        return toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+    }
+
     private getOrCacheSchema(target: any): any {
         let schema = this.schemaCache.get(target);
 
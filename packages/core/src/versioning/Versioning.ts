@@ -0,0 +1,95 @@
+/**
+ * Marks a route as serving every version - and requests without one.
+ */
+export const VERSION_NEUTRAL = Symbol('turbo:version-neutral');
+
+export type VersionValue = string | typeof VERSION_NEUTRAL | (string | typeof VERSION_NEUTRAL)[];
+
+export type VersioningType = 'uri' | 'header' | 'media-type';
+
+export interface VersioningConfig {
+    /**
+     * - `uri`: `/v2/users` - registered as plain routes
+     * - `header`: `X-API-Version: 2`
+     * - `media-type`: `Accept: application/json;v=2`
+     */
+    type: VersioningType;
+    /** Version of routes that declare none. Unset: they stay unversioned */
+    defaultVersion?: VersionValue;
+    /** URI segment prefix (default: "v") */
+    prefix?: string;
+    /** Request header carrying the version (default: X-API-Version) */
+    header?: string;
+    /** Accept media type parameter carrying the version (default: "v") */
+    key?: string;
+}
+
+/**
+ * Handlers of one path and method, by version.
+ */
+export interface VersionedHandlers {
+    versions: Map<string, Response | Function>;
+    neutral: Response | Function | null;
+}
+
+type RouteHandler = Response | Function;
+
+/**
+ * Versions a route serves: its own, else its controller's, else the default.
+ * `null` when the route is unversioned.
+ */
+export function resolveVersions(...candidates: (VersionValue | undefined)[]): (string | typeof VERSION_NEUTRAL)[] | null {
+    const value = candidates.find(candidate => candidate !== undefined);
+
+    if (value === undefined) {
+        return null;
+    }
+
+    const versions: (string | typeof VERSION_NEUTRAL)[] = Array.isArray(value) ? value : [value];
+
+    // Numeric versions from untyped callers are compared as strings
+    return versions.map(v => v === VERSION_NEUTRAL ? VERSION_NEUTRAL : String(v));
+}
+
+/**
+ * Read the requested version from a header or an Accept media type parameter.
+ */
+export function createVersionExtractor(config: VersioningConfig): (req: Request) => string | null {
+    if (config.type === 'header') {
+        const header = config.header ?? 'X-API-Version';
+
+        return req => req.headers.get(header)?.trim() || null;
+    }
+
+    const pattern = new RegExp(`;\\s*${escapeRegExp(config.key ?? 'v')}=([^;,\\s]+)`, 'i');
+
+    return req => pattern.exec(req.headers.get('accept') ?? '')?.[1] ?? null;
+}
+
+/**
+ * Route handler picking the version's handler. Requests without a version use
+ * the default version; unmatched versions fall back to the neutral handler.
+ */
+export function createVersionDispatcher(
+    handlers: VersionedHandlers,
+    extract: (req: Request) => string | null,
+    defaultVersion: string | null,
+    notFound: (req: Request) => Response
+): (req: Request, server: any) => any {
+    const { versions, neutral } = handlers;
+
+    return (req: Request, server: any) => {
+        const version = extract(req) ?? defaultVersion;
+        const handler: RouteHandler | null = (version !== null && versions.get(version)) || neutral;
+
+        if (!handler) {
+            return notFound(req).clone();
+        }
+
+        return handler instanceof Response ? handler.clone() : handler(req, server);
+    };
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,138 @@
+import type { ServerWebSocket, WebSocketHandler } from 'bun';
+import type { Context } from '../context/Context';
+import type { GatewayHandlerInfo } from '../metadata';
+import { HttpException } from '../exceptions/HttpException';
+
+/**
+ * Gateway handlers grouped by type, compiled once at startup.
+ */
+export interface GatewayHandlers {
+    open: string[];
+    close: string[];
+    events: Map<string, string>;
+    fallback: string | null;
+}
+
+/**
+ * Data attached to every connection at upgrade time.
+ */
+export interface WebSocketData {
+    /** Context of the upgrade request (locals set by middlewares/guards are kept) */
+    ctx: Context;
+    gateway: any;
+    handlers: GatewayHandlers;
+}
+
+/**
+ * Bun server-side socket passed to gateway handlers.
+ */
+export type GatewaySocket = ServerWebSocket<WebSocketData>;
+
+export function groupGatewayHandlers(infos: GatewayHandlerInfo[]): GatewayHandlers {
+    const handlers: GatewayHandlers = { open: [], close: [], events: new Map(), fallback: null };
+
+    for (const info of infos) {
+        if (info.type === 'open') {
+            handlers.open.push(info.handlerName);
+        } else if (info.type === 'close') {
+            handlers.close.push(info.handlerName);
+        } else if (info.event) {
+            handlers.events.set(info.event, info.handlerName);
+        } else {
+            handlers.fallback = info.handlerName;
+        }
+    }
+
+    return handlers;
+}
+
+/**
+ * Parse `{ "event": "...", "data": ... }` envelopes; anything else is not an event.
+ */
+function parseEnvelope(message: string | Buffer): { event: string; data: any } | null {
+    if (typeof message !== 'string' || message.charCodeAt(0) !== 123 /* { */) {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(message);
+
+        return typeof parsed?.event === 'string' ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+function send(socket: GatewaySocket, payload: any): void {
+    if (typeof payload === 'string' || payload instanceof Uint8Array || payload instanceof ArrayBuffer) {
+        socket.send(payload);
+        return;
+    }
+
+    socket.send(JSON.stringify(payload));
+}
+
+/**
+ * Errors thrown by handlers are reported to the client as an `exception` event.
+ */
+function reportError(socket: GatewaySocket, error: any): void {
+    if (error instanceof HttpException) {
+        send(socket, { event: 'exception', data: { statusCode: error.statusCode, message: error.message } });
+        return;
+    }
+
+    console.error('Unhandled WebSocket error:', error);
+    send(socket, { event: 'exception', data: { statusCode: 500, message: 'Internal Server Error' } });
+}
+
+async function invoke(socket: GatewaySocket, handlerName: string, args: any[]): Promise<any> {
+    try {
+        return await socket.data.gateway[handlerName](socket, ...args);
+    } catch (error) {
+        reportError(socket, error);
+        return undefined;
+    }
+}
+
+/**
+ * Bun `websocket` handler dispatching to the gateway bound at upgrade time.
+ */
+export function createWebSocketHandler(): WebSocketHandler<WebSocketData> {
+    return {
+        async open(socket) {
+            for (const handlerName of socket.data.handlers.open) {
+                await invoke(socket, handlerName, []);
+            }
+        },
+
+        async message(socket, message) {
+            const { events, fallback } = socket.data.handlers;
+            const envelope = parseEnvelope(message);
+            const handlerName = envelope ? events.get(envelope.event) : undefined;
+
+            if (envelope && handlerName) {
+                const result = await invoke(socket, handlerName, [envelope.data]);
+
+                if (result !== undefined) {
+                    send(socket, { event: envelope.event, data: result });
+                }
+
+                return;
+            }
+
+            if (fallback) {
+                const result = await invoke(socket, fallback, [message]);
+
+                if (result !== undefined) {
+                    send(socket, result);
+                }
+            }
+        },
+
+        async close(socket, code, reason) {
+            for (const handlerName of socket.data.handlers.close) {
+                await invoke(socket, handlerName, [code, reason]);
+            }
+        }
+    };
+}
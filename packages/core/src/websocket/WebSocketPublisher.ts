@@ -0,0 +1,40 @@
+import type { Server } from 'bun';
+
+/**
+ * Injectable access to Bun's pub/sub topics.
+ * Broadcast to every socket subscribed with `socket.subscribe(topic)`,
+ * from gateways, controllers or services.
+ */
+export class WebSocketPublisher {
+    private server: Server<any> | null = null;
+
+    /**
+     * @internal Called by Carno once the server is listening.
+     */
+    attach(server: Server<any>): void {
+        this.server = server;
+    }
+
+    /**
+     * Publish to a topic. Non-string payloads are sent as JSON.
+     * Returns the number of bytes sent, 0 when the server is not running.
+     */
+    publish(topic: string, payload: any): number {
+        if (!this.server) {
+            return 0;
+        }
+
+        const data = typeof payload === 'string' || payload instanceof Uint8Array || payload instanceof ArrayBuffer
+            ? payload
+            : JSON.stringify(payload);
+
+        return this.server.publish(topic, data);
+    }
+
+    /**
+     * Number of sockets currently subscribed to a topic.
+     */
+    subscriberCount(topic: string): number {
+        return this.server?.subscriberCount(topic) ?? 0;
+    }
+}
@@ -0,0 +1,66 @@
+import {
+    GATEWAY_META,
+    GATEWAY_HANDLERS_META,
+    type GatewayMeta,
+    type GatewayHandlerInfo
+} from '../metadata';
+
+/**
+ * Marks a class as a WebSocket gateway listening on a path.
+ * Gateways are resolved from the Container and may inject services.
+ *
+ * @example
+ * ```typescript
+ * @WebSocketGateway('/ws')
+ * class ChatGateway {
+ *   @OnMessage('chat')
+ *   chat(socket: GatewaySocket, message: string) {
+ *     socket.publish('room', message);
+ *   }
+ * }
+ * ```
+ */
+export function WebSocketGateway(path: string = '/'): ClassDecorator {
+    return (target) => {
+        const meta: GatewayMeta = {
+            path: path.startsWith('/') ? path : '/' + path
+        };
+
+        Reflect.defineMetadata(GATEWAY_META, meta, target);
+    };
+}
+
+function addHandler(type: GatewayHandlerInfo['type'], event?: string): MethodDecorator {
+    return (target: any, propertyKey: string | symbol) => {
+        const handlers: GatewayHandlerInfo[] = Reflect.getMetadata(GATEWAY_HANDLERS_META, target.constructor) || [];
+
+        handlers.push({ type, handlerName: String(propertyKey), event });
+
+        Reflect.defineMetadata(GATEWAY_HANDLERS_META, handlers, target.constructor);
+    };
+}
+
+/**
+ * Called when a client connection is opened: `(socket)`.
+ */
+export function OnOpen(): MethodDecorator {
+    return addHandler('open');
+}
+
+/**
+ * Called for incoming messages: `(socket, data)`.
+ *
+ * With an event name, handles JSON messages shaped `{ "event": "...", "data": ... }`
+ * and receives `data`. A returned value is sent back as `{ event, data }`.
+ * Without an event name, receives every message that no named handler matched.
+ */
+export function OnMessage(event?: string): MethodDecorator {
+    return addHandler('message', event);
+}
+
+/**
+ * Called when a client connection is closed: `(socket, code, reason)`.
+ */
+export function OnClose(): MethodDecorator {
+    return addHandler('close');
+}
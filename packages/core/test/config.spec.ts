@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { Carno, ConfigService, Controller, Get, Schema, loadConfig, parseEnv } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+@Schema(z.object({
+    CARNO_TEST_PORT: z.coerce.number().int(),
+    CARNO_TEST_DB_URL: z.string().url(),
+    CARNO_TEST_DEBUG: z.enum(['true', 'false']).transform(v => v === 'true').default(false)
+}))
+class AppEnv {
+    CARNO_TEST_PORT!: number;
+    CARNO_TEST_DB_URL!: string;
+    CARNO_TEST_DEBUG!: boolean;
+}
+
+describe('Configuration', () => {
+    let envDir: string;
+
+    beforeAll(() => {
+        envDir = mkdtempSync(join(tmpdir(), 'carno-config-'));
+
+        writeFileSync(join(envDir, '.env'), [
+            '# shared defaults',
+            'CARNO_TEST_PORT=3000',
+            'CARNO_TEST_DB_HOST=localhost',
+            'CARNO_TEST_DB_URL=postgres://${CARNO_TEST_DB_HOST}:5432/app'
+        ].join('\n'));
+
+        writeFileSync(join(envDir, '.env.production'), 'CARNO_TEST_DB_HOST=db.internal\nCARNO_TEST_DB_URL="postgres://${CARNO_TEST_DB_HOST}:5432/prod"\n');
+        writeFileSync(join(envDir, '.env.broken'), 'CARNO_TEST_PORT=eighty\nCARNO_TEST_DB_URL=not a url\n');
+    });
+
+    afterAll(() => {
+        rmSync(envDir, { recursive: true, force: true });
+    });
+
+    it('parses dotenv syntax', () => {
+        const values = parseEnv([
+            'export A=1',
+            'B = two words # comment',
+            "C='${A} literal'",
+            'D="line\\nbreak"',
+            'E=${A}-$F',
+            'EMPTY='
+        ].join('\n'), { F: 'outer' });
+
+        expect(values).toEqual({ A: '1', B: 'two words', C: '${A} literal', D: 'line\nbreak', E: '1-outer', EMPTY: '' });
+    });
+
+    it('loads the env files of the environment and validates them against the schema', () => {
+        const config = loadConfig({ schema: AppEnv, envDir, environment: 'production' });
+
+        expect(config.environment).toBe('production');
+        expect(config.get('CARNO_TEST_PORT')).toBe(3000);
+        expect(config.get('CARNO_TEST_DB_URL')).toBe('postgres://db.internal:5432/prod');
+        expect(config.get('CARNO_TEST_DEBUG')).toBe(false);
+        expect(config.all()).not.toHaveProperty('CARNO_TEST_DB_HOST');
+    });
+
+    it('lets process.env override the env files', () => {
+        process.env.CARNO_TEST_PORT = '8080';
+
+        try {
+            expect(loadConfig({ schema: AppEnv, envDir }).get('CARNO_TEST_PORT')).toBe(8080);
+            expect(loadConfig({ schema: AppEnv, envDir, ignoreProcessEnv: true }).get('CARNO_TEST_PORT')).toBe(3000);
+        } finally {
+            delete process.env.CARNO_TEST_PORT;
+        }
+    });
+
+    it('fails fast listing every invalid value', () => {
+        expect(() => new Carno({ configuration: { schema: AppEnv, envDir, environment: 'broken', ignoreProcessEnv: true } }))
+            .toThrow(/Invalid configuration for "broken" \(\.env, \.env\.broken\):\n {2}- CARNO_TEST_PORT: .+\n {2}- CARNO_TEST_DB_URL: /);
+    });
+
+    it('injects the ConfigService and the validated schema class', async () => {
+        @Controller('/settings')
+        class SettingsController {
+            constructor(private config: ConfigService<AppEnv>, private env: AppEnv) { }
+
+            @Get()
+            settings() {
+                return { port: this.config.get('CARNO_TEST_PORT'), debug: this.env.CARNO_TEST_DEBUG };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const res = await harness.get('/settings');
+
+                expect(await res.json()).toEqual({ port: 3000, debug: false });
+                expect(harness.resolve(ConfigService).getOrThrow('CARNO_TEST_DB_URL')).toBe('postgres://localhost:5432/app');
+            },
+            {
+                controllers: [SettingsController],
+                config: { configuration: loadConfig({ schema: AppEnv, envDir, environment: 'test', ignoreProcessEnv: true }) }
+            }
+        );
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'bun:test';
+import { Controller, Get, Ctx, Context, CookieSigner, parseCookies, serializeCookie } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+describe('Cookies', () => {
+    it('parses and serializes cookie headers', () => {
+        const cookies = parseCookies('theme=dark; name=J%C3%BCrgen;  empty=');
+
+        expect(cookies.get('theme')).toBe('dark');
+        expect(cookies.get('name')).toBe('Jürgen');
+        expect(cookies.get('empty')).toBe('');
+
+        expect(serializeCookie('sid', 'a b', {
+            maxAge: 60,
+            domain: 'example.com',
+            httpOnly: true,
+            sameSite: 'None',
+            partitioned: true
+        })).toBe('sid=a%20b; Max-Age=60; Domain=example.com; Path=/; HttpOnly; Secure; SameSite=None; Partitioned');
+    });
+
+    it('reads, sets and deletes cookies through ctx.cookies', async () => {
+        @Controller('/prefs')
+        class PrefsController {
+            @Get()
+            read(@Ctx() ctx: Context) {
+                ctx.cookies.set('visited', '1', { httpOnly: true, maxAge: 3600 });
+                ctx.cookies.delete('legacy');
+
+                return { theme: ctx.cookies.get('theme'), missing: ctx.cookies.get('missing') };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/prefs', { headers: { Cookie: 'theme=dark; legacy=x' } });
+                const setCookies = response.headers.getSetCookie();
+
+                expect(await response.json()).toEqual({ theme: 'dark', missing: null });
+                expect(setCookies).toContain('visited=1; Max-Age=3600; Path=/; HttpOnly');
+                expect(setCookies.find(c => c.startsWith('legacy=;'))).toContain('Max-Age=0');
+            },
+            { controllers: [PrefsController] }
+        );
+    });
+
+    it('signs cookies and rejects tampered values', async () => {
+        @Controller('/signed')
+        class SignedController {
+            @Get('/set')
+            set(@Ctx() ctx: Context) {
+                ctx.cookies.set('user', '42', { signed: true });
+                return 'ok';
+            }
+
+            @Get('/get')
+            get(@Ctx() ctx: Context) {
+                return { user: ctx.cookies.get('user', { signed: true }) };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const setCookie = (await harness.get('/signed/set')).headers.get('set-cookie')!;
+                const pair = setCookie.split(';')[0];
+
+                expect(pair.startsWith('user=42.')).toBe(true);
+
+                const valid = await harness.get('/signed/get', { headers: { Cookie: pair } });
+                const tampered = await harness.get('/signed/get', { headers: { Cookie: pair.replace('user=42', 'user=43') } });
+                const unsigned = await harness.get('/signed/get', { headers: { Cookie: 'user=42' } });
+
+                expect(await valid.json()).toEqual({ user: '42' });
+                expect(await tampered.json()).toEqual({ user: null });
+                expect(await unsigned.json()).toEqual({ user: null });
+            },
+            { controllers: [SignedController], config: { cookies: { secret: 'test-secret' } } }
+        );
+    });
+
+    it('sets cookies on a copy of a shared response', async () => {
+        const accepted = new Response(null, { status: 204 });
+
+        @Controller('/consent')
+        class ConsentController {
+            @Get()
+            accept(@Ctx() ctx: Context) {
+                ctx.cookies.set('consent', ctx.query.user);
+
+                return accepted;
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const first = await harness.get('/consent?user=ana');
+                const second = await harness.get('/consent?user=bob');
+
+                expect(first.headers.getSetCookie()).toEqual(['consent=ana; Path=/']);
+                expect(second.headers.getSetCookie()).toEqual(['consent=bob; Path=/']);
+                expect(accepted.headers.getSetCookie()).toEqual([]);
+            },
+            { controllers: [ConsentController] }
+        );
+    });
+
+    it('verifies cookies signed with a rotated secret', () => {
+        const previous = new CookieSigner('old-secret');
+        const current = new CookieSigner(['new-secret', 'old-secret']);
+
+        expect(current.unsign(previous.sign('value'))).toBe('value');
+        expect(new CookieSigner('new-secret').unsign(previous.sign('value'))).toBeNull();
+    });
+});
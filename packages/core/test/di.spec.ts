@@ -1,5 +1,6 @@
 import { describe, expect, test, beforeEach } from 'bun:test';
-import { Container, Scope, Service, Inject, Controller, Get, Param } from '../src';
+import { Container, Scope, Service, Inject, InjectionToken, Controller, Get, Param, Context, Use } from '../src';
+import type { CarnoMiddleware, CarnoClosure } from '../src';
 import { withTestApp } from '../src/testing/TestHarness';
 
 describe('Dependency Injection', () => {
@@ -326,4 +327,278 @@ describe('Dependency Injection', () => {
             );
         });
     });
+
+    describe('Request scope', () => {
+        test('creates a fresh REQUEST-scoped controller per request', async () => {
+            let created = 0;
+
+            @Controller({ path: '/per-request', scope: Scope.REQUEST })
+            class PerRequestController {
+                id = ++created;
+
+                @Get()
+                getId() {
+                    return { id: this.id };
+                }
+            }
+
+            await withTestApp(
+                async (harness) => {
+                    const first = await (await harness.get('/per-request')).json();
+                    const second = await (await harness.get('/per-request')).json();
+
+                    expect(first.id).toBe(1);
+                    expect(second.id).toBe(2);
+                },
+                {
+                    controllers: [PerRequestController],
+                    listen: true,
+                }
+            );
+        });
+
+        test('injects the current Context and shares instances within one request', async () => {
+            @Service({ scope: Scope.REQUEST })
+            class CurrentTenant {
+                constructor(public ctx: Context) { }
+
+                get name() {
+                    return this.ctx.headers.get('x-tenant');
+                }
+            }
+
+            @Service()
+            class TenantMiddleware implements CarnoMiddleware {
+                constructor(private tenant: CurrentTenant) { }
+
+                async handle(ctx: Context, next: CarnoClosure) {
+                    ctx.locals.tenant = this.tenant;
+                    await next();
+                }
+            }
+
+            // Singleton by declaration - bubbles to REQUEST because of CurrentTenant
+            @Controller('/tenant')
+            @Use(TenantMiddleware)
+            class TenantController {
+                constructor(private tenant: CurrentTenant) { }
+
+                @Get()
+                get(ctx: Context) {
+                    return {
+                        name: this.tenant.name,
+                        shared: ctx.locals.tenant === this.tenant,
+                    };
+                }
+            }
+
+            await withTestApp(
+                async (harness) => {
+                    const acme = await harness.get('/tenant', { headers: { 'x-tenant': 'acme' } });
+                    const globex = await harness.get('/tenant', { headers: { 'x-tenant': 'globex' } });
+
+                    expect(await acme.json()).toEqual({ name: 'acme', shared: true });
+                    expect(await globex.json()).toEqual({ name: 'globex', shared: true });
+                },
+                {
+                    controllers: [TenantController],
+                    services: [CurrentTenant, TenantMiddleware],
+                    listen: true,
+                }
+            );
+        });
+
+        test('keeps singleton controllers resolved once', async () => {
+            let created = 0;
+
+            @Controller('/singleton')
+            class SingletonController {
+                id = ++created;
+
+                @Get('/:n')
+                getId(@Param('n') n: string) {
+                    return { id: this.id, n };
+                }
+            }
+
+            await withTestApp(
+                async (harness) => {
+                    await harness.get('/singleton/1');
+                    const second = await (await harness.get('/singleton/2')).json();
+
+                    expect(second).toEqual({ id: 1, n: '2' });
+                    expect(created).toBe(1);
+                },
+                {
+                    controllers: [SingletonController],
+                    listen: true,
+                }
+            );
+        });
+
+        test('isRequestScoped follows scope bubbling', () => {
+            const container = new Container();
+
+            @Service({ scope: Scope.REQUEST })
+            class RequestBound { }
+
+            @Service()
+            class DependsOnRequest {
+                constructor(public dep: RequestBound) { }
+            }
+
+            @Service()
+            class Standalone { }
+
+            container.register(RequestBound);
+            container.register(DependsOnRequest);
+            container.register(Standalone);
+
+            expect(container.isRequestScoped(RequestBound)).toBe(true);
+            expect(container.isRequestScoped(DependsOnRequest)).toBe(true);
+            expect(container.isRequestScoped(Standalone)).toBe(false);
+        });
+    });
+
+    describe('Tokens and factories', () => {
+        interface AppConfig {
+            name: string;
+        }
+
+        const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG');
+        const API_URL = 'API_URL';
+        const CLOCK = Symbol('CLOCK');
+
+        test('resolves string, symbol and InjectionToken keys with @Inject', () => {
+            const container = new Container();
+
+            @Service()
+            class Greeter {
+                constructor(
+                    @Inject(APP_CONFIG) public config: AppConfig,
+                    @Inject(API_URL) public url: string,
+                    @Inject(CLOCK) public clock: () => number
+                ) { }
+            }
+
+            container.register({ token: APP_CONFIG, useValue: { name: 'carno' } });
+            container.register({ token: API_URL, useValue: 'http://api' });
+            container.register({ token: CLOCK, useValue: () => 42 });
+            container.register(Greeter);
+
+            const greeter = container.get(Greeter);
+
+            expect(greeter.config).toEqual({ name: 'carno' });
+            expect(greeter.url).toBe('http://api');
+            expect(greeter.clock()).toBe(42);
+        });
+
+        test('keeps constructor positions when mixing @Inject and class types', () => {
+            const container = new Container();
+
+            @Service()
+            class Logger { }
+
+            @Service()
+            class Client {
+                constructor(@Inject(API_URL) public url: string, public logger: Logger, public retries?: number) { }
+            }
+
+            container.register({ token: API_URL, useValue: 'http://api' });
+            container.register(Logger);
+            container.register(Client);
+
+            const client = container.get(Client);
+
+            expect(client.url).toBe('http://api');
+            expect(client.logger).toBeInstanceOf(Logger);
+            expect(client.retries).toBeUndefined();
+        });
+
+        test('builds providers with useFactory and an inject list', () => {
+            const container = new Container();
+
+            @Service()
+            class Logger { }
+
+            container.register(Logger);
+            container.register({ token: API_URL, useValue: 'http://api' });
+            container.register({
+                token: 'client',
+                useFactory: (url: string, logger: Logger) => ({ url, logger }),
+                inject: [API_URL, Logger]
+            });
+
+            const client = container.get<{ url: string; logger: Logger }>('client');
+
+            expect(client.url).toBe('http://api');
+            expect(client.logger).toBe(container.get(Logger));
+            expect(container.get('client')).toBe(client);
+        });
+
+        test('awaits async factories during bootstrap', async () => {
+            const DB = new InjectionToken<{ url: string; connected: boolean }>('DB');
+
+            @Service()
+            class UserRepository {
+                constructor(@Inject(DB) public db: { url: string; connected: boolean }) { }
+            }
+
+            @Controller('/db')
+            class DbController {
+                constructor(private repository: UserRepository) { }
+
+                @Get()
+                status(ctx: Context) {
+                    return { ...this.repository.db, path: ctx.path };
+                }
+            }
+
+            await withTestApp(
+                async (harness) => {
+                    const response = await harness.get('/db');
+
+                    expect(await response.json()).toEqual({ url: 'postgres://db', connected: true, path: '/db' });
+                },
+                {
+                    controllers: [DbController],
+                    services: [
+                        UserRepository,
+                        {
+                            token: DB,
+                            useFactory: async (config: AppConfig) => {
+                                await Bun.sleep(5);
+                                return { url: `postgres://${config.name}`, connected: true };
+                            },
+                            inject: [APP_CONFIG]
+                        },
+                        {
+                            token: APP_CONFIG,
+                            useFactory: async () => {
+                                await Bun.sleep(5);
+                                return { name: 'db' };
+                            }
+                        }
+                    ],
+                    listen: true,
+                }
+            );
+        });
+
+        test('rejects async factories resolved synchronously', () => {
+            const container = new Container();
+
+            container.register({ token: 'lazy', useFactory: async () => 1, scope: Scope.INSTANCE });
+
+            expect(() => container.get('lazy')).toThrow('Provider lazy has an async factory');
+        });
+
+        test('requires a way to build non-class tokens', () => {
+            const container = new Container();
+
+            expect(() => container.register({ token: 'nothing' })).toThrow(
+                'Provider nothing needs useClass, useValue or useFactory'
+            );
+        });
+    });
 });
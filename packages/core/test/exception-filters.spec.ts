@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    Controller,
+    Get,
+    Catch,
+    UseFilters,
+    Service,
+    Context,
+    HttpException,
+    NotFoundException,
+} from '../src';
+import type { ExceptionFilter } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+class RecordNotFoundError extends Error {
+    constructor(public readonly id: string) {
+        super(`Record ${id} not found`);
+    }
+}
+
+@Catch(RecordNotFoundError)
+class RecordNotFoundFilter implements ExceptionFilter<RecordNotFoundError> {
+    catch(error: RecordNotFoundError, ctx: Context): Response {
+        return Response.json(
+            { type: 'about:blank', title: 'Not Found', status: 404, detail: error.message, instance: ctx.path },
+            { status: 404, headers: { 'Content-Type': 'application/problem+json' } }
+        );
+    }
+}
+
+describe('Exception filters', () => {
+    it('maps a domain error to a custom response on a route', async () => {
+        @Controller('/records')
+        class RecordController {
+            @Get('/:id')
+            @UseFilters(RecordNotFoundFilter)
+            find(ctx: Context) {
+                throw new RecordNotFoundError(ctx.params.id);
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/records/7');
+
+                expect(response.status).toBe(404);
+                expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+                expect(await response.json()).toEqual({
+                    type: 'about:blank',
+                    title: 'Not Found',
+                    status: 404,
+                    detail: 'Record 7 not found',
+                    instance: '/records/7',
+                });
+            },
+            {
+                controllers: [RecordController],
+                listen: true,
+            }
+        );
+    });
+
+    it('falls back to the default error handling when no filter matches', async () => {
+        @Controller('/other')
+        @UseFilters(RecordNotFoundFilter)
+        class OtherController {
+            @Get('/http')
+            http(ctx: Context) {
+                throw new NotFoundException(`Missing ${ctx.path}`);
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/other/http');
+
+                expect(response.status).toBe(404);
+                expect(await response.json()).toEqual({ statusCode: 404, message: 'Missing /other/http' });
+            },
+            {
+                controllers: [OtherController],
+                listen: true,
+            }
+        );
+    });
+
+    it('prefers route filters over controller and global filters', async () => {
+        const calls: string[] = [];
+
+        @Catch()
+        class GlobalFilter implements ExceptionFilter {
+            catch(): Response {
+                calls.push('global');
+                return new Response('global', { status: 500 });
+            }
+        }
+
+        @Service()
+        @Catch(HttpException)
+        class ControllerFilter implements ExceptionFilter<HttpException> {
+            catch(error: HttpException): Response {
+                calls.push('controller');
+                return new Response('controller', { status: error.statusCode });
+            }
+        }
+
+        @Catch(HttpException)
+        class RouteFilter implements ExceptionFilter<HttpException> {
+            catch(): Response {
+                calls.push('route');
+                return new Response('route', { status: 418 });
+            }
+        }
+
+        @Controller('/layers')
+        @UseFilters(ControllerFilter)
+        class LayersController {
+            @Get('/route')
+            @UseFilters(RouteFilter)
+            route(ctx: Context) {
+                throw new NotFoundException(ctx.path);
+            }
+
+            @Get('/controller')
+            controller(ctx: Context) {
+                throw new NotFoundException(ctx.path);
+            }
+
+            @Get('/global')
+            global(ctx: Context) {
+                throw new Error(ctx.path);
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                expect((await harness.get('/layers/route')).status).toBe(418);
+                expect((await harness.get('/layers/controller')).status).toBe(404);
+                expect(await (await harness.get('/layers/global')).text()).toBe('global');
+                expect(calls).toEqual(['route', 'controller', 'global']);
+            },
+            {
+                controllers: [LayersController],
+                config: { globalFilters: [GlobalFilter] },
+                listen: true,
+            }
+        );
+    });
+
+    it('catches errors thrown by middlewares', async () => {
+        @Controller('/guarded')
+        @UseFilters({
+            catch: (error: Error) => Response.json({ caught: error.message }, { status: 400 }),
+        })
+        class GuardedController {
+            @Get()
+            index() {
+                return { ok: true };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/guarded');
+
+                expect(response.status).toBe(400);
+                expect(await response.json()).toEqual({ caught: 'bad middleware' });
+            },
+            {
+                controllers: [GuardedController],
+                config: {
+                    globalMiddlewares: [() => { throw new Error('bad middleware'); }],
+                },
+                listen: true,
+            }
+        );
+    });
+});
@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, spyOn } from "bun:test";
+import {
+  Carno,
+  Service,
+  Controller,
+  Get,
+  OnApplicationInit,
+  OnApplicationBoot,
+  OnApplicationShutdown
+} from "../src";
+import { clearEventRegistry } from "../src/events/Lifecycle";
+
+describe("Graceful shutdown", () => {
+  let app: Carno | null = null;
+
+  afterEach(() => {
+    app?.stop();
+    app = null;
+    clearEventRegistry();
+  });
+
+  it("awaits async init hooks in priority order before serving", async () => {
+    const order: string[] = [];
+
+    @Service()
+    class StartupService {
+      @OnApplicationInit(10)
+      async connect(): Promise<void> {
+        order.push("connect:start");
+        await Bun.sleep(20);
+        order.push("connect:end");
+      }
+
+      @OnApplicationInit(1)
+      warmUp(): void {
+        order.push("warm-up");
+      }
+
+      @OnApplicationBoot()
+      boot(): void {
+        order.push("boot");
+      }
+    }
+
+    @Controller("/status")
+    class StatusController {
+      @Get()
+      status() {
+        return { order };
+      }
+    }
+
+    app = new Carno({ disableStartupLog: true, shutdown: { signals: false } });
+    app.services(StartupService);
+    app.controllers(StatusController);
+
+    await app.listen(3013);
+
+    expect(order).toEqual(["connect:start", "connect:end", "warm-up", "boot"]);
+
+    const res = await fetch("http://localhost:3013/status");
+    expect(res.status).toBe(200);
+  });
+
+  it("reports not ready and finishes in-flight requests before running shutdown hooks", async () => {
+    const order: string[] = [];
+
+    @Service()
+    class ConnectionService {
+      @OnApplicationShutdown(10)
+      async closeQueues(): Promise<void> {
+        await Bun.sleep(10);
+        order.push("queues");
+      }
+
+      @OnApplicationShutdown(1)
+      closeDatabase(): void {
+        order.push("database");
+      }
+    }
+
+    @Controller("/slow")
+    class SlowController {
+      @Get()
+      async slow() {
+        await Bun.sleep(150);
+        order.push("request");
+        return { done: true };
+      }
+    }
+
+    app = new Carno({ disableStartupLog: true, shutdown: { drainDelay: 50, signals: false } });
+    app.services(ConnectionService);
+    app.controllers(SlowController);
+
+    await app.listen(3014);
+
+    expect((await fetch("http://localhost:3014/ready")).status).toBe(200);
+
+    const inFlight = fetch("http://localhost:3014/slow");
+    await Bun.sleep(20);
+
+    const shutdown = app.shutdown();
+
+    const ready = await fetch("http://localhost:3014/ready");
+    expect(ready.status).toBe(503);
+    expect(await ready.json()).toEqual({ status: "shutting_down", checks: {} });
+
+    const res = await inFlight;
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ done: true });
+
+    expect(await shutdown).toBe(true);
+    expect(order).toEqual(["request", "queues", "database"]);
+
+    await expect(fetch("http://localhost:3014/ready")).rejects.toThrow();
+  });
+
+  it("gives up after the grace timeout", async () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+    @Service()
+    class StuckService {
+      @OnApplicationShutdown()
+      close(): Promise<void> {
+        return new Promise(() => {});
+      }
+    }
+
+    app = new Carno({ disableStartupLog: true, shutdown: { timeout: 50, signals: false } });
+    app.services(StuckService);
+
+    await app.listen(3015);
+
+    const shutdown = app.shutdown();
+
+    expect(app.shutdown()).toBe(shutdown);
+    expect(await shutdown).toBe(false);
+    expect(warn).toHaveBeenCalledWith("Graceful shutdown did not complete within 50ms, closing remaining connections");
+
+    warn.mockRestore();
+  });
+});
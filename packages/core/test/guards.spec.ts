@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    Controller,
+    Get,
+    Service,
+    UseGuards,
+    SetMetadata,
+    ExecutionContext,
+    UnauthorizedException,
+} from '../src';
+import type { CanActivate } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+const Roles = (...roles: string[]) => SetMetadata('roles', roles);
+
+@Service()
+class RolesGuard implements CanActivate {
+    canActivate(context: ExecutionContext): boolean {
+        const roles = context.getMetadata<string[]>('roles');
+
+        if (!roles) {
+            return true;
+        }
+
+        const role = context.getContext().headers.get('x-role') || '';
+
+        return roles.includes(role);
+    }
+}
+
+describe('Guards', () => {
+    it('rejects with 403 when a guard returns false', async () => {
+        @Controller('/admin')
+        @UseGuards(RolesGuard)
+        class AdminController {
+            @Get()
+            @Roles('admin')
+            dashboard() {
+                return { ok: true };
+            }
+
+            @Get('/public')
+            open() {
+                return { open: true };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const denied = await harness.get('/admin', { headers: { 'x-role': 'user' } });
+                expect(denied.status).toBe(403);
+                expect(await denied.json()).toEqual({ statusCode: 403, message: 'Forbidden' });
+
+                const allowed = await harness.get('/admin', { headers: { 'x-role': 'admin' } });
+                expect(allowed.status).toBe(200);
+                expect(await allowed.json()).toEqual({ ok: true });
+
+                const open = await harness.get('/admin/public');
+                expect(open.status).toBe(200);
+            },
+            {
+                controllers: [AdminController],
+                listen: true,
+            }
+        );
+    });
+
+    it('reads class-level metadata and exposes the handler', async () => {
+        const seen: string[] = [];
+
+        class SpyGuard implements CanActivate {
+            canActivate(context: ExecutionContext): boolean {
+                seen.push(`${context.getClass().name}.${context.getHandlerName()}`);
+                seen.push(typeof context.getHandler());
+
+                return context.getMetadata<string[]>('roles')?.includes('ops') ?? false;
+            }
+        }
+
+        @Controller('/ops')
+        @Roles('ops')
+        class OpsController {
+            @Get()
+            @UseGuards(new SpyGuard())
+            status() {
+                return { status: 'up' };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/ops');
+
+                expect(response.status).toBe(200);
+                expect(seen).toEqual(['OpsController.status', 'function']);
+            },
+            {
+                controllers: [OpsController],
+                listen: true,
+            }
+        );
+    });
+
+    it('lets guards throw custom HttpExceptions', async () => {
+        class TokenGuard implements CanActivate {
+            async canActivate(context: ExecutionContext): Promise<boolean> {
+                if (!context.ctx.headers.get('authorization')) {
+                    throw new UnauthorizedException();
+                }
+
+                return true;
+            }
+        }
+
+        @Controller('/me')
+        @UseGuards(TokenGuard)
+        class MeController {
+            @Get()
+            me() {
+                return { id: 1 };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                expect((await harness.get('/me')).status).toBe(401);
+                expect((await harness.get('/me', { headers: { authorization: 'Bearer x' } })).status).toBe(200);
+            },
+            {
+                controllers: [MeController],
+                listen: true,
+            }
+        );
+    });
+
+    it('inherits guards in child controllers and supports global guards', async () => {
+        const calls: string[] = [];
+
+        const globalGuard: CanActivate = {
+            canActivate: () => {
+                calls.push('global');
+                return true;
+            },
+        };
+
+        const parentGuard: CanActivate = {
+            canActivate: (context) => {
+                calls.push('parent');
+                return context.ctx.headers.get('x-allow') === 'yes';
+            },
+        };
+
+        @Controller('/items')
+        class ItemsController {
+            @Get()
+            list() {
+                return [];
+            }
+        }
+
+        @Controller({ path: '/api', children: [ItemsController] })
+        @UseGuards(parentGuard)
+        class ApiController { }
+
+        await withTestApp(
+            async (harness) => {
+                expect((await harness.get('/api/items')).status).toBe(403);
+                expect((await harness.get('/api/items', { headers: { 'x-allow': 'yes' } })).status).toBe(200);
+                expect(calls).toEqual(['global', 'parent', 'global', 'parent']);
+            },
+            {
+                controllers: [ApiController],
+                config: { globalGuards: [globalGuard] },
+                listen: true,
+            }
+        );
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'bun:test';
+import { HealthService, MemoryDriver, Service } from '../src';
+import type { HealthIndicator } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+describe('Health checks', () => {
+    it('reports liveness and readiness separately with details', async () => {
+        const eventLoop: HealthIndicator = {
+            name: 'event-loop',
+            type: 'liveness',
+            check: () => ({ lag: 0 })
+        };
+
+        const database: HealthIndicator = {
+            name: 'database',
+            check: async () => {
+                throw new Error('Connection refused');
+            }
+        };
+
+        await withTestApp(
+            async (harness) => {
+                const health = await harness.get('/health');
+                expect(health.status).toBe(200);
+                expect(await health.json()).toEqual({
+                    status: 'ok',
+                    checks: { 'event-loop': { status: 'up', duration: expect.any(Number), details: { lag: 0 } } }
+                });
+
+                const ready = await harness.get('/ready');
+                expect(ready.status).toBe(503);
+                expect(await ready.json()).toEqual({
+                    status: 'error',
+                    checks: { database: { status: 'down', duration: expect.any(Number), error: 'Connection refused' } }
+                });
+            },
+            { config: { health: { indicators: [eventLoop, database] } } }
+        );
+    });
+
+    it('fails a check exceeding its timeout', async () => {
+        const slow: HealthIndicator = {
+            name: 'slow',
+            timeout: 30,
+            check: () => new Promise(() => {})
+        };
+
+        const fast: HealthIndicator = { name: 'fast', check: () => {} };
+
+        await withTestApp(
+            async (harness) => {
+                const res = await harness.get('/ready');
+                const report = await res.json();
+
+                expect(res.status).toBe(503);
+                expect(report.checks.slow).toMatchObject({ status: 'down', error: 'Timed out after 30ms' });
+                expect(report.checks.fast).toMatchObject({ status: 'up' });
+            },
+            { config: { health: { timeout: 1000, indicators: [slow, fast] } } }
+        );
+    });
+
+    it('lets services register indicators through the injected HealthService', async () => {
+        let connected = true;
+
+        @Service()
+        class BrokerConnection implements HealthIndicator {
+            readonly name = 'broker';
+
+            constructor(health: HealthService) {
+                health.register(this);
+            }
+
+            check() {
+                if (!connected) throw new Error('Broker unreachable');
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                expect((await harness.get('/ready')).status).toBe(200);
+
+                connected = false;
+
+                const res = await harness.get('/ready');
+                expect(res.status).toBe(503);
+                expect((await res.json()).checks.broker.error).toBe('Broker unreachable');
+            },
+            { services: [BrokerConnection] }
+        );
+    });
+
+    it('checks memory thresholds and pings the cache driver', async () => {
+        class UnreachableDriver extends MemoryDriver {
+            async ping(): Promise<void> {
+                throw new Error('ECONNREFUSED');
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const health = await harness.get('/health');
+                expect(health.status).toBe(503);
+                expect((await health.json()).checks.memory.error).toStartWith('Heap usage');
+
+                const ready = await harness.get('/ready');
+                const report = await ready.json();
+
+                expect(ready.status).toBe(503);
+                expect(report.checks.cache).toMatchObject({ status: 'down', error: 'ECONNREFUSED' });
+                expect(report.checks.disk).toMatchObject({ status: 'up', details: { total: expect.any(Number) } });
+            },
+            {
+                config: {
+                    cache: { driver: new UnreachableDriver() },
+                    health: { memory: { heapUsed: 1 }, disk: { path: '/', maxUsage: 1 } }
+                }
+            }
+        );
+    });
+});
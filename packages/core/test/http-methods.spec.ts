@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'bun:test';
+import { Controller, Delete, Get, Options, Param, Put } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+@Controller('/articles')
+class ArticlesController {
+    @Get()
+    list() {
+        return 'static list';
+    }
+
+    @Get('/:id')
+    find(@Param('id') id: string) {
+        return Response.json({ id }, { headers: { 'X-Article': id } });
+    }
+
+    @Put('/:id')
+    update(@Param('id') id: string) {
+        return { id };
+    }
+
+    @Delete('/:id')
+    remove() {
+        return { removed: true };
+    }
+
+    @Options('/custom')
+    custom() {
+        return new Response(null, { status: 200, headers: { Allow: 'CUSTOM' } });
+    }
+}
+
+describe('HTTP method handling', () => {
+    it('answers 405 with the allowed methods when the path exists', async () => {
+        await withTestApp(
+            async (harness) => {
+                const res = await harness.request('/articles/7', { method: 'PATCH' });
+
+                expect(res.status).toBe(405);
+                expect(res.headers.get('allow')).toBe('GET, PUT, DELETE, HEAD, OPTIONS');
+                expect(await res.json()).toEqual({ statusCode: 405, message: 'Method Not Allowed' });
+
+                expect((await harness.request('/articles', { method: 'DELETE' })).status).toBe(405);
+                expect((await harness.request('/missing', { method: 'PATCH' })).status).toBe(404);
+            },
+            { controllers: [ArticlesController], listen: true }
+        );
+    });
+
+    it('answers HEAD on GET routes without a body', async () => {
+        await withTestApp(
+            async (harness) => {
+                const dynamic = await harness.request('/articles/7', { method: 'HEAD' });
+
+                expect(dynamic.status).toBe(200);
+                expect(dynamic.headers.get('x-article')).toBe('7');
+                expect(await dynamic.text()).toBe('');
+
+                const fixed = await harness.request('/articles', { method: 'HEAD' });
+
+                expect(fixed.status).toBe(200);
+                expect(fixed.headers.get('content-type')).toBe('text/plain');
+                expect(await fixed.text()).toBe('');
+            },
+            { controllers: [ArticlesController] }
+        );
+    });
+
+    it('answers OPTIONS without CORS and keeps explicit OPTIONS routes', async () => {
+        await withTestApp(
+            async (harness) => {
+                const res = await harness.request('/articles/7', { method: 'OPTIONS' });
+
+                expect(res.status).toBe(204);
+                expect(res.headers.get('allow')).toBe('GET, PUT, DELETE, HEAD, OPTIONS');
+
+                const custom = await harness.request('/articles/custom', { method: 'OPTIONS' });
+                expect(custom.headers.get('allow')).toBe('CUSTOM');
+            },
+            { controllers: [ArticlesController], listen: true }
+        );
+    });
+
+    it('still answers CORS preflights on existing routes', async () => {
+        await withTestApp(
+            async (harness) => {
+                const res = await harness.request('/articles/7', {
+                    method: 'OPTIONS',
+                    headers: { Origin: 'https://app.example.com' }
+                });
+
+                expect(res.status).toBe(204);
+                expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+                expect(res.headers.get('allow')).toBeNull();
+            },
+            {
+                controllers: [ArticlesController],
+                config: { cors: { origins: ['https://app.example.com'] } }
+            }
+        );
+    });
+});
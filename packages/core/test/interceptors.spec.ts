@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'bun:test';
+import { z } from 'zod';
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Param,
+    Schema,
+    Service,
+    UseInterceptors,
+    ExecutionContext,
+} from '../src';
+import type { CarnoInterceptor, CallHandler } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+@Service()
+class EnvelopeInterceptor implements CarnoInterceptor {
+    async intercept(context: ExecutionContext, next: CallHandler) {
+        const data = await next();
+
+        return { data, handler: context.getHandlerName() };
+    }
+}
+
+describe('Interceptors', () => {
+    it('transforms the handler result before it becomes a Response', async () => {
+        @Controller('/users')
+        @UseInterceptors(EnvelopeInterceptor)
+        class UserController {
+            @Get('/:id')
+            find(@Param('id') id: string) {
+                return { id, password: 'secret' };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/users/3');
+
+                expect(response.status).toBe(200);
+                expect(await response.json()).toEqual({
+                    data: { id: '3', password: 'secret' },
+                    handler: 'find',
+                });
+            },
+            {
+                controllers: [UserController],
+                listen: true,
+            }
+        );
+    });
+
+    it('nests global, controller and route interceptors from the outside in', async () => {
+        const tag = (name: string): CarnoInterceptor => ({
+            intercept: async (_context, next) => `${name}(${await next()})`,
+        });
+
+        @Controller('/nested')
+        @UseInterceptors(tag('controller'))
+        class NestedController {
+            @Get()
+            @UseInterceptors(tag('route'))
+            index() {
+                return 'handler';
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/nested');
+
+                expect(await response.text()).toBe('global(controller(route(handler)))');
+            },
+            {
+                controllers: [NestedController],
+                config: { globalInterceptors: [tag('global')] },
+                listen: true,
+            }
+        );
+    });
+
+    it('short-circuits with a cached value without running the handler', async () => {
+        const cache = new Map<string, any>();
+        let executions = 0;
+
+        class CacheInterceptor implements CarnoInterceptor {
+            async intercept(context: ExecutionContext, next: CallHandler) {
+                const key = context.ctx.path;
+
+                if (cache.has(key)) {
+                    return cache.get(key);
+                }
+
+                const value = await next();
+                cache.set(key, value);
+
+                return value;
+            }
+        }
+
+        @Controller('/catalog')
+        @UseInterceptors(CacheInterceptor)
+        class CatalogController {
+            @Get('/:id')
+            find(@Param('id') id: string) {
+                executions++;
+                return { id, executions };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const first = await (await harness.get('/catalog/1')).json();
+                const second = await (await harness.get('/catalog/1')).json();
+
+                expect(first).toEqual({ id: '1', executions: 1 });
+                expect(second).toEqual({ id: '1', executions: 1 });
+                expect(executions).toBe(1);
+            },
+            {
+                controllers: [CatalogController],
+                listen: true,
+            }
+        );
+    });
+
+    it('wraps body validation so validation errors flow through next()', async () => {
+        const seen: string[] = [];
+
+        @Schema(z.object({ name: z.string().min(2) }))
+        class CreateDto {
+            name!: string;
+        }
+
+        const observer: CarnoInterceptor = {
+            intercept: async (_context, next) => {
+                try {
+                    return await next();
+                } catch (error: any) {
+                    seen.push(error.name);
+                    throw error;
+                }
+            },
+        };
+
+        @Controller('/items')
+        class ItemController {
+            @Post()
+            @UseInterceptors(observer)
+            create(@Body() body: CreateDto) {
+                return body;
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.post('/items', { name: 'x' });
+
+                expect(response.status).toBe(400);
+                expect(seen).toEqual(['ValidationException']);
+            },
+            {
+                controllers: [ItemController],
+                listen: true,
+            }
+        );
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'bun:test';
+import { BadRequestException, CacheService, Controller, Get, MetricsRegistry, Param, Service } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+@Service()
+class CatsRepository {
+    constructor(private cache: CacheService) { }
+
+    find(id: string) {
+        return this.cache.getOrSet(`cat:${id}`, async () => ({ id }));
+    }
+}
+
+@Controller('/cats')
+class CatsController {
+    constructor(private cats: CatsRepository) { }
+
+    @Get('/:id')
+    find(@Param('id') id: string) {
+        if (id === 'invalid') {
+            throw new BadRequestException();
+        }
+
+        return this.cats.find(id);
+    }
+
+    @Get()
+    list() {
+        return 'cats';
+    }
+}
+
+describe('Metrics', () => {
+    it('renders counters, gauges and histograms in Prometheus text format', async () => {
+        const registry = new MetricsRegistry();
+
+        registry.counter('jobs_total', 'Processed jobs', ['queue']).inc('mail"er');
+        registry.gauge('temperature', 'Current temperature').set(21.5);
+        registry.histogram('latency_seconds', 'Latency', [], [0.1, 1]).observe(0.5);
+
+        expect(await registry.render()).toBe([
+            '# HELP jobs_total Processed jobs',
+            '# TYPE jobs_total counter',
+            'jobs_total{queue="mail\\"er"} 1',
+            '',
+            '# HELP temperature Current temperature',
+            '# TYPE temperature gauge',
+            'temperature 21.5',
+            '',
+            '# HELP latency_seconds Latency',
+            '# TYPE latency_seconds histogram',
+            'latency_seconds_bucket{le="0.1"} 0',
+            'latency_seconds_bucket{le="1"} 1',
+            'latency_seconds_bucket{le="+Inf"} 1',
+            'latency_seconds_sum 0.5',
+            'latency_seconds_count 1',
+            ''
+        ].join('\n'));
+    });
+
+    it('returns the existing metric when declared twice and rejects a type change', () => {
+        const registry = new MetricsRegistry();
+        const counter = registry.counter('events_total', 'Events');
+
+        expect(registry.counter('events_total', 'Events')).toBe(counter);
+        expect(() => registry.gauge('events_total', 'Events')).toThrow('Metric events_total is already registered as a counter');
+    });
+
+    it('records requests by route pattern and status, and cache lookups', async () => {
+        await withTestApp(
+            async (harness) => {
+                await harness.get('/cats/1');
+                await harness.get('/cats/1');
+                await harness.get('/cats/invalid');
+                await harness.get('/cats');
+
+                const res = await harness.get('/stats');
+                const body = await res.text();
+
+                expect(res.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+                expect(body).toContain('http_requests_total{method="GET",route="/cats/:id",status="200"} 2');
+                expect(body).toContain('http_requests_total{method="GET",route="/cats/:id",status="400"} 1');
+                expect(body).toContain('http_requests_total{method="GET",route="/cats",status="200"} 1');
+                expect(body).toContain('http_request_duration_seconds_count{method="GET",route="/cats/:id"} 3');
+                expect(body).toContain('cache_lookups_total{driver="MemoryDriver",result="hit"} 1');
+                expect(body).toContain('cache_lookups_total{driver="MemoryDriver",result="miss"} 1');
+                expect(body).toContain('cache_hit_ratio{driver="MemoryDriver"} 0.5');
+            },
+            {
+                controllers: [CatsController],
+                services: [CatsRepository],
+                config: { metrics: { path: '/stats' } }
+            }
+        );
+    });
+
+    it('injects a disabled registry and serves nothing without the option', async () => {
+        await withTestApp(
+            async (harness) => {
+                expect(harness.resolve(MetricsRegistry).enabled).toBe(false);
+                expect((await harness.get('/metrics')).status).toBe(404);
+            },
+            { controllers: [CatsController], services: [CatsRepository] }
+        );
+    });
+});
@@ -0,0 +1,247 @@
+import { describe, expect, test } from 'bun:test';
+import { Carno, Controller, Get, Service, Inject, InjectionToken, defineModule } from '../src';
+
+const createApp = (...imports: Carno[]) => new Carno({ disableStartupLog: true, imports });
+
+const bootstrap = (app: Carno) => Promise.resolve().then(() => app.prepare());
+
+describe('Modules', () => {
+    @Service()
+    class Database {
+        query() {
+            return 'rows';
+        }
+    }
+
+    @Service()
+    class UserRepository {
+        constructor(public db: Database) { }
+    }
+
+    const createDatabaseModule = () => new Carno({ name: 'DatabaseModule', exports: [UserRepository] })
+        .services([Database, UserRepository]);
+
+    test('exported providers are injectable by the importing module', async () => {
+        @Controller('/users')
+        class UserController {
+            constructor(private users: UserRepository) { }
+
+            @Get()
+            list() {
+                return { rows: this.users.db.query() };
+            }
+        }
+
+        const app = createApp(createDatabaseModule()).controllers(UserController);
+        const response = await app.inject('/users');
+
+        expect(await response.json()).toEqual({ rows: 'rows' });
+    });
+
+    test('providers that are not exported stay private', async () => {
+        @Controller('/private')
+        class PrivateController {
+            constructor(public db: Database) { }
+
+            @Get()
+            index() {
+                return this.db.query();
+            }
+        }
+
+        const app = new Carno({ name: 'ApiModule', disableStartupLog: true, imports: [createDatabaseModule()] })
+            .controllers(PrivateController);
+
+        await expect(bootstrap(app)).rejects.toThrow(
+            'Provider not found: Database, required by PrivateController in module "ApiModule"'
+        );
+    });
+
+    test('plugin controllers resolve their own private providers', async () => {
+        @Controller('/stats')
+        class StatsController {
+            constructor(private db: Database) { }
+
+            @Get()
+            index() {
+                return this.db.query();
+            }
+        }
+
+        const statsModule = new Carno({ name: 'StatsModule' }).services(Database).controllers(StatsController);
+        const app = createApp(statsModule);
+
+        expect(await (await app.inject('/stats')).text()).toBe('rows');
+        expect(() => app.get(Database)).toThrow('Provider not found: Database');
+    });
+
+    test('modules import each other and can re-export', async () => {
+        @Service()
+        class UserService {
+            constructor(private users: UserRepository) { }
+
+            find() {
+                return this.users.db.query();
+            }
+        }
+
+        @Controller('/profile')
+        class ProfileController {
+            constructor(private users: UserService, private repository: UserRepository) { }
+
+            @Get()
+            index() {
+                return { user: this.users.find(), same: this.repository === (this.users as any).users };
+            }
+        }
+
+        const databaseModule = createDatabaseModule();
+        const usersModule = new Carno({ name: 'UsersModule', imports: [databaseModule], exports: [UserService, UserRepository] })
+            .services(UserService);
+
+        const app = createApp(usersModule, databaseModule).controllers(ProfileController);
+        const response = await app.inject('/profile');
+
+        expect(await response.json()).toEqual({ user: 'rows', same: true });
+    });
+
+    test('imports are not transitive without a re-export', async () => {
+        @Service()
+        class UserService {
+            constructor(public users: UserRepository) { }
+        }
+
+        @Controller('/transitive')
+        class TransitiveController {
+            constructor(public repository: UserRepository) { }
+
+            @Get()
+            index() {
+                return 'ok';
+            }
+        }
+
+        const usersModule = new Carno({ name: 'UsersModule', imports: [createDatabaseModule()], exports: [UserService] })
+            .services(UserService);
+
+        const app = createApp(usersModule).controllers(TransitiveController);
+
+        await expect(bootstrap(app)).rejects.toThrow('Provider not found: UserRepository, required by TransitiveController');
+    });
+
+    test('the same private token in two modules does not collide', async () => {
+        const LABEL = new InjectionToken<string>('LABEL');
+
+        @Service()
+        class BillingLabel {
+            constructor(@Inject(LABEL) public value: string) { }
+        }
+
+        @Service()
+        class ShippingLabel {
+            constructor(@Inject(LABEL) public value: string) { }
+        }
+
+        @Controller('/labels')
+        class LabelController {
+            constructor(private billing: BillingLabel, private shipping: ShippingLabel) { }
+
+            @Get()
+            index() {
+                return [this.billing.value, this.shipping.value];
+            }
+        }
+
+        const billing = new Carno({ exports: [BillingLabel] })
+            .services([{ token: LABEL, useValue: 'billing' }, BillingLabel]);
+        const shipping = new Carno({ exports: [ShippingLabel] })
+            .services([{ token: LABEL, useValue: 'shipping' }, ShippingLabel]);
+
+        const app = createApp(billing, shipping).controllers(LabelController);
+
+        expect(await (await app.inject('/labels')).json()).toEqual(['billing', 'shipping']);
+    });
+
+    test('fails when a module exports a provider it does not have', async () => {
+        const broken = new Carno({ name: 'BrokenModule', exports: [Database] });
+
+        await expect(bootstrap(createApp(broken))).rejects.toThrow(
+            'Module "BrokenModule" exports Database but does not provide or import it'
+        );
+    });
+
+    test('global modules share their providers with the importing module', async () => {
+        @Controller('/global')
+        class GlobalController {
+            constructor(private db: Database) { }
+
+            @Get()
+            index() {
+                return this.db.query();
+            }
+        }
+
+        const infrastructure = new Carno({ global: true }).services(Database);
+        const app = createApp(infrastructure).controllers(GlobalController);
+
+        expect(await (await app.inject('/global')).text()).toBe('rows');
+    });
+
+    describe('defineModule', () => {
+        interface MailerOptions {
+            from: string;
+        }
+
+        const MAILER_OPTIONS = new InjectionToken<MailerOptions>('MAILER_OPTIONS');
+
+        @Service()
+        class MailerService {
+            constructor(@Inject(MAILER_OPTIONS) public options: MailerOptions) { }
+        }
+
+        const MailerModule = defineModule<MailerOptions>({
+            name: 'MailerModule',
+            options: MAILER_OPTIONS,
+            exports: [MailerService],
+            setup: module => module.services(MailerService)
+        });
+
+        @Controller('/mail')
+        class MailController {
+            constructor(private mailer: MailerService) { }
+
+            @Get()
+            index() {
+                return this.mailer.options;
+            }
+        }
+
+        test('forRoot registers static options', async () => {
+            const app = createApp(MailerModule.forRoot({ from: 'noreply@carno.dev' })).controllers(MailController);
+
+            expect(await (await app.inject('/mail')).json()).toEqual({ from: 'noreply@carno.dev' });
+            expect(() => app.get(MAILER_OPTIONS)).toThrow('Provider not found: MAILER_OPTIONS');
+        });
+
+        test('forRootAsync builds options from imported providers', async () => {
+            const SETTINGS = new InjectionToken<{ mailFrom: string }>('SETTINGS');
+
+            const settingsModule = new Carno({ exports: [SETTINGS] })
+                .services({ token: SETTINGS, useFactory: async () => ({ mailFrom: 'async@carno.dev' }) });
+
+            const mailer = MailerModule.forRootAsync({
+                imports: [settingsModule],
+                inject: [SETTINGS],
+                useFactory: async (settings: { mailFrom: string }) => ({ from: settings.mailFrom })
+            });
+
+            const app = createApp(mailer).controllers(MailController);
+
+            expect(await (await app.inject('/mail')).json()).toEqual({ from: 'async@carno.dev' });
+        });
+
+        test('each forRoot call creates an independent module', () => {
+            expect(MailerModule.forRoot({ from: 'a' })).not.toBe(MailerModule.forRoot({ from: 'b' }));
+        });
+    });
+});
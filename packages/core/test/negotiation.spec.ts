@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Produces,
+    Consumes,
+    CacheResponse,
+    Query,
+    encodeMessagePack,
+    decodeMessagePack,
+    toCsv,
+    parseCsv,
+    toXml
+} from '../src';
+import type { ResponseSerializer } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+const rows = [
+    { id: 1, name: 'Ana', tags: ['a'] },
+    { id: 2, name: 'Smith, "Bob"', active: true }
+];
+
+@Controller('/reports')
+class ReportController {
+    @Get()
+    list(@Query('n') n?: string) {
+        return rows;
+    }
+
+    @Post()
+    create(@Body() body: any) {
+        return { received: body };
+    }
+
+    @Get('/export')
+    @Produces('text/csv', 'application/json')
+    export(@Query('n') n?: string) {
+        return rows;
+    }
+
+    @Post('/import')
+    @Consumes('text/csv')
+    import(@Body() body: any) {
+        return { count: body.length };
+    }
+
+    @Get('/title')
+    title(@Query('n') n?: string) {
+        return 'plain text';
+    }
+}
+
+describe('Content negotiation', () => {
+    it('serializes responses in the format the client accepts', async () => {
+        await withTestApp(
+            async (harness) => {
+                const json = await harness.get('/reports?n=1');
+                expect(json.headers.get('content-type')).toBe('application/json;charset=utf-8');
+                expect(json.headers.get('vary')).toBe('Accept');
+                expect(await json.json()).toEqual(rows);
+
+                const msgpack = await harness.get('/reports?n=1', { headers: { Accept: 'application/x-msgpack' } });
+                expect(msgpack.headers.get('content-type')).toBe('application/msgpack');
+                expect(decodeMessagePack(await msgpack.arrayBuffer())).toEqual(rows);
+
+                const csv = await harness.get('/reports?n=1', { headers: { Accept: 'text/csv;q=0.9, application/xml;q=0.5' } });
+                expect(csv.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+                expect(await csv.text()).toBe('id,name,tags,active\r\n1,Ana,"[""a""]",\r\n2,"Smith, ""Bob""",,true\r\n');
+
+                const wildcard = await harness.get('/reports?n=1', { headers: { Accept: 'text/html, application/*;q=0.8' } });
+                expect(wildcard.headers.get('content-type')).toBe('application/json;charset=utf-8');
+
+                // Strings are not negotiated
+                const text = await harness.get('/reports/title?n=1', { headers: { Accept: 'application/msgpack' } });
+                expect(await text.text()).toBe('plain text');
+
+                const rejected = await harness.get('/reports?n=1', { headers: { Accept: 'image/png' } });
+                expect(rejected.status).toBe(406);
+                expect((await rejected.json()).message).toBe('Not Acceptable. Available: application/json, application/msgpack, text/csv, application/xml');
+            },
+            { controllers: [ReportController], config: { negotiation: true } }
+        );
+    });
+
+    it('parses bodies with the registered parsers and rejects unknown types with 415', async () => {
+        await withTestApp(
+            async (harness) => {
+                const msgpack = await harness.request('/reports', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/msgpack' },
+                    body: encodeMessagePack({ name: 'Ana', scores: [1, 2.5, -300] })
+                });
+                expect(await msgpack.json()).toEqual({ received: { name: 'Ana', scores: [1, 2.5, -300] } });
+
+                const csv = await harness.request('/reports/import', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'text/csv' },
+                    body: 'id,name\n1,Ana\n2,Bob\n'
+                });
+                expect(await csv.json()).toEqual({ count: 2 });
+
+                const unknown = await harness.request('/reports', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/pdf' },
+                    body: 'binary'
+                });
+                expect(unknown.status).toBe(415);
+
+                const wrongType = await harness.post('/reports/import', [{ id: 1 }]);
+                expect(wrongType.status).toBe(415);
+                expect((await wrongType.json()).message).toBe('Unsupported media type "application/json". Expected: text/csv');
+            },
+            { controllers: [ReportController], config: { negotiation: true } }
+        );
+    });
+
+    it('negotiates @Produces() routes without global negotiation', async () => {
+        await withTestApp(
+            async (harness) => {
+                const csv = await harness.get('/reports/export?n=1');
+                expect(csv.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+
+                const json = await harness.get('/reports/export?n=1', { headers: { Accept: 'application/json' } });
+                expect(await json.json()).toEqual(rows);
+
+                expect((await harness.get('/reports/export?n=1', { headers: { Accept: 'application/xml' } })).status).toBe(406);
+
+                // Other routes keep plain JSON regardless of Accept
+                const plain = await harness.get('/reports?n=1', { headers: { Accept: 'text/csv' } });
+                expect(plain.headers.get('content-type')).toBe('application/json;charset=utf-8');
+            },
+            { controllers: [ReportController] }
+        );
+    });
+
+    it('supports custom serializers and caches one entry per Accept header', async () => {
+        let calls = 0;
+        const yaml: ResponseSerializer = {
+            mediaTypes: ['application/yaml'],
+            serialize: value => Object.entries(value).map(([key, v]) => `${key}: ${v}`).join('\n')
+        };
+
+        @Controller('/config')
+        class ConfigController {
+            @Get()
+            @CacheResponse({ ttl: 60 })
+            read(@Query('n') n?: string) {
+                calls++;
+                return { env: 'test' };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const first = await harness.get('/config', { headers: { Accept: 'application/yaml' } });
+                const second = await harness.get('/config', { headers: { Accept: 'application/json' } });
+                const cached = await harness.get('/config', { headers: { Accept: 'application/yaml' } });
+
+                expect(await first.text()).toBe('env: test');
+                expect(await second.json()).toEqual({ env: 'test' });
+                expect(await cached.text()).toBe('env: test');
+                expect(cached.headers.get('x-cache')).toBe('HIT');
+                expect(calls).toBe(2);
+            },
+            { controllers: [ConfigController], config: { negotiation: { serializers: [yaml] } } }
+        );
+    });
+});
+
+describe('Formats', () => {
+    it('round-trips MessagePack values', () => {
+        const value = {
+            nil: null,
+            flags: [true, false],
+            ints: [0, 127, 128, 255, 65535, 65536, 2 ** 32, -1, -32, -33, -129, -32769, -(2 ** 31) - 1],
+            float: 1.5,
+            text: 'é'.repeat(40),
+            nested: { list: new Array(20).fill('x') },
+            bytes: new Uint8Array([1, 2, 3])
+        };
+
+        expect(decodeMessagePack(encodeMessagePack(value))).toEqual(value);
+        expect(decodeMessagePack(encodeMessagePack({ at: new Date(0), skip: undefined }))).toEqual({ at: '1970-01-01T00:00:00.000Z' });
+    });
+
+    it('decodes a MessagePack __proto__ key as a plain property', () => {
+        const decoded = decodeMessagePack(encodeMessagePack(JSON.parse('{"__proto__": {"admin": true}, "name": "a"}')));
+
+        expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+        expect(decoded.admin).toBeUndefined();
+        expect(Object.getOwnPropertyDescriptor(decoded, '__proto__')?.value).toEqual({ admin: true });
+    });
+
+    it('neutralizes spreadsheet formulas in CSV cells', () => {
+        expect(toCsv([{ name: '=HYPERLINK("http://x")', note: '@SUM(A1)', delta: -5, sign: '-2+3', tab: '\tcmd' }]))
+            .toBe('name,note,delta,sign,tab\r\n"\'=HYPERLINK(""http://x"")","\'@SUM(A1)",-5,"\'-2+3","\'\tcmd"\r\n');
+    });
+
+    it('parses quoted CSV and writes XML', () => {
+        expect(parseCsv(toCsv(rows))).toEqual([
+            { id: '1', name: 'Ana', tags: '["a"]', active: '' },
+            { id: '2', name: 'Smith, "Bob"', tags: '', active: 'true' }
+        ]);
+
+        expect(toXml({ user: { name: 'A & B', roles: ['admin'] }, '1st': null }))
+            .toBe('<?xml version="1.0" encoding="UTF-8"?><response><user><name>A &amp; B</name><roles><item>admin</item></roles></user><_1st/></response>');
+    });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'bun:test';
+import { Controller, Get, Service, Use, Context } from '../src';
+import type { CarnoMiddleware, CarnoClosure, MiddlewareHandler } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+describe('Onion middleware', () => {
+    it('runs code after next() with access to the downstream response', async () => {
+        const order: string[] = [];
+
+        @Service()
+        class OuterMiddleware implements CarnoMiddleware {
+            async handle(ctx: Context, next: CarnoClosure): Promise<void> {
+                order.push('outer:before');
+                const response = await next();
+                order.push('outer:after');
+                response.headers.set('X-Outer', String(response.status));
+            }
+        }
+
+        const inner: MiddlewareHandler = async (ctx, next) => {
+            order.push('inner:before');
+            await next();
+            order.push('inner:after');
+        };
+
+        @Controller('/onion')
+        @Use(OuterMiddleware, inner)
+        class OnionController {
+            @Get()
+            index() {
+                order.push('handler');
+                return { ok: true };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/onion');
+
+                expect(response.status).toBe(200);
+                expect(response.headers.get('X-Outer')).toBe('200');
+                expect(await response.json()).toEqual({ ok: true });
+                expect(order).toEqual(['outer:before', 'inner:before', 'handler', 'inner:after', 'outer:after']);
+            },
+            {
+                controllers: [OnionController],
+                services: [OuterMiddleware],
+                listen: true,
+            }
+        );
+    });
+
+    it('replaces the result when a middleware returns a Response after next()', async () => {
+        const rewrite: MiddlewareHandler = async (ctx, next) => {
+            const response = await next();
+            const data = await response.json();
+
+            return Response.json({ data }, { status: 201 });
+        };
+
+        @Controller('/rewrite')
+        class RewriteController {
+            @Get()
+            @Use(rewrite)
+            index() {
+                return { id: 1 };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/rewrite');
+
+                expect(response.status).toBe(201);
+                expect(await response.json()).toEqual({ data: { id: 1 } });
+            },
+            {
+                controllers: [RewriteController],
+                listen: true,
+            }
+        );
+    });
+
+    it('stops the chain when next() is not called', async () => {
+        let reached = false;
+
+        @Service()
+        class DenyMiddleware implements CarnoMiddleware {
+            handle(ctx: Context): void {
+                ctx.status = 401;
+            }
+        }
+
+        @Controller('/deny')
+        @Use(DenyMiddleware)
+        class DenyController {
+            @Get()
+            index(ctx: Context) {
+                reached = true;
+                return ctx.path;
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/deny');
+
+                expect(response.status).toBe(401);
+                expect(reached).toBe(false);
+            },
+            {
+                controllers: [DenyController],
+                services: [DenyMiddleware],
+                listen: true,
+            }
+        );
+    });
+
+    it('lets middlewares catch errors thrown by the handler', async () => {
+        const recover: MiddlewareHandler = async (ctx, next) => {
+            try {
+                return await next();
+            } catch (error: any) {
+                return Response.json({ recovered: error.message }, { status: 502 });
+            }
+        };
+
+        @Controller('/recover')
+        @Use(recover)
+        class RecoverController {
+            @Get()
+            index() {
+                throw new Error('boom');
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/recover');
+
+                expect(response.status).toBe(502);
+                expect(await response.json()).toEqual({ recovered: 'boom' });
+            },
+            {
+                controllers: [RecoverController],
+                listen: true,
+            }
+        );
+    });
+
+    it('keeps single-argument middlewares running before the handler', async () => {
+        const tag: MiddlewareHandler = (ctx) => {
+            ctx.locals.tag = 'tagged';
+        };
+
+        @Controller('/legacy')
+        @Use(tag)
+        class LegacyController {
+            @Get()
+            index(ctx: Context) {
+                return { tag: ctx.locals.tag };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/legacy');
+
+                expect(await response.json()).toEqual({ tag: 'tagged' });
+            },
+            {
+                controllers: [LegacyController],
+                listen: true,
+            }
+        );
+    });
+
+    it('passes next to middlewares with default or rest parameters', async () => {
+        const noop: CarnoClosure = async () => new Response(null);
+
+        const timing = async (ctx: Context, next: CarnoClosure = noop) => {
+            const response = await next();
+            response.headers.set('X-Timing', 'measured');
+        };
+
+        const tagging = async (...args: [Context, CarnoClosure]) => {
+            const response = await args[1]();
+            response.headers.set('X-Tag', 'tagged');
+        };
+
+        @Controller('/params')
+        @Use(timing)
+        @Use(tagging)
+        class ParamsController {
+            @Get()
+            index() {
+                return { ok: true };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/params');
+
+                expect(timing.length).toBe(1);
+                expect(tagging.length).toBe(0);
+                expect(response.headers.get('X-Timing')).toBe('measured');
+                expect(response.headers.get('X-Tag')).toBe('tagged');
+                expect(await response.json()).toEqual({ ok: true });
+            },
+            {
+                controllers: [ParamsController],
+                listen: true,
+            }
+        );
+    });
+});
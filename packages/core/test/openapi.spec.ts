@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Body,
+    Param,
+    Query,
+    Header,
+    Schema,
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiExclude,
+} from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+@Schema(z.object({
+    name: z.string().min(2),
+    email: z.string().email(),
+}))
+class CreateUserDto {
+    name!: string;
+    email!: string;
+}
+
+@Schema(z.object({
+    id: z.number(),
+    name: z.string(),
+}))
+class UserDto {
+    id!: number;
+    name!: string;
+}
+
+@Schema(z.object({
+    page: z.coerce.number().default(1),
+    search: z.string(),
+}))
+class ListQuery {
+    page!: number;
+    search!: string;
+}
+
+@Controller('/posts')
+class PostController {
+    @Get('/:slug')
+    find(@Param('slug') slug: string) {
+        return { slug };
+    }
+}
+
+@Controller({ path: '/users', children: [PostController] })
+@ApiTags('users')
+class UserController {
+    @Get()
+    @ApiOperation({ summary: 'List users' })
+    @ApiResponse(200, { description: 'Users', type: UserDto, isArray: true })
+    list(@Query() query: ListQuery, @Header('x-trace') trace: string) {
+        return [];
+    }
+
+    @Post()
+    @ApiResponse(201, { description: 'Created', type: UserDto })
+    create(@Body() body: CreateUserDto) {
+        return body;
+    }
+
+    @Delete('/:id')
+    remove(@Param('id') id: string) {
+        return { id };
+    }
+
+    @Get('/internal')
+    @ApiExclude()
+    internal() {
+        return { hidden: true };
+    }
+}
+
+describe('OpenAPI generation', () => {
+    test('serves an OpenAPI 3.1 document built from controllers and schemas', async () => {
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/docs/openapi.json');
+
+                expect(response.status).toBe(200);
+
+                const doc = await response.json();
+
+                expect(doc.openapi).toBe('3.1.0');
+                expect(doc.info).toEqual({ title: 'Users API', version: '2.0.0' });
+                expect(Object.keys(doc.paths).sort()).toEqual(['/users', '/users/posts/{slug}', '/users/{id}']);
+
+                const list = doc.paths['/users'].get;
+                expect(list.summary).toBe('List users');
+                expect(list.tags).toEqual(['users']);
+                expect(list.operationId).toBe('UserController_list');
+                expect(list.parameters).toEqual([
+                    { name: 'page', in: 'query', required: false, schema: { type: 'number', default: 1 } },
+                    { name: 'search', in: 'query', required: true, schema: { type: 'string' } },
+                    { name: 'x-trace', in: 'header', required: false, schema: { type: 'string' } },
+                ]);
+                expect(list.responses['200'].content['application/json'].schema).toEqual({
+                    type: 'array',
+                    items: { $ref: '#/components/schemas/UserDto' },
+                });
+
+                const create = doc.paths['/users'].post;
+                expect(create.requestBody.content['application/json'].schema).toEqual({
+                    $ref: '#/components/schemas/CreateUserDto',
+                });
+                expect(create.responses['201'].description).toBe('Created');
+
+                expect(doc.paths['/users/{id}'].delete.parameters).toEqual([
+                    { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                ]);
+                expect(doc.paths['/users/{id}'].delete.responses).toEqual({ '200': { description: 'OK' } });
+
+                expect(doc.components.schemas.CreateUserDto.required).toEqual(['name', 'email']);
+                expect(doc.components.schemas.CreateUserDto.properties.email.format).toBe('email');
+                expect(doc.components.schemas.CreateUserDto.$schema).toBeUndefined();
+            },
+            {
+                controllers: [UserController],
+                config: {
+                    openapi: {
+                        path: '/docs/openapi.json',
+                        info: { title: 'Users API', version: '2.0.0' },
+                    },
+                },
+                listen: true,
+            }
+        );
+    });
+
+    test('is disabled unless configured', async () => {
+        await withTestApp(
+            async (harness) => {
+                expect((await harness.get('/openapi.json')).status).toBe(404);
+            },
+            {
+                controllers: [UserController],
+                listen: true,
+            }
+        );
+    });
+});
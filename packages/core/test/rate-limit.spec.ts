@@ -0,0 +1,214 @@
+import { afterEach, describe, expect, it, setSystemTime } from 'bun:test';
+import { Controller, Get, Query, RateLimit, SkipRateLimit, RateLimiter, CacheService, RedisDriver } from '../src';
+import type { MiddlewareHandler } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+describe('Rate limiting', () => {
+    afterEach(() => {
+        setSystemTime();
+    });
+
+    it('rejects requests over the limit with RateLimit-* and Retry-After headers', async () => {
+        @Controller('/search')
+        class SearchController {
+            @Get()
+            @RateLimit({ limit: 2, window: 60, key: 'ip', trustProxy: true })
+            search(@Query('q') q: string) {
+                return { q };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const headers = { 'X-Forwarded-For': '10.0.0.1, 10.0.0.2' };
+
+                const first = await harness.get('/search?q=a', { headers });
+                await harness.get('/search?q=b', { headers });
+                const limited = await harness.get('/search?q=c', { headers });
+                const otherClient = await harness.get('/search?q=d', { headers: { 'X-Forwarded-For': '10.0.0.9' } });
+
+                expect(first.status).toBe(200);
+                expect(first.headers.get('RateLimit-Limit')).toBe('2');
+                expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+                expect(first.headers.get('RateLimit-Policy')).toBe('2;w=60');
+
+                expect(limited.status).toBe(429);
+                expect(limited.headers.get('RateLimit-Remaining')).toBe('0');
+                expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+                expect(await limited.json()).toEqual({ statusCode: 429, message: 'Too Many Requests' });
+
+                expect(otherClient.status).toBe(200);
+            },
+            { controllers: [SearchController] }
+        );
+    });
+
+    it('keys requests by API key or authenticated user', async () => {
+        const authenticate: MiddlewareHandler = (ctx) => {
+            const user = ctx.headers.get('x-user');
+
+            if (user) {
+                ctx.locals.user = { id: user };
+            }
+        };
+
+        @Controller('/api')
+        class ApiController {
+            @Get('/keyed')
+            @RateLimit({ limit: 1, window: 60, key: 'api-key' })
+            keyed(@Query('n') n: string) {
+                return { n };
+            }
+
+            @Get('/me')
+            @RateLimit({ limit: 1, window: 60, key: 'user' })
+            me(@Query('n') n: string) {
+                return { n };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                await harness.get('/api/keyed', { headers: { 'x-api-key': 'alpha' } });
+
+                expect((await harness.get('/api/keyed', { headers: { 'x-api-key': 'alpha' } })).status).toBe(429);
+                expect((await harness.get('/api/keyed', { headers: { 'x-api-key': 'beta' } })).status).toBe(200);
+
+                await harness.get('/api/me', { headers: { 'x-user': '1' } });
+
+                expect((await harness.get('/api/me', { headers: { 'x-user': '1' } })).status).toBe(429);
+                expect((await harness.get('/api/me', { headers: { 'x-user': '2' } })).status).toBe(200);
+            },
+            { controllers: [ApiController], config: { globalMiddlewares: [authenticate] } }
+        );
+    });
+
+    it('applies the global limit across routes unless skipped', async () => {
+        @Controller('/global')
+        class GlobalController {
+            @Get('/a')
+            a(@Query('n') n: string) {
+                return { n };
+            }
+
+            @Get('/b')
+            b(@Query('n') n: string) {
+                return { n };
+            }
+
+            @Get('/health')
+            @SkipRateLimit()
+            health(@Query('n') n: string) {
+                return { n };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                expect((await harness.get('/global/a')).status).toBe(200);
+                expect((await harness.get('/global/b')).status).toBe(200);
+                expect((await harness.get('/global/a')).status).toBe(429);
+
+                const health = await harness.get('/global/health');
+
+                expect(health.status).toBe(200);
+                expect(health.headers.get('RateLimit-Limit')).toBeNull();
+            },
+            { controllers: [GlobalController], config: { rateLimit: { limit: 2, window: 60 } } }
+        );
+    });
+
+    it('weighs the previous window with the sliding-window algorithm', async () => {
+        const limiter = new RateLimiter(new CacheService());
+        const options = { limit: 10, window: 10 };
+
+        setSystemTime(new Date(1_000_000_000_000));
+
+        for (let i = 0; i < 10; i++) {
+            await limiter.consume('fixed', options);
+            await limiter.consume('sliding', { ...options, algorithm: 'sliding-window' });
+        }
+
+        // 10% into the next window, 90% of the previous one still counts
+        setSystemTime(new Date(1_000_000_011_000));
+
+        expect((await limiter.consume('fixed', options)).allowed).toBe(true);
+        expect((await limiter.consume('sliding', { ...options, algorithm: 'sliding-window' })).allowed).toBe(true);
+        expect((await limiter.consume('sliding', { ...options, algorithm: 'sliding-window' })).allowed).toBe(false);
+    });
+
+    it('refills tokens steadily and caps bursts with the token-bucket algorithm', async () => {
+        const limiter = new RateLimiter(new CacheService());
+        const options = { limit: 10, window: 10, algorithm: 'token-bucket' as const };
+        const start = 1_000_000_000_000;
+        const burst = async () => {
+            let allowed = 0;
+
+            while ((await limiter.consume('bucket', options)).allowed) {
+                allowed++;
+            }
+
+            return allowed;
+        };
+
+        setSystemTime(new Date(start));
+        expect(await burst()).toBe(10);
+
+        // One token per second, rejected requests do not use any up
+        for (let second = 1; second <= 25; second++) {
+            setSystemTime(new Date(start + second * 1000));
+            expect(await burst()).toBe(1);
+        }
+
+        setSystemTime(new Date(start + 25_500));
+        const rejected = await limiter.consume('bucket', options);
+
+        expect(rejected).toEqual({ allowed: false, limit: 10, remaining: 0, reset: 1 });
+
+        // A long idle period fills the bucket up to the limit only
+        setSystemTime(new Date(start + 300_000));
+        expect(await burst()).toBe(10);
+
+        setSystemTime(new Date(start + 303_000));
+        expect(await burst()).toBe(3);
+    });
+
+    it('adds the headers to a copy of the response', async () => {
+        const shared = new Response('pong');
+
+        @Controller('/ping')
+        class PingController {
+            @Get()
+            @RateLimit({ limit: 5, window: 60 })
+            ping() {
+                return shared;
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/ping');
+
+                expect(await response.text()).toBe('pong');
+                expect(response.headers.get('RateLimit-Remaining')).toBe('4');
+                expect(shared.headers.has('RateLimit-Remaining')).toBe(false);
+            },
+            { controllers: [PingController] }
+        );
+    });
+
+    it('increments Redis counters and starts their window in one command', async () => {
+        const sent: [string, string[]][] = [];
+        const driver = new RedisDriver();
+
+        Object.assign(driver, {
+            connected: true,
+            client: { send: async (name: string, args: string[]) => { sent.push([name, args]); return 1; } }
+        });
+
+        expect(await driver.increment('rl:ip', 59.5)).toBe(1);
+        expect(sent).toHaveLength(1);
+        expect(sent[0][0]).toBe('EVAL');
+        expect(sent[0][1].slice(1)).toEqual(['1', 'rl:ip', '60']);
+    });
+});
@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'bun:test';
+import {
+    Controller,
+    Get,
+    Post,
+    Param,
+    Query,
+    Header,
+    UseGuards,
+    CacheResponse,
+    InvalidateCache,
+    ResponseCache,
+    MemoryDriver,
+    Carno
+} from '../src';
+import type { CanActivate, ExecutionContext } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+describe('Response caching', () => {
+    it('serves repeated GET requests from the cache with ETag and Cache-Control', async () => {
+        let calls = 0;
+
+        @Controller('/products')
+        class ProductController {
+            @Get()
+            @CacheResponse({ ttl: 60 })
+            list(@Query('page') page: string) {
+                calls++;
+                return { page, calls };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const first = await harness.get('/products?page=1');
+                const second = await harness.get('/products?page=1');
+
+                expect(first.headers.get('X-Cache')).toBe('MISS');
+                expect(second.headers.get('X-Cache')).toBe('HIT');
+                expect(second.headers.get('Cache-Control')).toBe('public, max-age=60');
+                expect(second.headers.get('Content-Type')).toContain('application/json');
+                expect(second.headers.get('ETag')).toBe(first.headers.get('ETag'));
+                expect(await second.json()).toEqual({ page: '1', calls: 1 });
+
+                await harness.get('/products?page=2');
+                expect(calls).toBe(2);
+            },
+            { controllers: [ProductController] }
+        );
+    });
+
+    it('answers a matching If-None-Match with 304', async () => {
+        @Controller('/catalog')
+        class CatalogController {
+            @Get(':id')
+            @CacheResponse({ ttl: 30 })
+            show(@Param('id') id: string) {
+                return { id };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const first = await harness.get('/catalog/1');
+                const etag = first.headers.get('ETag')!;
+
+                const notModified = await harness.get('/catalog/1', { headers: { 'If-None-Match': `W/${etag}` } });
+                const changed = await harness.get('/catalog/1', { headers: { 'If-None-Match': '"other"' } });
+
+                expect(notModified.status).toBe(304);
+                expect(notModified.headers.get('ETag')).toBe(etag);
+                expect(await notModified.text()).toBe('');
+                expect(changed.status).toBe(200);
+            },
+            { controllers: [CatalogController] }
+        );
+    });
+
+    it('varies by the configured headers and query keys only', async () => {
+        let calls = 0;
+
+        @Controller('/search')
+        class SearchController {
+            @Get()
+            @CacheResponse({ ttl: 60, vary: { query: ['q'], headers: ['Accept-Language'] } })
+            search(@Query('q') q: string, @Header('accept-language') language: string) {
+                calls++;
+                return { q, language };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                await harness.get('/search?q=bun&utm=mail', { headers: { 'Accept-Language': 'en' } });
+                const sameKey = await harness.get('/search?q=bun&utm=ads', { headers: { 'Accept-Language': 'en' } });
+                const otherLanguage = await harness.get('/search?q=bun', { headers: { 'Accept-Language': 'pt' } });
+
+                expect(sameKey.headers.get('X-Cache')).toBe('HIT');
+                expect(sameKey.headers.get('Vary')).toBe('Accept-Language');
+                expect(await otherLanguage.json()).toEqual({ q: 'bun', language: 'pt' });
+                expect(calls).toBe(2);
+            },
+            { controllers: [SearchController] }
+        );
+    });
+
+    it('invalidates tagged entries from write endpoints and ResponseCache', async () => {
+        let version = 1;
+
+        @Controller('/items')
+        class ItemController {
+            @Get()
+            @CacheResponse({ ttl: 60, tags: ['items'] })
+            list(@Query('page') page: string) {
+                return { page, version };
+            }
+
+            @Post()
+            @InvalidateCache('items')
+            create(@Query('fail') fail: string) {
+                version++;
+
+                if (fail) {
+                    return new Response(null, { status: 500 });
+                }
+
+                return { version };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                expect(await (await harness.get('/items')).json()).toEqual({ version: 1 });
+
+                await harness.post('/items');
+                expect(await (await harness.get('/items')).json()).toEqual({ version: 2 });
+
+                // Failed writes keep the cache
+                await harness.post('/items?fail=1');
+                expect(await (await harness.get('/items')).json()).toEqual({ version: 2 });
+
+                await harness.resolve(ResponseCache).invalidate('items');
+                expect(await (await harness.get('/items')).json()).toEqual({ version: 3 });
+            },
+            { controllers: [ItemController] }
+        );
+    });
+
+    it('runs guards before answering from the cache', async () => {
+        class TokenGuard implements CanActivate {
+            canActivate(context: ExecutionContext): boolean {
+                return context.getContext().headers.get('x-token') === 'secret';
+            }
+        }
+
+        @Controller('/reports')
+        @UseGuards(TokenGuard)
+        class ReportController {
+            @Get()
+            @CacheResponse({ ttl: 60 })
+            index(@Header('x-token') token: string) {
+                return { token };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const allowed = await harness.get('/reports', { headers: { 'x-token': 'secret' } });
+                const denied = await harness.get('/reports');
+
+                expect(allowed.status).toBe(200);
+                expect(denied.status).toBe(403);
+            },
+            { controllers: [ReportController] }
+        );
+    });
+
+    it('does not cache error responses', async () => {
+        let calls = 0;
+
+        @Controller('/flaky')
+        class FlakyController {
+            @Get()
+            @CacheResponse({ ttl: 60 })
+            index(@Query('x') x: string) {
+                calls++;
+                return new Response(x ?? 'down', { status: 503 });
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                await harness.get('/flaky');
+                const second = await harness.get('/flaky');
+
+                expect(second.status).toBe(503);
+                expect(second.headers.get('X-Cache')).toBeNull();
+                expect(calls).toBe(2);
+            },
+            { controllers: [FlakyController] }
+        );
+    });
+
+    it('rejects @CacheResponse on non-GET routes', async () => {
+        @Controller('/orders')
+        class OrderController {
+            @Post()
+            @CacheResponse()
+            create(@Query('id') id: string) {
+                return { id };
+            }
+        }
+
+        const app = new Carno({ disableStartupLog: true }).controllers(OrderController);
+
+        await expect(Promise.resolve().then(() => app.prepare())).rejects.toThrow(
+            '@CacheResponse() only supports GET routes (OrderController.create is POST)'
+        );
+    });
+
+    it('expires memory entries after ttl seconds', async () => {
+        const driver = new MemoryDriver();
+
+        await driver.set('key', 'value', 0.05);
+        expect(await driver.get('key')).toBe('value');
+
+        await Bun.sleep(80);
+        expect(await driver.get('key')).toBeNull();
+    });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+import { Carno, Controller, Get, Middleware, Param, Post, Body, Query } from '../src';
+import type { Context } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+function audit(_ctx: Context) { }
+function auth(_ctx: Context) { }
+
+@Controller('/users')
+@Middleware(auth)
+class UsersController {
+    @Get()
+    list(@Query('page') page: string) {
+        return { page, from: 'users' };
+    }
+
+    @Post()
+    @Middleware(audit)
+    create(@Body() body: any) {
+        return body;
+    }
+
+    @Get('/:id')
+    find(@Param('id') id: string) {
+        return { id };
+    }
+}
+
+@Controller('/users')
+class AdminController {
+    @Get()
+    list() {
+        return { from: 'admin' };
+    }
+}
+
+describe('Route registry', () => {
+    it('lists routes with their handler, middlewares and parameter bindings', async () => {
+        await withTestApp(
+            async (harness) => {
+                const routes = harness.app.getRoutes();
+
+                expect(routes).toContainEqual({
+                    method: 'POST',
+                    path: '/users',
+                    controller: 'UsersController',
+                    handler: 'create',
+                    middlewares: ['auth', 'audit'],
+                    params: [{ index: 0, type: 'body', key: undefined }]
+                });
+
+                expect(routes).toContainEqual({
+                    method: 'GET',
+                    path: '/users/:id',
+                    controller: 'UsersController',
+                    handler: 'find',
+                    middlewares: ['auth'],
+                    params: [{ index: 0, type: 'param', key: 'id' }]
+                });
+
+                expect(routes).toContainEqual({
+                    method: 'GET',
+                    path: '/ping',
+                    controller: null,
+                    handler: 'ping',
+                    middlewares: [],
+                    params: []
+                });
+            },
+            {
+                controllers: [UsersController],
+                plugins: [new Carno().route('GET', '/ping', function ping() { return new Response('pong'); })]
+            }
+        );
+    });
+
+    it('warns about duplicate routes naming both handlers - the last one wins', async () => {
+        const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+        try {
+            await withTestApp(
+                async (harness) => {
+                    expect(warn).toHaveBeenCalledWith(
+                        'Duplicate route GET /users: UsersController.list and AdminController.list - the last one wins'
+                    );
+                    expect(await (await harness.get('/users')).json()).toEqual({ from: 'admin' });
+                },
+                { controllers: [UsersController, AdminController] }
+            );
+        } finally {
+            warn.mockRestore();
+        }
+    });
+
+    it('throws on duplicate routes when configured', async () => {
+        const app = new Carno({ disableStartupLog: true, duplicateRoutes: 'throw' });
+        const plugin = new Carno({ name: 'WebhooksModule' });
+
+        plugin.route('POST', '/users', function importUsers() { return {}; });
+
+        app.use(plugin);
+        app.controllers([UsersController]);
+
+        const message = 'Duplicate route POST /users: importUsers (route() in WebhooksModule) and UsersController.create';
+
+        // Synchronous startup rejects like an asynchronous one - prepare() and listen() never throw
+        await expect(app.prepare()).rejects.toThrow(message);
+        await expect(app.listen(0)).rejects.toThrow(message);
+    });
+
+    it('does not report a plugin reached through several modules', async () => {
+        const warn = spyOn(console, 'warn').mockImplementation(() => {});
+        const shared = new Carno().route('GET', '/ping', () => new Response('pong'));
+        const feature = new Carno({ name: 'FeatureModule' }).use(shared);
+
+        try {
+            const app = new Carno({ disableStartupLog: true, duplicateRoutes: 'throw' });
+            app.use(shared).use(feature);
+
+            await app.prepare();
+
+            expect(warn).not.toHaveBeenCalled();
+            expect(app.getRoutes().filter(route => route.path === '/ping')).toHaveLength(1);
+        } finally {
+            warn.mockRestore();
+        }
+    });
+
+    it('prints the route table at startup when enabled', async () => {
+        const log = spyOn(console, 'log').mockImplementation(() => {});
+        const app = new Carno({ routeTable: true, shutdown: { signals: false } });
+        app.controllers([UsersController]);
+
+        try {
+            await app.listen(3016);
+
+            expect(log).toHaveBeenCalledWith([
+                'Carno running on port 3016',
+                '',
+                'Method  Path        Handler                 Middlewares',
+                'GET     /users      UsersController.list    auth',
+                'POST    /users      UsersController.create  auth, audit',
+                'GET     /users/:id  UsersController.find    auth',
+                ''
+            ].join('\n'));
+        } finally {
+            app.stop();
+            log.mockRestore();
+        }
+    });
+});
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, setSystemTime } from 'bun:test';
+import { Carno, Controller, Get, Post, Query, Session, HttpSession, CookieSessionStore, CacheSessionStore, CacheService } from '../src';
+import type { SessionConfig } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+@Controller('/session')
+class SessionController {
+    @Get()
+    read(@Session() session: HttpSession) {
+        return { id: session.isNew ? null : session.id, user: session.get('user') ?? null };
+    }
+
+    @Post('/login')
+    login(@Query('user') user: string, @Session() session: HttpSession) {
+        session.regenerate();
+        session.set('user', user);
+        return 'ok';
+    }
+
+    @Post('/logout')
+    logout(@Session() session: HttpSession) {
+        session.destroy();
+        return 'ok';
+    }
+}
+
+const secret = { cookies: { secret: 'cookie-secret' } };
+
+function sessionCookie(response: Response): string {
+    return response.headers.getSetCookie().find(c => c.startsWith('carno.sid='))!.split(';')[0];
+}
+
+describe('Sessions', () => {
+    afterEach(() => {
+        setSystemTime();
+    });
+
+    it('persists sessions in CacheService and regenerates the id on login', async () => {
+        await withTestApp(
+            async (harness) => {
+                const anonymous = await harness.get('/session');
+                expect(anonymous.headers.get('set-cookie')).toBeNull();
+
+                const first = sessionCookie(await harness.post('/session/login?user=ana'));
+                const firstId = (await (await harness.get('/session', { headers: { Cookie: first } })).json()).id;
+
+                const second = sessionCookie(await harness.post('/session/login?user=bob', undefined, { headers: { Cookie: first } }));
+                const current = await (await harness.get('/session', { headers: { Cookie: second } })).json();
+
+                expect(current.user).toBe('bob');
+                expect(current.id).not.toBe(firstId);
+
+                // The pre-login session is gone from the store
+                const cache = harness.resolve(CacheService);
+                expect(await cache.get(`session:${firstId}`)).toBeNull();
+                expect(await (await harness.get('/session', { headers: { Cookie: first } })).json()).toEqual({ id: null, user: null });
+            },
+            { controllers: [SessionController], config: { ...secret, session: {} } }
+        );
+    });
+
+    it('keeps the whole session in an encrypted cookie', async () => {
+        const session: SessionConfig = { store: new CookieSessionStore({ secret: 'encryption-key' }), cookie: { secure: true } };
+
+        await withTestApp(
+            async (harness) => {
+                const login = await harness.post('/session/login?user=ana');
+                const cookie = sessionCookie(login);
+
+                expect(login.headers.get('set-cookie')).toContain('HttpOnly; Secure; SameSite=Lax');
+                expect(cookie).not.toContain('ana');
+                expect((await (await harness.get('/session', { headers: { Cookie: cookie } })).json()).user).toBe('ana');
+
+                const logout = await harness.post('/session/logout', undefined, { headers: { Cookie: cookie } });
+                expect(logout.headers.get('set-cookie')).toContain('Max-Age=0');
+            },
+            { controllers: [SessionController], config: { ...secret, session } }
+        );
+    });
+
+    it('extends rolling sessions on every request', async () => {
+        setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+        await withTestApp(
+            async (harness) => {
+                const cookie = sessionCookie(await harness.post('/session/login?user=ana'));
+
+                setSystemTime(new Date('2026-01-01T00:00:50Z'));
+                const refreshed = await harness.get('/session', { headers: { Cookie: cookie } });
+                expect(refreshed.headers.get('set-cookie')).toContain('Max-Age=60');
+
+                // Past the original expiry, still alive thanks to the refresh
+                setSystemTime(new Date('2026-01-01T00:01:30Z'));
+                const alive = await harness.get('/session', { headers: { Cookie: sessionCookie(refreshed) } });
+                expect((await alive.json()).user).toBe('ana');
+
+                setSystemTime(new Date('2026-01-01T00:03:00Z'));
+                expect((await (await harness.get('/session', { headers: { Cookie: sessionCookie(alive) } })).json()).user).toBeNull();
+            },
+            {
+                controllers: [SessionController],
+                config: { ...secret, session: { store: new CookieSessionStore({ secret: 'k' }), ttl: 60, rolling: true } }
+            }
+        );
+    });
+
+    it('requires a cookie secret and the session option', async () => {
+        expect(() => new Carno({ session: {} })).toThrow('Sessions need a cookie secret');
+
+        const app = new Carno({ disableStartupLog: true });
+        app.controllers([SessionController]);
+
+        await expect(Promise.resolve().then(() => app.prepare()))
+            .rejects.toThrow('@Session() in SessionController.read needs the `session` option on Carno');
+    });
+});
+
+describe('CacheSessionStore', () => {
+    it('round-trips records and ignores unknown ids', async () => {
+        const store = new CacheSessionStore(new CacheService());
+        const id = await store.write({ id: 'abc', data: { a: 1 }, expiresAt: Date.now() + 60_000 });
+
+        expect(await store.read(id)).toEqual({ id: 'abc', data: { a: 1 }, expiresAt: expect.any(Number) });
+        expect(await store.read('unknown')).toBeNull();
+    });
+});
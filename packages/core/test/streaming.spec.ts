@@ -0,0 +1,169 @@
+import { describe, expect, test } from 'bun:test';
+import { Controller, Get, Sse, Context, Ctx, BadRequestException, formatSseMessage } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+describe('Streaming responses', () => {
+    test('streams async generators as NDJSON', async () => {
+        @Controller('/feed')
+        class FeedController {
+            @Get()
+            async *feed(@Ctx() ctx: Context) {
+                for (let i = 1; i <= 3; i++) {
+                    yield { step: i, path: ctx.path };
+                }
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/feed');
+
+                expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+
+                const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+                expect(lines).toEqual([
+                    { step: 1, path: '/feed' },
+                    { step: 2, path: '/feed' },
+                    { step: 3, path: '/feed' },
+                ]);
+            },
+            {
+                controllers: [FeedController],
+                listen: true,
+            }
+        );
+    });
+
+    test('frames @Sse() events with event, id and retry', async () => {
+        @Controller('/events')
+        class EventsController {
+            @Get()
+            @Sse({ heartbeat: 0 })
+            async *events(@Ctx() ctx: Context) {
+                yield { event: 'progress', id: 1, retry: 5000, data: { percent: 50 } };
+                yield 'line one\nline two';
+                yield { data: ctx.query.name };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/events?name=carno', {
+                    headers: { origin: 'http://example.com' },
+                });
+
+                expect(response.headers.get('content-type')).toBe('text/event-stream');
+                expect(response.headers.get('cache-control')).toBe('no-cache');
+                expect(response.headers.get('access-control-allow-origin')).toBe('*');
+                expect(await response.text()).toBe(
+                    'event: progress\nid: 1\nretry: 5000\ndata: {"percent":50}\n\n'
+                    + 'data: line one\ndata: line two\n\n'
+                    + 'data: carno\n\n'
+                );
+            },
+            {
+                controllers: [EventsController],
+                config: { cors: { origins: '*' } },
+                listen: true,
+            }
+        );
+    });
+
+    test('sends heartbeats and reports errors raised mid-stream', async () => {
+        @Controller('/slow')
+        class SlowController {
+            @Get()
+            @Sse({ heartbeat: 20 })
+            async *slow(@Ctx() ctx: Context) {
+                yield { data: ctx.path };
+                await Bun.sleep(70);
+                throw new BadRequestException('Feed closed');
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const body = await (await harness.get('/slow')).text();
+
+                expect(body.startsWith('data: /slow\n\n')).toBe(true);
+                expect(body).toContain(': heartbeat\n\n');
+                expect(body.endsWith('event: error\ndata: {"statusCode":400,"message":"Feed closed"}\n\n')).toBe(true);
+            },
+            {
+                controllers: [SlowController],
+                listen: true,
+            }
+        );
+    });
+
+    test('detects client disconnect through Context', async () => {
+        let finalized = false;
+        let signal: AbortSignal | undefined;
+
+        @Controller('/live')
+        class LiveController {
+            @Get()
+            async *live(@Ctx() ctx: Context) {
+                signal = ctx.signal;
+
+                try {
+                    while (!ctx.aborted) {
+                        yield { at: Date.now() };
+                        await Bun.sleep(10);
+                    }
+                } finally {
+                    finalized = true;
+                }
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const controller = new AbortController();
+                const response = await harness.get('/live', { signal: controller.signal });
+                const reader = response.body!.getReader();
+
+                await reader.read();
+                controller.abort();
+
+                await Bun.sleep(100);
+
+                expect(finalized).toBe(true);
+                expect(signal?.aborted).toBe(true);
+            },
+            {
+                controllers: [LiveController],
+                listen: true,
+            }
+        );
+    });
+
+    test('keeps arrays as JSON', async () => {
+        @Controller('/list')
+        class ListController {
+            @Get()
+            list(@Ctx() ctx: Context) {
+                return [ctx.path];
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.get('/list');
+
+                expect(response.headers.get('content-type')).toContain('application/json');
+                expect(await response.json()).toEqual(['/list']);
+            },
+            {
+                controllers: [ListController],
+                listen: true,
+            }
+        );
+    });
+
+    test('keeps event and id on one line so they cannot inject fields', () => {
+        const frame = formatSseMessage({ event: 'update\ndata: forged', id: '7\r\nevent: admin', data: 'a\rb\r\nc' });
+
+        expect(frame).toBe('event: updatedata: forged\nid: 7event: admin\ndata: a\ndata: b\ndata: c\n\n');
+    });
+});
@@ -1,5 +1,16 @@
 import { describe, expect, test, afterEach } from "bun:test";
-import { Controller, Get, Carno } from "../src";
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Carno,
+  Header,
+  Service,
+  NotFoundException,
+  TestClient,
+} from "../src";
 import { createTestHarness, withTestApp } from "../src/testing/TestHarness";
 
 describe("Testing Helpers", () => {
@@ -92,3 +103,117 @@ describe("Testing Helpers", () => {
     );
   });
 });
+
+describe("In-process dispatch", () => {
+  @Service()
+  class UserRepository {
+    find(id: string) {
+      return { id, source: "database" };
+    }
+  }
+
+  @Controller("/users")
+  class UserController {
+    constructor(private repository: UserRepository) {}
+
+    @Get("/:id")
+    find(@Param("id") id: string) {
+      if (id === "missing") {
+        throw new NotFoundException("User not found");
+      }
+
+      return this.repository.find(id);
+    }
+
+    @Post()
+    create(@Body() body: any, @Header("x-tenant") tenant: string) {
+      return Response.json({ created: body.name, header: tenant }, { status: 201 });
+    }
+  }
+
+  test("app.inject dispatches through the route table without a server", async () => {
+    const app = new Carno({ disableStartupLog: true });
+    app.controllers([UserController]).services([UserRepository]);
+
+    const response = await app.inject("/users/42");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: "42", source: "database" });
+    expect((app as any).server).toBeUndefined();
+  });
+
+  test("app.inject applies not-found, error and static route handling", async () => {
+    const app = new Carno({ disableStartupLog: true });
+    app.controllers([UserController]).services([UserRepository]);
+
+    const missing = await app.inject("/users/missing");
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ statusCode: 404, message: "User not found" });
+
+    expect((await app.inject("/nowhere")).status).toBe(404);
+
+    const wrongMethod = await app.inject(new Request("http://localhost/users/1", { method: "PATCH" }));
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get("allow")).toBe("GET, HEAD, OPTIONS");
+
+    // Static routes can be served repeatedly
+    expect((await app.inject("/favicon.ico")).status).toBe(204);
+    expect((await app.inject("/favicon.ico")).status).toBe(204);
+
+    expect(await (await app.inject("/health")).json()).toEqual({ status: "ok", checks: {} });
+  });
+
+  test("fluent client sends requests and checks expectations", async () => {
+    const app = new Carno({ disableStartupLog: true });
+    app.controllers([UserController]).services([UserRepository]);
+
+    const client = new TestClient(app);
+
+    const user = await client.get("/users/1").expectStatus(200).json();
+    expect(user).toEqual({ id: "1", source: "database" });
+
+    const created = await client
+      .post("/users", { name: "John" })
+      .set("x-tenant", "acme")
+      .expectStatus(201)
+      .expectHeader("content-type", /json/)
+      .json();
+    expect(created).toEqual({ created: "John", header: "acme" });
+
+    await expect(client.get("/users/missing").expectStatus(200).json()).rejects.toThrow(
+      "Expected status 200 but received 404 for GET /users/missing"
+    );
+  });
+
+  test("overrides replace providers before bootstrap", async () => {
+    const fakeRepository = {
+      find: (id: string) => ({ id, source: "mock" }),
+    };
+
+    await withTestApp(
+      async (harness) => {
+        expect(harness.server).toBeUndefined();
+
+        const response = await harness.get("/users/7");
+        expect(await response.json()).toEqual({ id: "7", source: "mock" });
+
+        await harness.client.get("/users/8").expectStatus(200);
+        expect(harness.resolve(UserRepository)).toBe(fakeRepository as any);
+      },
+      {
+        controllers: [UserController],
+        services: [UserRepository],
+        overrides: [{ token: UserRepository, useValue: fakeRepository }],
+      }
+    );
+  });
+
+  test("overrideProvider is rejected after bootstrap", () => {
+    const app = new Carno({ disableStartupLog: true });
+    app.prepare();
+
+    expect(() => app.overrideProvider(UserRepository, { useValue: {} })).toThrow(
+      "Cannot override UserRepository after the application was bootstrapped"
+    );
+  });
+});
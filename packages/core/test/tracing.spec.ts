@@ -0,0 +1,176 @@
+import { afterAll, beforeEach, describe, expect, it } from 'bun:test';
+import {
+    CacheService,
+    Controller,
+    Get,
+    NotFoundException,
+    Param,
+    Service,
+    Tracer,
+    formatTraceparent,
+    parseTraceparent
+} from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+const received: any[] = [];
+
+// Stands in for an OpenTelemetry Collector's OTLP/HTTP receiver
+const collector = Bun.serve({
+    port: 0,
+    async fetch(req) {
+        const url = new URL(req.url);
+
+        if (req.method !== 'POST' || url.pathname !== '/v1/traces') {
+            return new Response('Not Found', { status: 404 });
+        }
+
+        received.push(await req.json());
+
+        return Response.json({});
+    }
+});
+
+afterAll(() => collector.stop(true));
+
+function exportedSpans(): any[] {
+    return received.flatMap(body => body.resourceSpans.flatMap((rs: any) => rs.scopeSpans.flatMap((ss: any) => ss.spans)));
+}
+
+function attribute(span: any, key: string): any {
+    const value = span.attributes.find((a: any) => a.key === key)?.value;
+
+    return value && (value.stringValue ?? value.intValue ?? value.boolValue ?? value.doubleValue);
+}
+
+@Service()
+class DogsRepository {
+    constructor(private cache: CacheService) { }
+
+    find(id: string) {
+        return this.cache.getOrSet(`dog:${id}`, async () => ({ id }));
+    }
+}
+
+@Controller('/dogs')
+class DogsController {
+    constructor(private dogs: DogsRepository) { }
+
+    @Get('/:id')
+    async find(@Param('id') id: string) {
+        if (id === 'missing') {
+            throw new NotFoundException();
+        }
+
+        if (id === 'broken') {
+            throw new Error('Database unavailable');
+        }
+
+        return this.dogs.find(id);
+    }
+}
+
+const tracing = () => ({
+    controllers: [DogsController],
+    services: [DogsRepository],
+    config: { tracing: { endpoint: `http://localhost:${collector.port}`, serviceName: 'dogs-api' } }
+});
+
+describe('Tracing', () => {
+    beforeEach(() => {
+        received.length = 0;
+    });
+
+    it('parses and formats traceparent headers', () => {
+        const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+        expect(parseTraceparent(header)).toEqual({
+            traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            spanId: '00f067aa0ba902b7',
+            traceFlags: 1
+        });
+        expect(formatTraceparent(parseTraceparent(header)!)).toBe(header);
+        expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+        expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeNull();
+        expect(parseTraceparent('garbage')).toBeNull();
+    });
+
+    it('exports a server span continuing the incoming trace, with cache spans as children', async () => {
+        await withTestApp(
+            async (harness) => {
+                await harness.get('/dogs/1', {
+                    headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' }
+                });
+                await harness.resolve(Tracer).flush();
+
+                const resource = received[0].resourceSpans[0].resource.attributes;
+                const spans = exportedSpans();
+                const server = spans.find(span => span.name === 'GET /dogs/:id');
+                const lookup = spans.find(span => span.name === 'cache get');
+                const store = spans.find(span => span.name === 'cache set');
+
+                expect(resource).toContainEqual({ key: 'service.name', value: { stringValue: 'dogs-api' } });
+                expect(server.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+                expect(server.parentSpanId).toBe('00f067aa0ba902b7');
+                expect(server.kind).toBe(2);
+                expect(attribute(server, 'http.route')).toBe('/dogs/:id');
+                expect(attribute(server, 'http.response.status_code')).toBe('200');
+                expect(BigInt(server.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(server.startTimeUnixNano));
+
+                expect(lookup.traceId).toBe(server.traceId);
+                expect(lookup.parentSpanId).toBe(server.spanId);
+                expect(lookup.kind).toBe(3);
+                expect(attribute(lookup, 'cache.key')).toBe('dog:1');
+                expect(attribute(lookup, 'cache.hit')).toBe(false);
+                expect(store.parentSpanId).toBe(server.spanId);
+            },
+            tracing()
+        );
+    });
+
+    it('marks 5xx failures as errors but not client errors', async () => {
+        await withTestApp(
+            async (harness) => {
+                await harness.get('/dogs/missing');
+                await harness.get('/dogs/broken');
+                await harness.resolve(Tracer).flush();
+
+                const [missing, broken] = exportedSpans().filter(span => span.name === 'GET /dogs/:id');
+
+                expect(missing.parentSpanId).toBeUndefined();
+                expect(attribute(missing, 'http.response.status_code')).toBe('404');
+                expect(missing.status).toEqual({ code: 0 });
+
+                expect(attribute(broken, 'http.response.status_code')).toBe('500');
+                expect(broken.status).toEqual({ code: 2, message: 'Database unavailable' });
+                expect(broken.events[0].name).toBe('exception');
+            },
+            tracing()
+        );
+    });
+
+    it('keeps the sampling decision of the caller', async () => {
+        await withTestApp(
+            async (harness) => {
+                await harness.get('/dogs/1', {
+                    headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00' }
+                });
+                await harness.resolve(Tracer).flush();
+
+                expect(received).toHaveLength(0);
+            },
+            tracing()
+        );
+    });
+
+    it('injects a disabled tracer without the option', async () => {
+        await withTestApp(
+            async (harness) => {
+                const tracer = harness.resolve(Tracer);
+
+                expect(tracer.enabled).toBe(false);
+                expect(tracer.startActiveSpan('noop', {}, span => span)).toBeNull();
+            },
+            { controllers: [DogsController], services: [DogsRepository] }
+        );
+    });
+});
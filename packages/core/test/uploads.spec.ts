@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Controller, Post, Body, UploadedFile, UploadedFiles } from '../src';
+import { parseMultipart } from '../src/upload/MultipartParser';
+import { createUploadRules, DEFAULT_MAX_FIELD_SIZE, DEFAULT_MAX_FILE_SIZE } from '../src/upload/UploadRules';
+import { withTestApp } from '../src/testing/TestHarness';
+
+function form(entries: [string, string | File][]): FormData {
+    const data = new FormData();
+
+    for (const [name, value] of entries) {
+        data.append(name, value);
+    }
+
+    return data;
+}
+
+const png = (name: string, size = 4) => new File([new Uint8Array(size).fill(7)], name, { type: 'image/png' });
+
+describe('File uploads', () => {
+    @Controller('/uploads')
+    class UploadController {
+        @Post('/avatar')
+        async avatar(
+            @UploadedFile('avatar', { maxFileSize: 16, mimeTypes: ['image/*'], required: true }) avatar: File,
+            @Body() body: any
+        ) {
+            return { name: avatar.name, type: avatar.type, size: avatar.size, bytes: [...new Uint8Array(await avatar.arrayBuffer())], tags: body.tags };
+        }
+
+        @Post('/documents')
+        documents(@UploadedFiles('docs', { maxFiles: 2 }) docs: File[]) {
+            return docs.map(doc => doc.name);
+        }
+
+        @Post('/any')
+        any(@UploadedFiles() files: File[]) {
+            return files.map(file => file.name);
+        }
+    }
+
+    it('injects File objects and keeps repeated fields', async () => {
+        await withTestApp(
+            async (harness) => {
+                const response = await harness.post('/uploads/avatar', form([
+                    ['avatar', png('me.png')],
+                    ['tags', 'a'],
+                    ['tags', 'b']
+                ]));
+
+                expect(response.status).toBe(200);
+                expect(await response.json()).toEqual({ name: 'me.png', type: 'image/png', size: 4, bytes: [7, 7, 7, 7], tags: ['a', 'b'] });
+
+                const all = await harness.post('/uploads/any', form([['a', png('1.png')], ['b', png('2.png')]]));
+                expect(await all.json()).toEqual(['1.png', '2.png']);
+            },
+            { controllers: [UploadController] }
+        );
+    });
+
+    it('rejects uploads breaking the route limits with 400', async () => {
+        await withTestApp(
+            async (harness) => {
+                const message = async (path: string, data: FormData) => {
+                    const response = await harness.post(path, data);
+
+                    expect(response.status).toBe(400);
+                    return (await response.json()).message;
+                };
+
+                expect(await message('/uploads/avatar', form([['avatar', png('big.png', 17)]])))
+                    .toBe('File "avatar" exceeds the maximum size of 16 bytes');
+                expect(await message('/uploads/avatar', form([['avatar', new File(['x'], 'a.txt', { type: 'text/plain' })]])))
+                    .toBe('File type "text/plain" is not allowed for "avatar"');
+                expect(await message('/uploads/avatar', form([['avatar', png('1.png')], ['avatar', png('2.png')]])))
+                    .toBe('Only one file is allowed for "avatar"');
+                expect(await message('/uploads/avatar', form([['avatar', png('1.png')], ['other', png('2.png')]])))
+                    .toBe('Unexpected file field "other"');
+                expect(await message('/uploads/avatar', form([['tags', 'a']])))
+                    .toBe('Missing file "avatar"');
+                expect(await message('/uploads/documents', form([['docs', png('1.png')], ['docs', png('2.png')], ['docs', png('3.png')]])))
+                    .toBe('Too many files for "docs" (max 2)');
+            },
+            { controllers: [UploadController] }
+        );
+    });
+
+    it('streams files to a temp directory and removes them after the response', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'carno-uploads-'));
+        let seen: string[] = [];
+
+        @Controller('/import')
+        class ImportController {
+            @Post()
+            async import(@UploadedFile('file', { tempDir: dir }) file: File) {
+                seen = await readdir(dir);
+                return { name: file.name, text: await file.text() };
+            }
+        }
+
+        try {
+            await withTestApp(
+                async (harness) => {
+                    const csv = 'id,name\n1,ana\n'.repeat(1000);
+                    const response = await harness.post('/import', form([['file', new File([csv], 'users.csv', { type: 'text/csv' })]]));
+
+                    expect(await response.json()).toEqual({ name: 'users.csv', text: csv });
+                    expect(seen).toHaveLength(1);
+
+                    await Bun.sleep(10);
+                    expect(await readdir(dir)).toEqual([]);
+                },
+                { controllers: [ImportController] }
+            );
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('parses bodies split into arbitrary chunks', async () => {
+        const source = new Request('http://localhost/', {
+            method: 'POST',
+            body: form([['title', 'report'], ['file', new File(['a'.repeat(300)], 'r.txt', { type: 'text/plain' })]])
+        });
+        const contentType = source.headers.get('content-type')!;
+        const bytes = new Uint8Array(await source.arrayBuffer());
+
+        // One byte at a time - delimiters straddle every chunk boundary
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (const byte of bytes) controller.enqueue(new Uint8Array([byte]));
+                controller.close();
+            }
+        });
+        const req = new Request('http://localhost/', {
+            method: 'POST',
+            headers: { 'content-type': contentType },
+            body
+        });
+
+        const rules = createUploadRules([{ type: 'file', key: 'file', index: 0, options: { maxFileSize: 300 } }]);
+        const { body: fields, files } = await parseMultipart(req, rules);
+
+        expect(fields.title).toBe('report');
+        expect(await files.file[0].text()).toBe('a'.repeat(300));
+    });
+
+    it('keeps fields named like Object.prototype members as plain fields', async () => {
+        const req = new Request('http://localhost/', {
+            method: 'POST',
+            body: form([['constructor', 'a'], ['toString', 'b'], ['__proto__', 'c'], ['__proto__', 'd']])
+        });
+
+        const { body } = await parseMultipart(req);
+
+        expect(body.constructor).toBe('a');
+        expect(body.toString).toBe('b');
+        expect(Object.getOwnPropertyDescriptor(body, '__proto__')?.value).toEqual(['c', 'd']);
+        expect(Object.getPrototypeOf(body)).toBeNull();
+    });
+
+    it('applies default field, file and body size limits without upload rules', async () => {
+        const parse = (entries: [string, string | File][]) => parseMultipart(new Request('http://localhost/', {
+            method: 'POST',
+            body: form(entries)
+        }));
+
+        await expect(parse([['note', 'x'.repeat(DEFAULT_MAX_FIELD_SIZE + 1)]]))
+            .rejects.toThrow(`Field "note" exceeds the maximum size of ${DEFAULT_MAX_FIELD_SIZE} bytes`);
+        await expect(parse([['file', new File([new Uint8Array(DEFAULT_MAX_FILE_SIZE + 1)], 'big.bin')]]))
+            .rejects.toThrow(`File "file" exceeds the maximum size of ${DEFAULT_MAX_FILE_SIZE} bytes`);
+
+        const chunk = () => new File([new Uint8Array(8 * 1024 * 1024)], 'part.bin');
+
+        await expect(parse([['a', chunk()], ['b', chunk()], ['c', chunk()]]))
+            .rejects.toThrow('Multipart body exceeds the maximum size of');
+    });
+
+    it('documents upload routes as multipart/form-data', async () => {
+        @Controller('/media')
+        class MediaController {
+            @Post()
+            upload(@UploadedFile('image', { required: true }) image: File, @Body('caption') caption: string) {
+                return { image: image.name, caption };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const doc = await (await harness.get('/openapi.json')).json();
+
+                expect(doc.paths['/media'].post.requestBody.content['multipart/form-data'].schema).toEqual({
+                    type: 'object',
+                    properties: { caption: { type: 'string' }, image: { type: 'string', format: 'binary' } },
+                    required: ['image']
+                });
+            },
+            { controllers: [MediaController], config: { openapi: true } }
+        );
+    });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, test } from 'bun:test';
 import { z } from 'zod';
-import { Controller, Get, Body, Post, Schema, ZodAdapter } from '../src';
+import { Controller, Get, Body, Post, Query, Param, Header, Schema, ZodAdapter, ValibotAdapter } from '../src';
+import * as v from 'valibot';
 import { withTestApp } from '../src/testing/TestHarness';
 
 describe('Validation with Zod', () => {
@@ -116,3 +117,125 @@ describe('Validation with Zod', () => {
         );
     });
 });
+
+describe('Validation of query, params and headers', () => {
+    @Schema(z.object({
+        page: z.coerce.number().int().min(1).default(1),
+        search: z.string().optional(),
+    }))
+    class ListQueryDto {
+        page!: number;
+        search?: string;
+    }
+
+    @Schema(z.object({
+        id: z.string().uuid(),
+    }))
+    class IdParamsDto {
+        id!: string;
+    }
+
+    @Schema(z.object({
+        'x-api-key': z.string().min(3),
+    }))
+    class ApiHeadersDto {
+        'x-api-key'!: string;
+    }
+
+    @Controller('/products')
+    class ProductController {
+        @Get()
+        list(@Query() query: ListQueryDto) {
+            return { page: query.page, type: typeof query.page, search: query.search ?? null };
+        }
+
+        @Get('/:id')
+        find(@Param() params: IdParamsDto, @Header() headers: ApiHeadersDto) {
+            return { id: params.id, key: headers['x-api-key'] };
+        }
+
+        @Post('/:id')
+        update(@Param() params: IdParamsDto, @Body('name') name: string) {
+            return { id: params.id, name };
+        }
+    }
+
+    const options = { controllers: [ProductController], listen: true };
+    const uuid = '3f0c7a8e-8a8e-4a5b-9a55-0d0f7b0c2b11';
+
+    test('coerces query DTO values through the schema', async () => {
+        await withTestApp(async (harness) => {
+            const response = await harness.get('/products?page=2&search=lamp');
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ page: 2, type: 'number', search: 'lamp' });
+
+            const defaults = await harness.get('/products');
+            expect(await defaults.json()).toEqual({ page: 1, type: 'number', search: null });
+        }, options);
+    });
+
+    test('rejects invalid query DTO with the validation error format', async () => {
+        await withTestApp(async (harness) => {
+            const response = await harness.get('/products?page=0');
+
+            expect(response.status).toBe(400);
+            const data = await response.json();
+            expect(data.message).toBe('Validation failed');
+            expect(data.errors[0].path).toBe('page');
+        }, options);
+    });
+
+    test('validates param and header DTOs', async () => {
+        await withTestApp(async (harness) => {
+            const ok = await harness.get(`/products/${uuid}`, { headers: { 'x-api-key': 'secret' } });
+            expect(ok.status).toBe(200);
+            expect(await ok.json()).toEqual({ id: uuid, key: 'secret' });
+
+            const badParam = await harness.get('/products/123', { headers: { 'x-api-key': 'secret' } });
+            expect(badParam.status).toBe(400);
+            expect((await badParam.json()).errors[0].path).toBe('id');
+
+            const badHeader = await harness.get(`/products/${uuid}`);
+            expect(badHeader.status).toBe(400);
+            expect((await badHeader.json()).errors[0].path).toBe('x-api-key');
+        }, options);
+    });
+
+    test('validates params alongside body fields', async () => {
+        await withTestApp(async (harness) => {
+            const response = await harness.post(`/products/${uuid}`, { name: 'Desk' });
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ id: uuid, name: 'Desk' });
+
+            expect((await harness.post('/products/nope', { name: 'Desk' })).status).toBe(400);
+        }, options);
+    });
+
+    test('works with the Valibot adapter', async () => {
+        @Schema(v.object({
+            limit: v.pipe(v.string(), v.transform(Number), v.number(), v.maxValue(50)),
+        }))
+        class LimitQueryDto {
+            limit!: number;
+        }
+
+        @Controller('/feed')
+        class FeedController {
+            @Get()
+            list(@Query() query: LimitQueryDto) {
+                return { limit: query.limit };
+            }
+        }
+
+        await withTestApp(async (harness) => {
+            expect(await (await harness.get('/feed?limit=10')).json()).toEqual({ limit: 10 });
+            expect((await harness.get('/feed?limit=99')).status).toBe(400);
+        }, {
+            controllers: [FeedController],
+            config: { validation: new ValibotAdapter() },
+            listen: true,
+        });
+    });
+});
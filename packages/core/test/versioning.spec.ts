@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'bun:test';
+import { Carno, Controller, Get, Param, VERSION_NEUTRAL } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+@Controller({ path: '/cats', version: '1' })
+class CatsV1Controller {
+    @Get()
+    list() {
+        return { version: 1 };
+    }
+
+    @Get('/:id')
+    find(@Param('id') id: string) {
+        return { version: 1, id };
+    }
+}
+
+@Controller({ path: '/cats', version: '2' })
+class CatsV2Controller {
+    @Get()
+    list() {
+        return { version: 2 };
+    }
+
+    @Get('/:id', { version: ['2', '3'] })
+    find(@Param('id') id: string) {
+        return { version: 2, id };
+    }
+}
+
+@Controller('/status')
+class StatusController {
+    @Get('', { version: VERSION_NEUTRAL })
+    status() {
+        return { ok: true };
+    }
+
+    @Get('/legacy')
+    legacy() {
+        return { legacy: true };
+    }
+}
+
+describe('API versioning', () => {
+    it('prefixes URI versions and keeps neutral routes unprefixed', async () => {
+        await withTestApp(
+            async (harness) => {
+                expect(await (await harness.get('/v1/cats')).json()).toEqual({ version: 1 });
+                expect(await (await harness.get('/v2/cats')).json()).toEqual({ version: 2 });
+                expect(await (await harness.get('/v3/cats/7')).json()).toEqual({ version: 2, id: '7' });
+                expect(await (await harness.get('/status')).json()).toEqual({ ok: true });
+
+                // Routes without a version get the default one
+                expect(await (await harness.get('/v1/status/legacy')).json()).toEqual({ legacy: true });
+
+                expect((await harness.get('/cats')).status).toBe(404);
+                expect((await harness.get('/v3/cats')).status).toBe(404);
+            },
+            {
+                controllers: [CatsV1Controller, CatsV2Controller, StatusController],
+                config: { versioning: { type: 'uri', defaultVersion: '1' } }
+            }
+        );
+    });
+
+    it('dispatches on a version header, falling back to the default and neutral routes', async () => {
+        await withTestApp(
+            async (harness) => {
+                const v2 = await harness.get('/cats/5', { headers: { 'Api-Version': '2' } });
+                expect(await v2.json()).toEqual({ version: 2, id: '5' });
+
+                const v1 = await harness.get('/cats', { headers: { 'Api-Version': '1' } });
+                expect(await v1.json()).toEqual({ version: 1 });
+
+                // No header - default version
+                expect(await (await harness.get('/cats')).json()).toEqual({ version: 2 });
+
+                expect((await harness.get('/cats', { headers: { 'Api-Version': '9' } })).status).toBe(404);
+                expect(await (await harness.get('/status', { headers: { 'Api-Version': '9' } })).json()).toEqual({ ok: true });
+
+                // Routes without a version get the default one
+                expect(await (await harness.get('/status/legacy')).json()).toEqual({ legacy: true });
+            },
+            {
+                controllers: [CatsV1Controller, CatsV2Controller, StatusController],
+                config: { versioning: { type: 'header', header: 'Api-Version', defaultVersion: '2' } }
+            }
+        );
+    });
+
+    it('reads the version from an Accept media type parameter', async () => {
+        await withTestApp(
+            async (harness) => {
+                const res = await harness.get('/cats', { headers: { Accept: 'application/json;version=1' } });
+                expect(await res.json()).toEqual({ version: 1 });
+
+                const other = await harness.get('/cats/3', { headers: { Accept: 'application/vnd.cats+json; version=3' } });
+                expect(await other.json()).toEqual({ version: 2, id: '3' });
+            },
+            {
+                controllers: [CatsV1Controller, CatsV2Controller],
+                config: { versioning: { type: 'media-type', key: 'version' } }
+            }
+        );
+    });
+
+    it('requires the versioning option for versioned routes', async () => {
+        const app = new Carno({ disableStartupLog: true });
+        app.controllers([CatsV1Controller]);
+
+        await expect(Promise.resolve().then(() => app.prepare()))
+            .rejects.toThrow('Version of CatsV1Controller.list needs the `versioning` option on Carno');
+    });
+});
@@ -0,0 +1,224 @@
+import { describe, expect, test } from 'bun:test';
+import {
+    Carno,
+    Controller,
+    Post,
+    Body,
+    Service,
+    UseGuards,
+    Use,
+    WebSocketGateway,
+    WebSocketPublisher,
+    OnOpen,
+    OnMessage,
+    OnClose,
+    BadRequestException,
+} from '../src';
+import type { CanActivate, ExecutionContext, GatewaySocket, MiddlewareHandler } from '../src';
+import { withTestApp } from '../src/testing/TestHarness';
+
+function connect(port: number, path: string, headers?: Record<string, string>): Promise<{ ws: WebSocket; messages: any[]; next: () => Promise<any> }> {
+    return new Promise((resolve, reject) => {
+        const ws = new WebSocket(`ws://127.0.0.1:${port}${path}`, { headers } as any);
+        const messages: any[] = [];
+        const waiting: ((value: any) => void)[] = [];
+
+        ws.onmessage = (event) => {
+            const data = typeof event.data === 'string' && event.data.startsWith('{')
+                ? JSON.parse(event.data)
+                : event.data;
+
+            const waiter = waiting.shift();
+            waiter ? waiter(data) : messages.push(data);
+        };
+
+        const next = () => messages.length > 0
+            ? Promise.resolve(messages.shift())
+            : new Promise(r => waiting.push(r));
+
+        ws.onopen = () => resolve({ ws, messages, next });
+        ws.onerror = () => reject(new Error('connection failed'));
+    });
+}
+
+@Service()
+class GreetingService {
+    greet(name: string) {
+        return `Hello, ${name}`;
+    }
+}
+
+describe('WebSocket gateways', () => {
+    test('dispatches open, named events, fallback and close to the gateway', async () => {
+        const closed: number[] = [];
+
+        @WebSocketGateway('/ws')
+        class ChatGateway {
+            constructor(private greetings: GreetingService) {}
+
+            @OnOpen()
+            open(socket: GatewaySocket) {
+                socket.send(JSON.stringify({ event: 'welcome', data: socket.data.ctx.query.name }));
+            }
+
+            @OnMessage('greet')
+            greet(socket: GatewaySocket, data: { name: string }) {
+                return this.greetings.greet(data.name);
+            }
+
+            @OnMessage('fail')
+            fail() {
+                throw new BadRequestException('Invalid payload');
+            }
+
+            @OnMessage()
+            echo(socket: GatewaySocket, message: string) {
+                return `echo:${message}`;
+            }
+
+            @OnClose()
+            close(socket: GatewaySocket, code: number) {
+                closed.push(code);
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const { ws, next } = await connect(harness.port!, '/ws?name=john');
+
+                expect(await next()).toEqual({ event: 'welcome', data: 'john' });
+
+                ws.send(JSON.stringify({ event: 'greet', data: { name: 'Ana' } }));
+                expect(await next()).toEqual({ event: 'greet', data: 'Hello, Ana' });
+
+                ws.send(JSON.stringify({ event: 'fail' }));
+                expect(await next()).toEqual({ event: 'exception', data: { statusCode: 400, message: 'Invalid payload' } });
+
+                ws.send('ping');
+                expect(await next()).toBe('echo:ping');
+
+                ws.close(1000);
+                await Bun.sleep(50);
+
+                expect(closed).toEqual([1000]);
+            },
+            {
+                gateways: [ChatGateway],
+                services: [GreetingService],
+                listen: true,
+            }
+        );
+    });
+
+    test('runs middlewares and guards on the upgrade request', async () => {
+        const auth: MiddlewareHandler = (ctx) => {
+            ctx.locals.user = ctx.headers.get('x-user');
+        };
+
+        const guarded: string[] = [];
+
+        class AuthGuard implements CanActivate {
+            canActivate(context: ExecutionContext) {
+                guarded.push(`${context.getClass().name}.${context.getHandlerName()}`);
+                return !!context.getContext().locals.user;
+            }
+        }
+
+        @WebSocketGateway('/secure')
+        @Use(auth)
+        @UseGuards(AuthGuard)
+        class SecureGateway {
+            @OnOpen()
+            open(socket: GatewaySocket) {
+                socket.send(`hi ${socket.data.ctx.locals.user}`);
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const rejected = await harness.get('/secure', {
+                    headers: { Upgrade: 'websocket', Connection: 'Upgrade', 'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==', 'Sec-WebSocket-Version': '13' },
+                });
+                expect(rejected.status).toBe(403);
+
+                const plain = await harness.get('/secure', { headers: { 'x-user': 'ana' } });
+                expect(plain.status).toBe(426);
+
+                const { ws, next } = await connect(harness.port!, '/secure', { 'x-user': 'ana' });
+                expect(await next()).toBe('hi ana');
+                ws.close();
+
+                expect(guarded).toEqual(['SecureGateway.upgrade', 'SecureGateway.upgrade', 'SecureGateway.upgrade']);
+            },
+            {
+                gateways: [SecureGateway],
+                listen: true,
+            }
+        );
+    });
+
+    test('broadcasts to subscribed sockets through WebSocketPublisher', async () => {
+        @WebSocketGateway('/news')
+        class NewsGateway {
+            @OnOpen()
+            open(socket: GatewaySocket) {
+                socket.subscribe('news');
+            }
+        }
+
+        @Controller('/news')
+        class NewsController {
+            constructor(private publisher: WebSocketPublisher) {}
+
+            @Post()
+            publish(@Body() body: any) {
+                return { subscribers: this.publisher.subscriberCount('news'), sent: this.publisher.publish('news', body) > 0 };
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const first = await connect(harness.port!, '/news');
+                const second = await connect(harness.port!, '/news');
+
+                const response = await harness.post('/news', { title: 'Carno ships websockets' });
+                expect(await response.json()).toEqual({ subscribers: 2, sent: true });
+
+                expect(await first.next()).toEqual({ title: 'Carno ships websockets' });
+                expect(await second.next()).toEqual({ title: 'Carno ships websockets' });
+
+                first.ws.close();
+                second.ws.close();
+            },
+            {
+                controllers: [NewsController],
+                gateways: [NewsGateway],
+                listen: true,
+            }
+        );
+    });
+
+    test('accepts connections to gateways of imported modules', async () => {
+        @WebSocketGateway('/chat')
+        class ChatGateway {
+            @OnMessage()
+            echo(socket: GatewaySocket, message: string) {
+                return `chat:${message}`;
+            }
+        }
+
+        await withTestApp(
+            async (harness) => {
+                const { ws, next } = await connect(harness.port!, '/chat');
+
+                ws.send('hello');
+                expect(await next()).toBe('chat:hello');
+                ws.close();
+            },
+            {
+                plugins: [new Carno({ name: 'ChatModule' }).gateways(ChatGateway)],
+                listen: true,
+            }
+        );
+    });
+});
@@ -32,7 +32,7 @@ export interface LoggerPluginConfig extends LoggerConfig {
  */
 export function createCarnoLogger(config: LoggerPluginConfig = {}) {
     const logger = new LoggerService(config);
-    return new Carno()
+    return new Carno({ global: true })
         .services([
             {
                 token: LoggerService,
@@ -21,6 +21,8 @@ import { SqlColumnManager } from './query/sql-column-manager';
 import { SqlJoinManager } from './query/sql-join-manager';
 import { QueryCacheManager } from './cache/query-cache-manager';
 import type { Logger } from './logger';
+import type { Histogram } from '@carno.js/core';
+import { EntityNotFoundError } from './errors/entity-not-found.error';
 
 export class SqlBuilder<T> {
   private readonly driver: DriverInterface;
@@ -35,6 +37,7 @@ export class SqlBuilder<T> {
   private conditionBuilder!: SqlConditionBuilder<T>;
   private columnManager!: SqlColumnManager;
   private cacheManager?: QueryCacheManager;
+  private queryDuration?: Histogram;
 
   // Lazy initialized - created only when joins/transforms are needed
   private _modelTransformer?: ModelTransformer;
@@ -63,6 +66,7 @@ export class SqlBuilder<T> {
     this.logger = orm.logger;
     this.entityStorage = EntityStorage.getInstance();
     this.cacheManager = orm.queryCacheManager;
+    this.queryDuration = orm.queryDuration;
 
     this.getEntity(model);
     this.statements.hooks = this.entity.hooks;
@@ -424,13 +428,13 @@ export class SqlBuilder<T> {
     const result = await this.execute();
 
     if (result.query.rows.length === 0) {
-      throw new Error('Result not found');
+      throw new EntityNotFoundError(this.model.name);
     }
 
     if (hasOneToManyJoinedJoin) {
       const model = await this.processOneToManyJoinedResult(result.query.rows);
       if (!model) {
-        throw new Error('Result not found');
+        throw new EntityNotFoundError(this.model.name);
       }
       return model;
     }
@@ -646,7 +650,15 @@ export class SqlBuilder<T> {
   }
 
   private logExecution(result: { query: any, startTime: number, sql: string }): void {
-    this.logger.debug(`SQL: ${result.sql} [${Date.now() - result.startTime}ms]`);
+    const duration = Date.now() - result.startTime;
+
+    this.logger.debug(`SQL: ${result.sql} [${duration}ms]`);
+
+    if (this.queryDuration) {
+      const table = this.entity.tableName || (this.model as Function).name.toLowerCase();
+
+      this.queryDuration.observe(duration / 1000, table, this.statements.statement ?? 'unknown');
+    }
   }
 
   async inTransaction<T>(callback: (builder: SqlBuilder<T>) => Promise<T>): Promise<T> {
@@ -31,7 +31,8 @@ export class QueryCacheManager {
     const namespace = this.getNamespace(statement);
     
     this.registerKeyInNamespace(namespace, key);
-    await this.cacheService.set(key, value, ttl);
+    // Query cache TTLs are in milliseconds, CacheService expects seconds
+    await this.cacheService.set(key, value, ttl === undefined ? undefined : ttl / 1000);
   }
 
   async invalidate<T>(statement: Statement<T>): Promise<void> {
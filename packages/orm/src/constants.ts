@@ -3,4 +3,9 @@ export const PROPERTIES = 'carno:properties';
 export const PROPERTIES_METADATA = 'carno:properties:metadata';
 export const PROPERTIES_RELATIONS = 'carno:properties:relations';
 export const EVENTS_METADATA = 'carno:events:metadata';
-export const COMPUTED_PROPERTIES = 'carno:computed:properties';
\ No newline at end of file
+export const COMPUTED_PROPERTIES = 'carno:computed:properties';
+/**
+ * Provider token for the connection settings, used instead of `carno.config.ts`
+ * (e.g. a `useFactory` reading the `ConfigService`).
+ */
+export const ORM_CONNECTION = 'carno:orm:connection';
@@ -1,4 +1,5 @@
 import { SQL } from "bun";
+import type { SpanAttributes, Tracer } from "@carno.js/core";
 import {
   ConnectionSettings,
   DriverInterface,
@@ -19,6 +20,7 @@ export abstract class BunDriverBase implements Partial<DriverInterface> {
     connectionTimeout: number;
   };
   public abstract readonly dbType: "postgres" | "mysql";
+  public tracer?: Tracer;
 
   constructor(options: ConnectionSettings) {
     this.connectionString = this.buildConnectionString(options);
@@ -88,8 +90,31 @@ export abstract class BunDriverBase implements Partial<DriverInterface> {
 
   async executeSql(sqlString: string): Promise<any> {
     const context = this.getExecutionContext();
+    const operation = sqlString.trim().split(/\s+/, 1)[0].toUpperCase();
 
-    return await context.unsafe(sqlString);
+    return this.traced(operation, { "db.query.text": sqlString }, () => context.unsafe(sqlString));
+  }
+
+  /**
+   * Client span per SQL statement. Generated statements are traced without their
+   * text - values are inlined and may be sensitive.
+   */
+  private traced<T>(operation: string, attributes: SpanAttributes, run: () => Promise<T>): Promise<T> {
+    if (!this.tracer?.enabled) {
+      return run();
+    }
+
+    const table = attributes["db.collection.name"];
+    const name = table ? `${operation} ${table}` : operation;
+
+    return this.tracer.startActiveSpan(name, {
+      kind: "client",
+      attributes: {
+        "db.system": this.dbType === "mysql" ? "mysql" : "postgresql",
+        "db.operation.name": operation,
+        ...attributes,
+      },
+    }, run);
   }
 
   private getExecutionContext(): SQL {
@@ -237,6 +262,15 @@ export abstract class BunDriverBase implements Partial<DriverInterface> {
 
   async executeStatement(
     statement: Statement<any>
+  ): Promise<{ query: any; startTime: number; sql: string }> {
+    const operation = (statement.statement ?? "query").toUpperCase();
+    const table = statement.table?.replace(/["`]/g, "");
+
+    return this.traced(operation, { "db.collection.name": table }, () => this.runStatement(statement));
+  }
+
+  private async runStatement(
+    statement: Statement<any>
   ): Promise<{ query: any; startTime: number; sql: string }> {
     const startTime = Date.now();
     const context = this.getExecutionContext();
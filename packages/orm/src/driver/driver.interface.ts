@@ -2,10 +2,13 @@ import { PropertyOptions } from "../decorators/property.decorator";
 import { Collection } from "../domain/collection";
 import { Reference } from "../domain/reference";
 import { ValueObject } from "../common/value-object";
+import type { Tracer } from "@carno.js/core";
 
 export interface DriverInterface {
   connectionString: string;
   readonly dbType: "postgres" | "mysql";
+  /** Set by Orm when tracing is enabled - one span per statement */
+  tracer?: Tracer;
 
   getIdentifierQuote(): string;
 
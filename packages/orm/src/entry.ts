@@ -3,7 +3,9 @@ import { Orm } from './orm';
 import { OrmService } from './orm.service';
 import { EntityStorage } from './domain/entities';
 import { IdentityMapMiddleware } from './middleware/identity-map.middleware';
+import { OrmHealthIndicator } from './orm-health.indicator';
 
 export const CarnoOrm = new Carno({
-  exports: [Orm, OrmService, EntityStorage, IdentityMapMiddleware],
+  global: true,
+  exports: [Orm, OrmService, EntityStorage, IdentityMapMiddleware, OrmHealthIndicator],
 })
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Thrown by `*OrFail` queries when no row matches.
+ * Map it to a 404 with an exception filter: `@Catch(EntityNotFoundError)`.
+ */
+export class EntityNotFoundError extends Error {
+  constructor(public readonly entity?: string) {
+    super('Result not found');
+    this.name = 'EntityNotFoundError';
+  }
+}
@@ -9,6 +9,8 @@ export * from './decorators/enum.decorator';
 export * from './decorators/computed.decorator';
 export * from './orm'
 export * from './orm.service'
+export * from './orm-health.indicator'
+export { ORM_CONNECTION } from './constants'
 export * from './domain/base-entity'
 export * from './domain/reference'
 export type { Ref } from './domain/reference'
@@ -24,6 +26,7 @@ export * from './common/value-object'
 export * from './common/email.vo'
 export * from './common/uuid'
 export * from './repository/Repository'
+export { EntityNotFoundError } from './errors/entity-not-found.error'
 export { transactionContext } from './transaction/transaction-context'
 export { IdentityMapMiddleware } from './middleware/identity-map.middleware'
 export { identityMapContext } from './identity-map'
@@ -0,0 +1,26 @@
+import { HealthService, Service, type HealthDetails, type HealthIndicator } from '@carno.js/core';
+import { Orm } from './orm';
+
+/**
+ * Readiness check pinging the database connection.
+ */
+@Service()
+export class OrmHealthIndicator implements HealthIndicator {
+  readonly name = 'database';
+
+  constructor(private orm: Orm, health: HealthService) {
+    health.register(this);
+  }
+
+  async check(): Promise<HealthDetails> {
+    const driver = this.orm.driverInstance;
+
+    if (!driver) {
+      throw new Error('No database connection configured');
+    }
+
+    await driver.executeSql('SELECT 1');
+
+    return { dbType: driver.dbType };
+  }
+}
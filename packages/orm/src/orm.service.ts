@@ -1,6 +1,6 @@
-import { Metadata, OnApplicationInit, Service } from '@carno.js/core';
+import { Container, Metadata, OnApplicationInit, Service } from '@carno.js/core';
 import { EntityStorage, Property } from './domain/entities';
-import { ENTITIES, EVENTS_METADATA, PROPERTIES_METADATA, PROPERTIES_RELATIONS } from './constants';
+import { ENTITIES, EVENTS_METADATA, ORM_CONNECTION, PROPERTIES_METADATA, PROPERTIES_RELATIONS } from './constants';
 import { Project, SyntaxKind } from 'ts-morph';
 import { Orm } from './orm';
 import * as globby from 'globby';
@@ -13,7 +13,12 @@ export class OrmService {
   private allEntities = new Map<string, { nullables: string[], defaults: { [key: string]: any } }>();
   private project: Project;
 
-  constructor(private orm: Orm, private storage: EntityStorage, entityFile?: string) {
+  constructor(
+    private orm: Orm,
+    private storage: EntityStorage,
+    entityFile?: string,
+    private container?: Container,
+  ) {
     this.project = new Project({skipLoadingLibFiles: true});
     const files = this.project.addSourceFilesAtPaths(entityFile ?? this.getSourceFilePaths());
     
@@ -236,27 +241,28 @@ export class OrmService {
   @OnApplicationInit()
   async onInit(customConfig: any = {}) {
     const hasCustomConfig = Object.keys(customConfig).length > 0;
-    let config: any = null;
     let setConfig: any;
 
-    if (!hasCustomConfig) {
+    if (hasCustomConfig) {
+      setConfig = customConfig;
+    } else if (this.container?.has(ORM_CONNECTION)) {
+      setConfig = this.container.get(ORM_CONNECTION);
+    } else {
       const configFile = globby.sync('carno.config.ts', {absolute: true});
       if (configFile.length === 0) {
         console.log('No config file found!')
         return;
       }
 
-      config = await import(configFile[0]);
+      const config = await import(configFile[0]);
       setConfig = config.default;
-    } else {
-      setConfig = customConfig;
     }
 
     this.orm.setConnection(setConfig);
     await this.orm.connect();
 
-    if (config && typeof config.default.entities === 'string') {
-      const files = globby.sync([config.default.entities, '!node_modules'], {gitignore: true, absolute: true})
+    if (!hasCustomConfig && typeof setConfig.entities === 'string') {
+      const files = globby.sync([setConfig.entities, '!node_modules'], {gitignore: true, absolute: true})
 
       for (const file of files) {
         await import(file)
@@ -1,5 +1,5 @@
 import { CacheSettings, ConnectionSettings, DriverInterface } from './driver/driver.interface';
-import { Service, CacheService } from '@carno.js/core';
+import { Service, CacheService, MetricsRegistry, Tracer, type Histogram } from '@carno.js/core';
 import { SqlBuilder } from './SqlBuilder';
 import { QueryCacheManager } from './cache/query-cache-manager';
 import { transactionContext } from './transaction/transaction-context';
@@ -15,10 +15,19 @@ export class Orm<T extends DriverInterface = DriverInterface> {
   public connection: ConnectionSettings<T>
   public queryCacheManager?: QueryCacheManager;
   public logger: Logger;
+  public queryDuration?: Histogram;
 
-  constructor(public cacheService?: CacheService) {
+  constructor(public cacheService?: CacheService, metrics?: MetricsRegistry, private tracer?: Tracer) {
     this.logger = createLogger();
     Orm.instance = this;
+
+    if (metrics?.enabled) {
+      this.queryDuration = metrics.histogram(
+        'orm_query_duration_seconds',
+        'ORM query duration by table and statement',
+        ['table', 'statement'],
+      );
+    }
   }
 
   private initializeQueryCacheManager(cacheSettings?: CacheSettings): void {
@@ -43,6 +52,7 @@ export class Orm<T extends DriverInterface = DriverInterface> {
     this.connection = connection
     // @ts-ignore
     this.driverInstance = new this.connection.driver(connection)
+    this.driverInstance.tracer = this.tracer
     this.initializeQueryCacheManager(connection.cache);
   }
 
@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test';
+import { Container } from '@carno.js/core';
+import { BunPgDriver, EntityStorage, Orm, OrmService, ORM_CONNECTION } from '../../src';
+
+describe('ORM_CONNECTION', () => {
+  test('should connect with the registered settings instead of carno.config.ts', async () => {
+    // Given
+    const settings = { driver: BunPgDriver, host: 'db.internal', port: 5432, database: 'app' };
+    const container = new Container();
+    container.register({ token: ORM_CONNECTION, useFactory: () => settings });
+
+    let connectedWith: any = null;
+    const ormMock = {
+      setConnection: (connection: any) => { connectedWith = connection; },
+      connect: async () => undefined,
+    } as unknown as Orm;
+
+    const service = new OrmService(ormMock, new EntityStorage(), __filename, container);
+    // @ts-ignore
+    service.getSourceFilePaths = () => [__filename];
+
+    // When
+    await service.onInit();
+
+    // Then
+    expect(connectedWith).toBe(settings);
+  });
+});
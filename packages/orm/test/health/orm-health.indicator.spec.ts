@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import { HealthService } from '@carno.js/core';
+import { Orm, OrmHealthIndicator } from '../../src';
+
+describe('OrmHealthIndicator', () => {
+  test('should register itself and ping the database', async () => {
+    // Given
+    const health = new HealthService();
+    const orm = new Orm();
+    const executed: string[] = [];
+    orm.driverInstance = { dbType: 'postgres', executeSql: async (sql: string) => executed.push(sql) } as any;
+
+    // When
+    new OrmHealthIndicator(orm, health);
+    const report = await health.check('readiness');
+
+    // Then
+    expect(executed).toEqual(['SELECT 1']);
+    expect(report.checks.database).toMatchObject({ status: 'up', details: { dbType: 'postgres' } });
+  });
+
+  test('should be down without a connection', async () => {
+    // Given
+    const health = new HealthService();
+    new OrmHealthIndicator(new Orm(), health);
+
+    // When
+    const report = await health.check('readiness');
+
+    // Then
+    expect(report.status).toBe('error');
+    expect(report.checks.database.error).toBe('No database connection configured');
+  });
+});
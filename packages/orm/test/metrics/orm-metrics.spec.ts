@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import { Metadata, MetricsRegistry } from '@carno.js/core';
+import { BaseEntity, Entity, EntityStorage, Orm, PrimaryKey, Property } from '../../src';
+import { PROPERTIES_METADATA } from '../../src/constants';
+import { SqlBuilder } from '../../src/SqlBuilder';
+
+@Entity()
+class Invoice extends BaseEntity {
+  @PrimaryKey()
+  id: number;
+
+  @Property()
+  total: number;
+}
+
+function createOrm(metrics: MetricsRegistry): Orm {
+  const orm = new Orm(undefined, metrics);
+
+  orm.driverInstance = {
+    dbType: 'postgres',
+    getIdentifierQuote: () => '"',
+    executeStatement: async () => ({ query: { rows: [] }, startTime: Date.now() - 20, sql: 'SELECT 1' }),
+  } as any;
+
+  const storage = new EntityStorage();
+  storage.add({ target: Invoice, options: {} }, Metadata.get(PROPERTIES_METADATA, Invoice), [], []);
+
+  return orm;
+}
+
+describe('ORM metrics', () => {
+  test('should record query durations by table and statement', async () => {
+    // Given
+    const metrics = new MetricsRegistry();
+    createOrm(metrics);
+
+    // When
+    await new SqlBuilder(Invoice).select().execute();
+
+    // Then
+    const output = await metrics.render();
+    expect(output).toContain('orm_query_duration_seconds_count{table="invoice",statement="select"} 1');
+    expect(output).toMatch(/orm_query_duration_seconds_sum\{table="invoice",statement="select"\} 0\.0[2-9]/);
+  });
+
+  test('should not declare metrics when they are disabled', async () => {
+    // Given
+    const metrics = new MetricsRegistry(false);
+    const orm = createOrm(metrics);
+
+    // When
+    await new SqlBuilder(Invoice).select().execute();
+
+    // Then
+    expect(orm.queryDuration).toBeUndefined();
+    expect(metrics.get('orm_query_duration_seconds')).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { Metadata, Tracer, type Span } from '@carno.js/core';
+import { BaseEntity, BunPgDriver, Entity, EntityStorage, Orm, PrimaryKey, Property } from '../../src';
+import { PROPERTIES_METADATA } from '../../src/constants';
+import { SqlBuilder } from '../../src/SqlBuilder';
+
+@Entity()
+class Shipment extends BaseEntity {
+  @PrimaryKey()
+  id: number;
+
+  @Property()
+  carrier: string;
+}
+
+function createOrm(tracer: Tracer): { orm: Orm; executed: string[] } {
+  const executed: string[] = [];
+  const orm = new Orm(undefined, undefined, tracer);
+
+  orm.setConnection({ driver: BunPgDriver, connectionString: 'postgres://localhost/test' });
+  // Stands in for Bun's SQL client - no database needed
+  (orm.driverInstance as any).sql = {
+    unsafe: async (sql: string) => {
+      executed.push(sql);
+      return [];
+    },
+  };
+
+  const storage = new EntityStorage();
+  storage.add({ target: Shipment, options: {} }, Metadata.get(PROPERTIES_METADATA, Shipment), [], []);
+
+  return { orm, executed };
+}
+
+describe('ORM tracing', () => {
+  test('should record a client span per statement, without the generated SQL', async () => {
+    // Given
+    const spans: Span[] = [];
+    const tracer = new Tracer({ exporter: { export: async batch => { spans.push(...batch); } } });
+    const { executed } = createOrm(tracer);
+
+    // When
+    await tracer.startActiveSpan('request', {}, () => new SqlBuilder(Shipment).select().where({ carrier: 'acme' }).execute());
+    await tracer.flush();
+
+    // Then
+    const [query, request] = spans;
+    expect(executed).toHaveLength(1);
+    expect(query.name).toBe('SELECT public.shipment');
+    expect(query.kind).toBe('client');
+    expect(query.parentSpanId).toBe(request.context.spanId);
+    expect(query.attributes['db.system']).toBe('postgresql');
+    expect(query.attributes['db.operation.name']).toBe('SELECT');
+    expect(query.attributes['db.query.text']).toBeUndefined();
+  });
+
+  test('should include the text of raw SQL', async () => {
+    // Given
+    const spans: Span[] = [];
+    const tracer = new Tracer({ exporter: { export: async batch => { spans.push(...batch); } } });
+    const { orm } = createOrm(tracer);
+
+    // When
+    await orm.driverInstance.executeSql('CREATE INDEX shipment_carrier ON shipment (carrier)');
+    await tracer.flush();
+
+    // Then
+    expect(spans[0].name).toBe('CREATE');
+    expect(spans[0].attributes['db.query.text']).toBe('CREATE INDEX shipment_carrier ON shipment (carrier)');
+  });
+});
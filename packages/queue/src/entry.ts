@@ -1,6 +1,8 @@
 import { Carno } from '@carno.js/core';
 import { QueueOrchestration } from './queue-orchestration.service';
 import { QueueRegistry } from './queue.registry';
+import { QueueHealthIndicator } from './queue-health.indicator';
+import { QueueMetricsCollector } from './queue-metrics.collector';
 import { QueueDiscoveryService } from './services/queue-discovery.service';
 import { QueueBuilderService } from './services/queue-builder.service';
 import { EventBinderService } from './services/event-binder.service';
@@ -13,6 +15,7 @@ export function CarnoQueue(options: QueueModuleOptions = {}) {
   connectionManager.setDefaultConnection(options.connection);
 
   const plugin = new Carno({
+    global: true,
     exports: [
       QueueOrchestration,
       QueueRegistry,
@@ -20,6 +23,8 @@ export function CarnoQueue(options: QueueModuleOptions = {}) {
       QueueBuilderService,
       EventBinderService,
       ConnectionManagerService,
+      QueueHealthIndicator,
+      QueueMetricsCollector,
     ],
   });
 
@@ -30,6 +35,8 @@ export function CarnoQueue(options: QueueModuleOptions = {}) {
     QueueDiscoveryService,
     QueueBuilderService,
     EventBinderService,
+    QueueHealthIndicator,
+    QueueMetricsCollector,
   ]);
 
   return plugin;
@@ -3,6 +3,8 @@ export * from './interfaces';
 export * from './constants';
 export * from './queue.registry';
 export * from './queue-orchestration.service';
+export * from './queue-health.indicator';
+export * from './queue-metrics.collector';
 export * from './entry';
 
 export { getQueueToken } from './decorators/inject-queue.decorator';
@@ -0,0 +1,26 @@
+import { HealthService, Service, type HealthDetails, type HealthIndicator } from '@carno.js/core';
+import { QueueRegistry } from './queue.registry';
+
+/**
+ * Readiness check pinging the Redis connection of every registered queue.
+ */
+@Service()
+export class QueueHealthIndicator implements HealthIndicator {
+  readonly name = 'queues';
+
+  constructor(private registry: QueueRegistry, health: HealthService) {
+    health.register(this);
+  }
+
+  async check(): Promise<HealthDetails> {
+    const queues = [...this.registry.getQueues().values()];
+
+    await Promise.all(queues.map(async queue => {
+      const client = await queue.client;
+
+      await client.ping();
+    }));
+
+    return { queues: queues.map(queue => queue.name) };
+  }
+}
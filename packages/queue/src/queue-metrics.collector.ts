@@ -0,0 +1,54 @@
+import { MetricsRegistry, Service, type Counter } from '@carno.js/core';
+import type { Worker } from 'bullmq';
+import { QueueRegistry } from './queue.registry';
+
+const JOB_STATES = ['waiting', 'active', 'delayed', 'completed', 'failed'] as const;
+
+/**
+ * Queue depth, read from Redis on every scrape, and the completions and
+ * failures of the workers running in this process.
+ */
+@Service()
+export class QueueMetricsCollector {
+  private completed?: Counter;
+  private failed?: Counter;
+
+  constructor(private registry: QueueRegistry, metrics: MetricsRegistry) {
+    if (!metrics.enabled) {
+      return;
+    }
+
+    const jobs = metrics.gauge('queue_jobs', 'BullMQ jobs by queue and state', ['queue', 'state']);
+    this.completed = metrics.counter('queue_jobs_completed_total', 'Jobs completed by workers of this process', ['queue']);
+    this.failed = metrics.counter('queue_jobs_failed_total', 'Failed job attempts in workers of this process', ['queue']);
+
+    metrics.onCollect(() => this.collectDepth((count, queue, state) => jobs.set(count, queue, state)));
+  }
+
+  /**
+   * Count the completed and failed jobs of a worker. No-op when metrics are disabled.
+   */
+  track(worker: Worker): void {
+    if (!this.completed || !this.failed) {
+      return;
+    }
+
+    const completed = this.completed.labels(worker.name);
+    const failed = this.failed.labels(worker.name);
+
+    worker.on('completed', () => completed.inc());
+    worker.on('failed', () => failed.inc());
+  }
+
+  private async collectDepth(set: (count: number, queue: string, state: string) => void): Promise<void> {
+    const queues = [...this.registry.getQueues().values()];
+
+    await Promise.all(queues.map(async queue => {
+      const counts = await queue.getJobCounts(...JOB_STATES);
+
+      for (const state of JOB_STATES) {
+        set(counts[state] ?? 0, queue.name, state);
+      }
+    }));
+  }
+}
@@ -5,6 +5,7 @@ import {
   Container,
   Context,
   Scope,
+  Tracer,
 } from '@carno.js/core';
 import { QueueRegistry } from './queue.registry';
 import { QueueDiscoveryService } from './services/queue-discovery.service';
@@ -12,6 +13,7 @@ import { QueueBuilderService } from './services/queue-builder.service';
 import { EventBinderService } from './services/event-binder.service';
 import { getQueueToken } from './decorators/inject-queue.decorator';
 import { createQueueProxyFactory } from './services/queue-proxy-factory.service';
+import { traceJob } from './queue-tracing';
 
 @Service()
 export class QueueOrchestration {
@@ -20,7 +22,8 @@ export class QueueOrchestration {
     private discoveryService: QueueDiscoveryService,
     private builderService: QueueBuilderService,
     private eventBinder: EventBinderService,
-    private container: Container
+    private container: Container,
+    private tracer?: Tracer
   ) {}
 
   @OnApplicationInit(100)
@@ -227,7 +230,7 @@ export class QueueOrchestration {
       job.name
     )].bind(instance);
 
-    return boundProcessor(job);
+    return traceJob(this.tracer, queueMetadata.name, job, () => boundProcessor(job));
   }
 
 
@@ -358,7 +361,7 @@ export class QueueOrchestration {
 
   private registerQueueProvider(name: string, queue: any): void {
     const token = getQueueToken(name);
-    const ProxyFactory = createQueueProxyFactory(queue);
+    const ProxyFactory = createQueueProxyFactory(queue, this.tracer);
 
     this.container.register({
       token,
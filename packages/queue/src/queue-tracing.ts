@@ -0,0 +1,56 @@
+import { parseTraceparent, type Tracer } from '@carno.js/core';
+import type { Job, JobsOptions } from 'bullmq';
+
+/**
+ * Run `publish` in a producer span and hand it the job options with the span's
+ * `traceparent` as BullMQ telemetry metadata. Job data is left untouched.
+ */
+export function tracePublish<T>(
+  tracer: Tracer | undefined,
+  queueName: string,
+  jobNames: string[],
+  publish: (inject: (opts?: JobsOptions) => JobsOptions | undefined) => Promise<T>,
+): Promise<T> {
+  if (!tracer?.enabled) {
+    return publish(opts => opts);
+  }
+
+  return tracer.startActiveSpan(`publish ${queueName}`, {
+    kind: 'producer',
+    attributes: {
+      'messaging.system': 'bullmq',
+      'messaging.operation.type': 'publish',
+      'messaging.destination.name': queueName,
+      'messaging.batch.message_count': jobNames.length > 1 ? jobNames.length : undefined,
+      'messaging.bullmq.job.name': jobNames.length === 1 ? jobNames[0] : undefined,
+    },
+  }, span => {
+    const traceparent = span && tracer.traceparent(span);
+
+    return publish(opts => !traceparent || opts?.telemetry?.metadata
+      ? opts
+      : { ...opts, telemetry: { ...opts?.telemetry, metadata: traceparent } });
+  });
+}
+
+/**
+ * Run a job processor in a consumer span, continuing the producer's trace.
+ */
+export function traceJob<T>(tracer: Tracer | undefined, queueName: string, job: Job, run: () => Promise<T>): Promise<T> {
+  if (!tracer?.enabled) {
+    return run();
+  }
+
+  return tracer.startActiveSpan(`process ${queueName}`, {
+    kind: 'consumer',
+    parent: parseTraceparent(job.opts?.telemetry?.metadata),
+    attributes: {
+      'messaging.system': 'bullmq',
+      'messaging.operation.type': 'process',
+      'messaging.destination.name': queueName,
+      'messaging.message.id': job.id,
+      'messaging.bullmq.job.name': job.name,
+      'messaging.bullmq.job.attempts_made': job.attemptsMade,
+    },
+  }, run);
+}
@@ -2,12 +2,14 @@ import { Service } from '@carno.js/core';
 import { Queue, Worker, Job } from 'bullmq';
 import { ConnectionManagerService } from './connection-manager.service';
 import { QueueRegistry } from '../queue.registry';
+import { QueueMetricsCollector } from '../queue-metrics.collector';
 
 @Service()
 export class QueueBuilderService {
   constructor(
     private connectionManager: ConnectionManagerService,
-    private queueRegistry: QueueRegistry
+    private queueRegistry: QueueRegistry,
+    private metrics: QueueMetricsCollector
   ) {}
 
   createQueue(name: string, options: any = {}): Queue {
@@ -38,6 +40,7 @@ export class QueueBuilderService {
     });
 
     this.queueRegistry.addWorker(workerId, worker);
+    this.metrics.track(worker);
 
     return worker;
   }
@@ -1,10 +1,13 @@
+import type { Tracer } from '@carno.js/core';
 import { Queue, JobsOptions, Job } from 'bullmq';
+import { tracePublish } from '../queue-tracing';
 
 
 export class QueueClientProxy {
 
   constructor(
-    public readonly queue: Queue
+    public readonly queue: Queue,
+    public readonly tracer?: Tracer
   ) {}
 
 
@@ -13,14 +16,18 @@ export class QueueClientProxy {
     data: any = {},
     options?: JobsOptions
   ): Promise<any> {
-    return this.queue.add(jobName, data, options);
+    return tracePublish(this.tracer, this.queue.name, [jobName], inject =>
+      this.queue.add(jobName, data, inject(options))
+    );
   }
 
 
   async addBulk(
     jobs: Array<{ name: string; data?: any; opts?: JobsOptions }>
   ): Promise<any> {
-    return this.queue.addBulk(jobs as any);
+    return tracePublish(this.tracer, this.queue.name, jobs.map(job => job.name), inject =>
+      this.queue.addBulk(jobs.map(job => ({ ...job, opts: inject(job.opts) })) as any)
+    );
   }
 
 
@@ -1,10 +1,11 @@
-import { Service, Scope } from "@carno.js/core";
+import { Service, Scope, Tracer } from "@carno.js/core";
 import { Queue, JobsOptions } from "bullmq";
 import { QueueRegistry } from "../queue.registry";
+import { tracePublish } from "../queue-tracing";
 
 @Service({ scope: Scope.SINGLETON })
 export class QueueClient {
-  constructor(private queueRegistry: QueueRegistry) {}
+  constructor(private queueRegistry: QueueRegistry, private tracer?: Tracer) {}
 
   async add(
     queueName: string,
@@ -14,7 +15,9 @@ export class QueueClient {
   ): Promise<any> {
     const queue = this.getQueue(queueName);
 
-    return queue.add(jobName, data, options);
+    return tracePublish(this.tracer, queueName, [jobName], inject =>
+      queue.add(jobName, data, inject(options))
+    );
   }
 
   async addBulk(
@@ -23,7 +26,9 @@ export class QueueClient {
   ): Promise<any> {
     const queue = this.getQueue(queueName);
 
-    return queue.addBulk(jobs as any);
+    return tracePublish(this.tracer, queueName, jobs.map(job => job.name), inject =>
+      queue.addBulk(jobs.map(job => ({ ...job, opts: inject(job.opts) })) as any)
+    );
   }
 
   private getQueue(queueName: string): Queue {
@@ -1,12 +1,12 @@
-import { Context } from '@carno.js/core';
+import { Context, type Tracer } from '@carno.js/core';
 import { Queue } from 'bullmq';
 import { QueueClientProxy } from './queue-client-proxy.service';
 
 
-export function createQueueProxyFactory(queue: Queue) {
+export function createQueueProxyFactory(queue: Queue, tracer?: Tracer) {
   return class extends QueueClientProxy {
     constructor() {
-      super(queue);
+      super(queue, tracer);
     }
   };
 }
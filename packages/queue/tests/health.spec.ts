@@ -0,0 +1,35 @@
+import { describe, test, expect } from 'bun:test';
+import { HealthService } from '@carno.js/core';
+import { QueueHealthIndicator, QueueRegistry } from '../src';
+
+describe('QueueHealthIndicator', () => {
+  test('should ping the connection of every queue', async () => {
+    const health = new HealthService();
+    const registry = new QueueRegistry();
+    let pings = 0;
+
+    registry.addQueue('emails', { name: 'emails', client: Promise.resolve({ ping: async () => pings++ }) } as any);
+    new QueueHealthIndicator(registry, health);
+
+    const report = await health.check('readiness');
+
+    expect(pings).toBe(1);
+    expect(report.checks.queues).toMatchObject({ status: 'up', details: { queues: ['emails'] } });
+  });
+
+  test('should be down when Redis is unreachable', async () => {
+    const health = new HealthService();
+    const registry = new QueueRegistry();
+
+    registry.addQueue('emails', {
+      name: 'emails',
+      client: Promise.resolve({ ping: async () => { throw new Error('ECONNREFUSED'); } }),
+    } as any);
+    new QueueHealthIndicator(registry, health);
+
+    const report = await health.check('readiness');
+
+    expect(report.status).toBe('error');
+    expect(report.checks.queues.error).toBe('ECONNREFUSED');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'bun:test';
+import { EventEmitter } from 'node:events';
+import { MetricsRegistry } from '@carno.js/core';
+import { QueueMetricsCollector, QueueRegistry } from '../src';
+
+describe('QueueMetricsCollector', () => {
+  test('should report queue depth on every scrape', async () => {
+    const metrics = new MetricsRegistry();
+    const registry = new QueueRegistry();
+    let waiting = 3;
+
+    registry.addQueue('emails', {
+      name: 'emails',
+      getJobCounts: async () => ({ waiting, active: 1, delayed: 0, completed: 10, failed: 2 }),
+    } as any);
+    new QueueMetricsCollector(registry, metrics);
+
+    expect(await metrics.render()).toContain('queue_jobs{queue="emails",state="waiting"} 3');
+
+    waiting = 0;
+    const output = await metrics.render();
+
+    expect(output).toContain('queue_jobs{queue="emails",state="waiting"} 0');
+    expect(output).toContain('queue_jobs{queue="emails",state="failed"} 2');
+  });
+
+  test('should count completed and failed jobs of tracked workers', async () => {
+    const metrics = new MetricsRegistry();
+    const collector = new QueueMetricsCollector(new QueueRegistry(), metrics);
+    const worker = Object.assign(new EventEmitter(), { name: 'emails' });
+
+    collector.track(worker as any);
+    worker.emit('completed');
+    worker.emit('completed');
+    worker.emit('failed');
+
+    const output = await metrics.render();
+
+    expect(output).toContain('queue_jobs_completed_total{queue="emails"} 2');
+    expect(output).toContain('queue_jobs_failed_total{queue="emails"} 1');
+  });
+
+  test('should stay idle when metrics are disabled', async () => {
+    const metrics = new MetricsRegistry(false);
+    const collector = new QueueMetricsCollector(new QueueRegistry(), metrics);
+    const worker = new EventEmitter();
+
+    collector.track(worker as any);
+
+    expect(worker.listenerCount('completed')).toBe(0);
+    expect(await metrics.render()).toBe('');
+  });
+});
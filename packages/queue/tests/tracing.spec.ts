@@ -0,0 +1,132 @@
+import { describe, expect, it, mock } from 'bun:test'
+import { Tracer, parseTraceparent, type Span } from '@carno.js/core'
+import { QueueClientProxy } from '../src/services/queue-client-proxy.service'
+import { QueueOrchestration, QueueRegistry } from '../src'
+
+
+function createTracer(spans: Span[]): Tracer {
+  return new Tracer({ exporter: { export: async batch => { spans.push(...batch) } } })
+}
+
+
+describe('Queue tracing', () => {
+
+  it('injects the producer span traceparent into the job options', async () => {
+    // Given
+    const spans: Span[] = []
+    const tracer = createTracer(spans)
+    const queue = { name: 'emails', add: mock(() => Promise.resolve({ id: '1' })) }
+    const proxy = new QueueClientProxy(queue as any, tracer)
+
+    // When
+    await proxy.add('send', { to: 'ana@example.com' })
+    await tracer.flush()
+
+    // Then
+    const [, data, options] = (queue.add.mock.calls[0] as any[])
+    const [producer] = spans
+
+    expect(data).toEqual({ to: 'ana@example.com' })
+    expect(producer.name).toBe('publish emails')
+    expect(producer.kind).toBe('producer')
+    expect(parseTraceparent(options.telemetry.metadata)).toEqual(producer.context)
+  })
+
+
+  it('processes a job in a consumer span linked to the producer trace', async () => {
+    // Given
+    const spans: Span[] = []
+    const tracer = createTracer(spans)
+
+    const received: any[] = []
+
+    class EmailsQueue {
+      send(job: any) {
+        received.push(job.data)
+        return tracer.activeSpan()
+      }
+    }
+
+    const discovery = {
+      discoverProcessors: () => [{ target: EmailsQueue.prototype, methodName: 'send', name: 'send' }],
+    }
+    const container = { get: () => new EmailsQueue() }
+    const orchestration = new QueueOrchestration(
+      new QueueRegistry(), discovery as any, null as any, null as any, container as any, tracer
+    )
+    const process = (orchestration as any).createRouterProcessor(
+      { name: 'emails', target: EmailsQueue },
+      new Map([['send', EmailsQueue.prototype.send]])
+    )
+    const job = {
+      id: '42',
+      name: 'send',
+      attemptsMade: 0,
+      data: { to: 'ana@example.com' },
+      opts: { telemetry: { metadata: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' } },
+    }
+
+    // When
+    const active = await process(job)
+    await tracer.flush()
+
+    // Then
+    const [consumer] = spans
+
+    expect(received).toEqual([{ to: 'ana@example.com' }])
+    expect(active).toBe(consumer)
+    expect(consumer.name).toBe('process emails')
+    expect(consumer.kind).toBe('consumer')
+    expect(consumer.context.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+    expect(consumer.parentSpanId).toBe('00f067aa0ba902b7')
+    expect(consumer.attributes['messaging.message.id']).toBe('42')
+  })
+
+
+  it('hands processors exactly the data that was enqueued', async () => {
+    // Given
+    const tracer = createTracer([])
+    const queue = { name: 'emails', add: mock((name: string, data: any, opts: any) => Promise.resolve({ id: '1', name, data, opts })) }
+    const proxy = new QueueClientProxy(queue as any, tracer)
+    const received: any[] = []
+
+    class EmailsQueue {
+      send(job: any) {
+        received.push(job.data)
+      }
+    }
+
+    const discovery = {
+      discoverProcessors: () => [{ target: EmailsQueue.prototype, methodName: 'send', name: 'send' }],
+    }
+    const container = { get: () => new EmailsQueue() }
+    const orchestration = new QueueOrchestration(
+      new QueueRegistry(), discovery as any, null as any, null as any, container as any, tracer
+    )
+    const process = (orchestration as any).createRouterProcessor(
+      { name: 'emails', target: EmailsQueue },
+      new Map([['send', EmailsQueue.prototype.send]])
+    )
+
+    // When
+    const job = await proxy.add('send', { to: 'ana@example.com' })
+    await process({ ...job, attemptsMade: 0 })
+
+    // Then
+    expect(received).toEqual([{ to: 'ana@example.com' }])
+  })
+
+
+  it('leaves job data untouched without tracing', async () => {
+    // Given
+    const queue = { name: 'emails', add: mock(() => Promise.resolve({ id: '1' })) }
+    const proxy = new QueueClientProxy(queue as any, new Tracer())
+    const data = { to: 'ana@example.com' }
+
+    // When
+    await proxy.add('send', data)
+
+    // Then
+    expect(queue.add).toHaveBeenCalledWith('send', data, undefined)
+  })
+})
@@ -3,5 +3,6 @@ import { SchedulerOrchestration } from './scheduler-orchestration.service';
 import { SchedulerRegistry } from './scheduler.registry';
 
 export const CarnoScheduler = new Carno({
+  global: true,
   exports: [SchedulerOrchestration, SchedulerRegistry]
 })
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Carno, Service } from '@carno.js/core';
 import { StaticController } from './StaticController';
-import { setStaticConfig, cacheFileResponse } from './config';
+import { setStaticConfig, cacheFileResponse, STATIC_CONFIG_TOKEN } from './config';
 import { getMimeType } from './MimeTypes';
 import { listFiles, normalizePath } from './utils';
 import type { StaticPluginConfig, ResolvedConfig } from './types';
@@ -42,12 +42,15 @@ export class StaticPlugin {
         const pluginConfig = staticPlugin.config;
 
         const plugin = new Carno({
-            exports: []
+            exports: [STATIC_CONFIG_TOKEN]
         });
 
         // Set global config for StaticController (still used optionally)
         setStaticConfig(pluginConfig);
 
+        // Injectable with @Inject(STATIC_CONFIG_TOKEN)
+        plugin.services({ token: STATIC_CONFIG_TOKEN, useValue: pluginConfig });
+
         // Production: Pre-load files into memory
         if (pluginConfig.alwaysStatic) {
             // Strategy: Register individual routes for maximum performance